@@ -4,13 +4,16 @@ import { LegalAdvisor } from './components/LegalAdvisor';
 import { ImageGen } from './components/ImageGen';
 import { AuditLog } from './components/AuditLog';
 import { CaseBoard } from './components/CaseBoard';
+import { LedgerImport } from './components/LedgerImport';
+import { CorpusIntegrityBanner } from './components/CorpusIntegrityBanner';
 import { AuditProvider } from './contexts/AuditContext';
 
 enum View {
   ADVISOR = 'advisor',
   STUDIO = 'studio',
   AUDIT = 'audit',
-  CASE_BOARD = 'case_board'
+  CASE_BOARD = 'case_board',
+  BULK_AUDIT = 'bulk_audit'
 }
 
 const AppContent: React.FC = () => {
@@ -64,6 +67,18 @@ const AppContent: React.FC = () => {
             <span className="hidden md:block text-sm uppercase tracking-wider">Forensic Maps</span>
           </button>
 
+          <button
+            onClick={() => setCurrentView(View.BULK_AUDIT)}
+            className={`w-full flex items-center gap-3 px-3 py-3 rounded-md transition-all ${
+              currentView === View.BULK_AUDIT
+                ? 'bg-white text-black border border-white font-bold shadow-[0_0_10px_rgba(255,255,255,0.2)]' 
+                : 'text-neutral-500 hover:text-white hover:border hover:border-neutral-800'
+            }`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+            <span className="hidden md:block text-sm uppercase tracking-wider">Bulk Audit</span>
+          </button>
+
           <button
             onClick={() => setCurrentView(View.AUDIT)}
             className={`w-full flex items-center gap-3 px-3 py-3 rounded-md transition-all ${
@@ -88,11 +103,14 @@ const AppContent: React.FC = () => {
                 <svg className="w-5 h-5 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" /></svg>
              </div>
         </header>
+
+        <CorpusIntegrityBanner />
         
         <div className="flex-1 relative z-10">
            {currentView === View.ADVISOR && <LegalAdvisor />}
            {currentView === View.CASE_BOARD && <CaseBoard />}
            {currentView === View.STUDIO && <ImageGen />}
+           {currentView === View.BULK_AUDIT && <LedgerImport />}
            {currentView === View.AUDIT && <AuditLog />}
         </div>
       </main>
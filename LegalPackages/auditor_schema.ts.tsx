@@ -5,18 +5,26 @@ import { z } from 'zod';
 export interface ValidationStep {
   rule_id: string;
   passed: boolean;
+  outcome?: 'passed' | 'failed' | 'indeterminate';
   details: string;
   evidence_source: string;
   timestamp: string;
+  as_of?: string;           // Date the rule was evaluated under (YYYY-MM-DD)
+  statute_version?: string; // Version id of the statute text applied, e.g. "IRC 162@1986-10-22"
+  deductible_amount?: number;
 }
 
 export const ValidationStepZod = z.object({
   rule_id: z.string(),
   passed: z.boolean(),
+  outcome: z.enum(['passed', 'failed', 'indeterminate']).optional(),
   details: z.string(),
   evidence_source: z.string(),
   timestamp: z.string(),
-});
+  as_of: z.string().optional(),
+  statute_version: z.string().optional(),
+  deductible_amount: z.number().optional(),
+}).passthrough();
 
 // Define Section162aContract interface and schema
 export interface Section162aContract {
@@ -33,17 +41,103 @@ export const Section162aContractZod = z.object({
   business_revenue: z.number(),
 });
 
-// Define AuditResult interface and schema
+// Define the StatuteExcerpt interface and schema: the text a rule was evaluated under
+export interface StatuteExcerpt {
+  key: string;              // "<pinpoint>@<effective_date>", referenced from AuditResult.statutes
+  citation: string;
+  source: string;
+  title?: string;
+  version?: string;
+  effective_date?: string;
+  jurisdiction?: string;
+  text: string;
+  sha256?: string;
+  hash_matches_evidence: boolean;
+}
+
+export const StatuteExcerptZod = z.object({
+  key: z.string(),
+  citation: z.string(),
+  source: z.string(),
+  title: z.string().optional(),
+  version: z.string().optional(),
+  effective_date: z.string().optional(),
+  jurisdiction: z.string().optional(),
+  text: z.string(),
+  sha256: z.string().optional(),
+  hash_matches_evidence: z.boolean(),
+});
+
+// Define AuditResult interface and schema.
+// The verdict fields are all the orchestrator returns; a workpaper entry carries the full record.
 export interface AuditResult {
   is_deductible: boolean;
   failed_rules: string[];
+  line?: number;
+  date?: string;
+  item?: string;
+  description?: string;
+  amount?: number;
+  deductible_amount?: number;
+  naics?: string;
+  outcome?: 'passed' | 'failed' | 'indeterminate';
+  capitalize?: boolean;
+  indeterminate_rules?: string[];
+  steps?: ValidationStep[];
+  statutes?: string[];      // Keys into Workpaper.statutes
 }
 
 export const AuditResultZod = z.object({
   is_deductible: z.boolean(),
   failed_rules: z.array(z.string()),
+  line: z.number().optional(),
+  date: z.string().optional(),
+  item: z.string().optional(),
+  description: z.string().optional(),
+  amount: z.number().optional(),
+  deductible_amount: z.number().optional(),
+  naics: z.string().optional(),
+  outcome: z.enum(['passed', 'failed', 'indeterminate']).optional(),
+  capitalize: z.boolean().optional(),
+  indeterminate_rules: z.array(z.string()).optional(),
+  steps: z.array(ValidationStepZod).optional(),
+  statutes: z.array(z.string()).optional(),
 });
 
+// Define the Workpaper schema: the JSON export of a Section 162 audit (services/workpaper.ts)
+export const WorkpaperZod = z.object({
+  format_version: z.literal(1),
+  workpaper_id: z.string(),
+  title: z.string(),
+  generated_at: z.string(),
+  source: z.object({
+    kind: z.enum(['ledger', 'receipt']),
+    name: z.string(),
+    id: z.string(),
+  }),
+  taxpayer: z.record(z.string(), z.unknown()).optional(),
+  corpus: z.object({
+    hash_algorithm: z.string(),
+    signature_algorithm: z.string(),
+    key_id: z.string(),
+    signature: z.string(),
+  }),
+  totals: z.object({
+    transactions: z.number(),
+    total_spend: z.number(),
+    deductible: z.number(),
+    disallowed: z.number(),
+    capitalized: z.number(),
+    flagged: z.number(),
+    needs_review: z.number(),
+  }),
+  expenses: z.array(AuditResultZod),
+  statutes: z.array(StatuteExcerptZod),
+  skipped: z.array(z.object({ line: z.number(), reason: z.string() })),
+});
+
+export type Workpaper = z.infer<typeof WorkpaperZod>;
+
 // --- This is our NEW "Faith-Less" Data Source ---
 // Instead of a FAKE database, we are defining the "chastity belt"
 // as a client to a REAL, verifiable "Rules as Code" (RaC) version
@@ -47,6 +47,7 @@ export const AuditLog: React.FC = () => {
       { name: 'Verified', value: statusCounts['Verified'] || 0, color: '#ffffff' },
       { name: 'Pending', value: statusCounts['Pending'] || 0, color: '#525252' },
       { name: 'Refining', value: statusCounts['Refining'] || 0, color: '#a3a3a3' },
+      { name: 'Review', value: statusCounts['Review'] || 0, color: '#f59e0b' },
       { name: 'Error', value: statusCounts['Error'] || 0, color: '#ef4444' }
     ].filter(d => d.value > 0);
 
@@ -54,10 +55,13 @@ export const AuditLog: React.FC = () => {
     const belowThreshold = entries.filter(e => e.metadata?.criticScore && e.metadata.criticScore < confidenceThreshold).length;
     const totalAudited = entries.filter(e => e.metadata?.criticScore).length;
 
+    // 4. Indeterminate rule results awaiting a human decision
+    const needsReview = statusCounts['Review'] || 0;
+
     return { 
         telemetryData: telemetry, 
         statusData: statusChart,
-        complianceMetrics: { belowThreshold, totalAudited } 
+        complianceMetrics: { belowThreshold, totalAudited, needsReview } 
     };
   }, [entries, confidenceThreshold]);
 
@@ -143,7 +147,7 @@ export const AuditLog: React.FC = () => {
       </div>
 
       {/* Live Telemetry Section */}
-      <div className="grid md:grid-cols-3 gap-6 mb-8 h-48">
+      <div className="grid md:grid-cols-3 gap-6 mb-8 h-56">
         <div className="md:col-span-2 border border-neutral-800 bg-[#050505] p-4 flex flex-col relative rounded-lg overflow-hidden">
            <div className="flex justify-between items-center mb-2">
               <h3 className="text-[10px] uppercase tracking-widest text-neutral-400 font-bold flex items-center gap-2">
@@ -235,6 +239,20 @@ export const AuditLog: React.FC = () => {
                     </span>
                 </div>
 
+                <div className="flex justify-between items-end">
+                    <span className="text-xs text-neutral-500">Needs Review</span>
+                    <span className={`text-2xl font-bold ${complianceMetrics.needsReview > 0 ? 'text-amber-500' : 'text-neutral-700'}`}>
+                        {complianceMetrics.needsReview}
+                    </span>
+                </div>
+
+                {/* Outcome distribution across the ledger */}
+                <div className="w-full h-1 rounded-full overflow-hidden flex bg-neutral-900" title={statusData.map(d => `${d.name}: ${d.value}`).join(' / ')}>
+                    {statusData.map(d => (
+                        <div key={d.name} className="h-full" style={{ width: `${(d.value / (entries.length || 1)) * 100}%`, backgroundColor: d.color }}></div>
+                    ))}
+                </div>
+
                 <div className="w-full bg-neutral-900 h-1 rounded-full overflow-hidden">
                     <div 
                         className="h-full bg-white transition-all duration-500" 
@@ -301,9 +319,10 @@ export const AuditLog: React.FC = () => {
                         <span className={`text-[9px] uppercase font-bold tracking-widest px-2 py-1 rounded-sm border ${
                              entry.status === 'Verified' && !isRisky ? 'border-green-900/30 text-green-400 bg-green-900/10' : 
                              isRisky ? 'border-red-900/30 text-red-400 bg-red-900/10' :
+                             entry.status === 'Review' ? 'border-amber-900/30 text-amber-400 bg-amber-900/10' :
                              'border-neutral-800 text-neutral-500'
                         }`}>
-                        {isRisky ? 'RISK DETECTED' : entry.status}
+                        {isRisky ? 'RISK DETECTED' : entry.status === 'Review' ? 'HUMAN REVIEW' : entry.status}
                         </span>
                     </td>
                     </tr>
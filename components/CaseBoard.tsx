@@ -1,5 +1,9 @@
 
 import React, { useState } from 'react';
+import { useAudit } from '../contexts/AuditContext';
+import { INSTRUMENT_TYPE_LABELS, InstrumentClassification } from '../services/instrumentClassifier';
+import { INDORSEMENT_LABELS, IndorsementChain } from '../services/indorsementChain';
+import { ValidationOutcome } from '../services/legalEngine';
 
 type Status = 'discovery' | 'analysis' | 'drafting' | 'execution';
 
@@ -25,7 +29,48 @@ const INITIAL_TASKS: Task[] = [
   { id: '5', content: 'Draft Security Agreement', category: 'legal', status: 'drafting' },
 ];
 
+// Instruments the advisor has classified, newest first, one card per distinct instrument
+const classifiedInstruments = (instruments: (InstrumentClassification | undefined)[]): InstrumentClassification[] => {
+  const seen = new Set<string>();
+  return instruments.filter((instrument): instrument is InstrumentClassification => {
+    if (!instrument?.type) return false;
+    const key = `${instrument.type}|${instrument.parties.map(p => `${p.capacity}:${p.name}`).join('|')}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Indorsement chains the advisor has traced, newest first, one timeline per distinct chain
+const tracedChains = (chains: (IndorsementChain | undefined)[]): IndorsementChain[] => {
+  const seen = new Set<string>();
+  return chains.filter((chain): chain is IndorsementChain => {
+    if (!chain) return false;
+    const key = `${chain.payee ?? 'bearer'}|${chain.links.map(l => `${l.kind}:${l.indorser}>${l.indorsee ?? ''}`).join('|')}|${chain.possessor ?? chain.entitled ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const OUTCOME_STYLES: Record<ValidationOutcome, { dot: string; text: string }> = {
+  passed: { dot: 'bg-green-400', text: 'text-green-400' },
+  failed: { dot: 'bg-red-400', text: 'text-red-400' },
+  indeterminate: { dot: 'bg-amber-400', text: 'text-amber-400' },
+};
+
+const ENTITLEMENT_LABELS: Record<NonNullable<IndorsementChain['entitlement']>, string> = {
+  holder: 'Holder (UCC 3-301(i))',
+  nonholder_in_possession: 'Nonholder in possession (UCC 3-301(ii))',
+  lost_instrument: 'Lost instrument (UCC 3-309)',
+};
+
+const payableTo = (payee: string | undefined, bearer: boolean): string => bearer ? 'Bearer' : payee ?? 'Unnamed payee';
+
 export const CaseBoard: React.FC = () => {
+  const { entries } = useAudit();
+  const instruments = classifiedInstruments(entries.map(entry => entry.metadata?.instrument));
+  const chains = tracedChains(entries.map(entry => entry.metadata?.indorsement_chain));
   const [tasks, setTasks] = useState<Task[]>(INITIAL_TASKS);
   const [newTaskContent, setNewTaskContent] = useState('');
   const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
@@ -61,6 +106,40 @@ export const CaseBoard: React.FC = () => {
     setNewTaskContent('');
   };
 
+  // One analysis node per party, stating what it is liable for
+  const mapParties = (instrument: InstrumentClassification) => {
+    const label = INSTRUMENT_TYPE_LABELS[instrument.type!];
+    setTasks(prev => [
+      ...prev,
+      ...instrument.parties.map((party, i) => ({
+        id: `${Date.now()}-${i}`,
+        content: `${label}: ${party.name} as ${party.capacity}. ${party.liability}`,
+        category: party.capacity === 'payee' ? 'evidence' as const : 'legal' as const,
+        status: 'analysis' as const
+      }))
+    ]);
+  };
+
+  // Broken or undecided links become risk nodes; the person entitled to enforce a legal one
+  const mapChain = (chain: IndorsementChain) => {
+    const open = chain.links.filter(link => link.outcome !== 'passed');
+    setTasks(prev => [
+      ...prev,
+      ...open.map((link, i) => ({
+        id: `${Date.now()}-${i}`,
+        content: `Indorsement ${link.index} by ${link.indorser}: ${link.details}`,
+        category: 'risk' as const,
+        status: 'analysis' as const
+      })),
+      {
+        id: `${Date.now()}-enforce`,
+        content: `Person entitled to enforce: ${chain.details}`,
+        category: chain.outcome === 'passed' ? 'legal' as const : 'risk' as const,
+        status: 'analysis' as const
+      }
+    ]);
+  };
+
   const deleteTask = (id: string) => {
     setTasks(tasks.filter(t => t.id !== id));
   };
@@ -101,6 +180,83 @@ export const CaseBoard: React.FC = () => {
         </div>
       </div>
 
+      {/* Parties & liability of instruments classified in the advisor */}
+      {instruments.length > 0 && (
+        <div className="mb-6 flex gap-4 overflow-x-auto">
+          {instruments.map((instrument, index) => (
+            <div key={index} className="min-w-[280px] max-w-sm bg-neutral-900/30 border border-neutral-800 rounded-lg p-4">
+              <div className="flex justify-between items-center mb-3">
+                <span className="text-xs font-bold text-white uppercase tracking-widest">{INSTRUMENT_TYPE_LABELS[instrument.type!]}</span>
+                <span className="text-[9px] text-neutral-500">{instrument.citation}</span>
+              </div>
+              <ul className="space-y-2 mb-3">
+                {instrument.parties.map(party => (
+                  <li key={`${party.capacity}-${party.name}`} className="text-[11px] leading-relaxed">
+                    <span className="text-[9px] uppercase tracking-wider text-neutral-500 mr-2">{party.capacity}</span>
+                    <span className="text-neutral-200">{party.name}</span>
+                    <p className="text-neutral-500">{party.liability}</p>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => mapParties(instrument)}
+                className="text-[9px] uppercase tracking-widest text-neutral-500 hover:text-white"
+              >
+                Map Parties
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Indorsement chains traced in the advisor, payee to the person entitled to enforce */}
+      {chains.length > 0 && (
+        <div className="mb-6 flex gap-4 overflow-x-auto">
+          {chains.map((chain, index) => (
+            <div key={index} className="min-w-[280px] max-w-sm bg-neutral-900/30 border border-neutral-800 rounded-lg p-4">
+              <div className="flex justify-between items-center mb-3">
+                <span className="text-xs font-bold text-white uppercase tracking-widest">Indorsement Chain</span>
+                <span className={`text-[9px] uppercase tracking-widest ${chain.unbroken === true ? 'text-green-400' : chain.unbroken === false ? 'text-red-400' : 'text-amber-400'}`}>
+                  {chain.unbroken === true ? 'Unbroken' : chain.unbroken === false ? 'Broken' : 'Undecided'}
+                </span>
+              </div>
+              <ol className="border-l border-neutral-800 ml-1 space-y-3 mb-3">
+                <li className="relative pl-4 text-[11px]">
+                  <span className="absolute -left-[4px] top-1.5 w-2 h-2 rounded-full bg-neutral-500" />
+                  <span className="text-[9px] uppercase tracking-wider text-neutral-500 mr-2">Issued to</span>
+                  <span className="text-neutral-200">{payableTo(chain.payee, chain.bearer)}</span>
+                </li>
+                {chain.links.map(link => (
+                  <li key={link.index} className="relative pl-4 text-[11px] leading-relaxed" title={link.details}>
+                    <span className={`absolute -left-[4px] top-1.5 w-2 h-2 rounded-full ${OUTCOME_STYLES[link.outcome].dot}`} />
+                    <span className={`text-[9px] uppercase tracking-wider mr-2 ${OUTCOME_STYLES[link.outcome].text}`}>{INDORSEMENT_LABELS[link.kind]}</span>
+                    {link.date && <span className="text-[9px] text-neutral-600 mr-2">{link.date}</span>}
+                    <p className="text-neutral-200">
+                      {link.indorser}{link.kind !== 'anomalous' && <span className="text-neutral-500"> → {payableTo(link.payable_to, link.bearer)}</span>}
+                    </p>
+                    {link.restriction && <p className="text-neutral-500">"{link.restriction}"</p>}
+                  </li>
+                ))}
+                <li className="relative pl-4 text-[11px] leading-relaxed" title={chain.details}>
+                  <span className={`absolute -left-[4px] top-1.5 w-2 h-2 rounded-full ${OUTCOME_STYLES[chain.outcome].dot}`} />
+                  <span className={`text-[9px] uppercase tracking-wider mr-2 ${OUTCOME_STYLES[chain.outcome].text}`}>Entitled to enforce</span>
+                  <p className="text-neutral-200">{chain.entitled ?? 'Not established'}</p>
+                  <p className="text-neutral-500">
+                    {chain.entitlement ? ENTITLEMENT_LABELS[chain.entitlement] : chain.possessor ? `In possession: ${chain.possessor}` : 'Possession not stated'}
+                  </p>
+                </li>
+              </ol>
+              <button
+                onClick={() => mapChain(chain)}
+                className="text-[9px] uppercase tracking-widest text-neutral-500 hover:text-white"
+              >
+                Map Chain
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Board */}
       <div className="flex-1 overflow-x-auto overflow-y-hidden">
         <div className="flex gap-6 h-full min-w-[1000px]">
@@ -0,0 +1,28 @@
+import React, { useEffect, useState } from 'react';
+import { CorpusIntegrityError, corpusIntegrityStatus } from '../services/corpusIntegrity';
+
+// Shown across every view when the Statute Corpus fails its hash or signature check. Lookups
+// already refuse to return text in that state; this tells the user why.
+export const CorpusIntegrityBanner: React.FC = () => {
+  const [failure, setFailure] = useState<CorpusIntegrityError | undefined>();
+
+  useEffect(() => {
+    let active = true;
+    corpusIntegrityStatus().then(error => { if (active) setFailure(error); });
+    return () => { active = false; };
+  }, []);
+
+  if (!failure) return null;
+
+  return (
+    <div role="alert" className="relative z-20 border-b border-red-500/40 bg-red-500/10 px-6 py-4 text-red-300">
+      <div className="text-[10px] uppercase tracking-widest font-bold text-red-400">Statute Corpus Integrity Failure</div>
+      <p className="mt-1 text-xs text-red-200">
+        The law library does not match its signed manifest. Statute lookups are disabled until the corpus is restored or re-signed with a listed publisher key.
+      </p>
+      <ul className="mt-2 space-y-0.5 text-[11px] text-red-300/80 list-disc list-inside">
+        {failure.issues.map(issue => <li key={issue}>{issue}</li>)}
+      </ul>
+    </div>
+  );
+};
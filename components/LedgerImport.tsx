@@ -0,0 +1,262 @@
+import React, { useRef, useState } from 'react';
+import { useAudit } from '../contexts/AuditContext';
+import { auditLedgerFile, LedgerAuditReport } from '../services/ledgerAudit';
+import { ColumnMapping } from '../services/ledgerImport';
+import { ValidationOutcome } from '../services/legalEngine';
+import { describeProfile, getActiveProfile } from '../services/taxpayerProfile';
+import { WorkpaperExport } from './WorkpaperExport';
+
+const OUTCOME_STYLES: Record<ValidationOutcome, { label: string; className: string }> = {
+  passed: { label: 'DEDUCTIBLE', className: 'border-green-900/30 text-green-400 bg-green-900/10' },
+  failed: { label: 'FLAGGED', className: 'border-red-900/30 text-red-400 bg-red-900/10' },
+  indeterminate: { label: 'HUMAN REVIEW', className: 'border-amber-900/30 text-amber-400 bg-amber-900/10' },
+};
+
+// A line that fails only the current-expense test is recovered through depreciation, not denied
+const CAPITALIZE_STYLE = { label: 'CAPITALIZE', className: 'border-sky-900/30 text-sky-400 bg-sky-900/10' };
+
+const MAPPING_FIELDS: Array<keyof ColumnMapping> = ['date', 'amount', 'category', 'naics', 'description', 'credit', 'purpose'];
+
+const money = (amount: number) => `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const LedgerImport: React.FC = () => {
+  const { addEntry } = useAudit();
+  // The active profile binds the batch's NAICS and revenue, as it does for the advisor's tools
+  const [profile] = useState(() => getActiveProfile());
+  const [naics, setNaics] = useState('');
+  const [revenue, setRevenue] = useState('');
+  const [priorRevenue, setPriorRevenue] = useState('');
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>({});
+  const [signedAmounts, setSignedAmounts] = useState(false);
+  const [showMapping, setShowMapping] = useState(false);
+  const [report, setReport] = useState<LedgerAuditReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file || loading) return;
+
+    setLoading(true);
+    setError(null);
+    setReport(null);
+    try {
+      const text = await file.text();
+      // Blank mapping fields mean "detect from the header"
+      const columns: Partial<ColumnMapping> = {};
+      MAPPING_FIELDS.forEach(field => { if (mapping[field]?.trim()) columns[field] = mapping[field]!.trim(); });
+      // Prior years, most recent first: "180000, 150000"
+      const prior_year_revenue = priorRevenue.split(',').map(v => v.trim()).filter(Boolean).map(Number);
+      const taxpayer = profile ? { profile } : { business_revenue: Number(revenue), prior_year_revenue, naics: naics.trim() || undefined };
+      setReport(await auditLedgerFile(file.name, text, { ...taxpayer, mapping: columns, signed_amounts: signedAmounts }, addEntry));
+    } catch (err: any) {
+      setError(err.message);
+      addEntry('Ledger Import Error', `${file.name}: ${err.message}`, 'System', 'Error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = report?.totals;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 md:p-8 max-w-7xl mx-auto flex flex-col font-mono bg-black">
+
+      {/* Header & Batch Settings */}
+      <div className="mb-8 flex flex-col xl:flex-row xl:items-end justify-between gap-6 border-b border-neutral-800 pb-6">
+        <div>
+            <h2 className="text-3xl font-bold text-white mb-2 uppercase tracking-tight">Bulk Ledger Audit</h2>
+            <p className="text-neutral-500 text-xs uppercase tracking-wider max-w-xl">
+               Import a CSV, OFX/QFX or QuickBooks IIF export. Every line runs the deterministic IRC 162(a) and 263(a) checks; no model is consulted.
+            </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 p-4 border border-neutral-800 bg-[#0a0a0a] rounded-lg">
+            {profile ? (
+                <div className="flex flex-col gap-1 max-w-xs" title={describeProfile(profile)}>
+                    <span className="text-[9px] uppercase tracking-widest font-bold text-neutral-400">Taxpayer Profile</span>
+                    <span className="text-xs text-[#14b8a6]">{profile.name}, NAICS {profile.naics}</span>
+                    <span className="text-[9px] text-neutral-600">Revenue for each line's fiscal year comes from the profile</span>
+                </div>
+            ) : (
+                <>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-[9px] uppercase tracking-widest font-bold text-neutral-400">Default NAICS</span>
+                        <input
+                            value={naics}
+                            onChange={(e) => setNaics(e.target.value)}
+                            placeholder="238350"
+                            className="w-28 bg-black border border-neutral-800 rounded px-2 py-1 text-xs text-white outline-none focus:border-neutral-500"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-[9px] uppercase tracking-widest font-bold text-neutral-400">Gross Revenue ($)</span>
+                        <input
+                            type="number"
+                            min="0"
+                            value={revenue}
+                            onChange={(e) => setRevenue(e.target.value)}
+                            placeholder="250000"
+                            className="w-32 bg-black border border-neutral-800 rounded px-2 py-1 text-xs text-white outline-none focus:border-neutral-500"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-[9px] uppercase tracking-widest font-bold text-neutral-400">Prior Years ($)</span>
+                        <input
+                            value={priorRevenue}
+                            onChange={(e) => setPriorRevenue(e.target.value)}
+                            placeholder="180000, 150000"
+                            title="Gross revenue for prior years, most recent first; averaged under the industry necessity policy"
+                            className="w-36 bg-black border border-neutral-800 rounded px-2 py-1 text-xs text-white outline-none focus:border-neutral-500"
+                        />
+                    </label>
+                </>
+            )}
+            <div className="flex items-end gap-2">
+                <button
+                    onClick={() => setShowMapping(!showMapping)}
+                    className="px-3 py-1.5 border border-neutral-800 rounded text-[9px] uppercase tracking-widest text-neutral-500 hover:text-white transition-colors"
+                >
+                    Column Mapping
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={loading || (!profile && revenue.trim() === '')}
+                    className="px-3 py-1.5 bg-white text-black rounded text-[9px] uppercase tracking-widest font-bold disabled:opacity-30 hover:bg-neutral-200 transition-colors"
+                >
+                    {loading ? 'Auditing...' : 'Import & Audit'}
+                </button>
+                <input ref={fileInputRef} type="file" accept=".csv,.ofx,.qfx,.iif,.txt" className="hidden" onChange={handleFile} />
+            </div>
+        </div>
+      </div>
+
+      {/* CSV header overrides, for exports whose columns are not recognized */}
+      {showMapping && (
+        <div className="mb-6 p-4 border border-neutral-800 bg-[#050505] rounded-lg grid grid-cols-2 md:grid-cols-5 gap-3">
+            {MAPPING_FIELDS.map(field => (
+                <label key={field} className="flex flex-col gap-1">
+                    <span className="text-[9px] uppercase tracking-widest text-neutral-500">{field} column</span>
+                    <input
+                        value={mapping[field] || ''}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value }))}
+                        placeholder="auto"
+                        className="bg-black border border-neutral-800 rounded px-2 py-1 text-xs text-white outline-none focus:border-neutral-500"
+                    />
+                </label>
+            ))}
+            <label className="flex items-center gap-2 col-span-2 md:col-span-5" title="Bank exports sign debits negative; without this, negative rows are refunds">
+                <input type="checkbox" checked={signedAmounts} onChange={(e) => setSignedAmounts(e.target.checked)} />
+                <span className="text-[9px] uppercase tracking-widest text-neutral-500">Amounts are signed (debits negative, deposits positive)</span>
+            </label>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 border border-red-900/50 bg-red-900/10 rounded-lg text-xs text-red-400">{error}</div>
+      )}
+
+      {/* Totals */}
+      {report && totals && (
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
+            {[
+                { label: 'Total Spend', value: totals.total_spend, className: 'text-white' },
+                { label: 'Deductible', value: totals.deductible, className: 'text-green-400' },
+                { label: 'Over Limits', value: totals.disallowed, className: totals.disallowed > 0 ? 'text-orange-400' : 'text-neutral-700' },
+                { label: 'Capitalized', value: totals.capitalized, className: totals.capitalized > 0 ? 'text-sky-400' : 'text-neutral-700' },
+                { label: 'Flagged', value: totals.flagged, className: totals.flagged > 0 ? 'text-red-500' : 'text-neutral-700' },
+                { label: 'Needs Review', value: totals.needs_review, className: totals.needs_review > 0 ? 'text-amber-500' : 'text-neutral-700' },
+            ].map(card => (
+                <div key={card.label} className="border border-neutral-800 bg-[#050505] p-4 rounded-lg">
+                    <div className="text-[9px] uppercase tracking-widest text-neutral-500 mb-2">{card.label}</div>
+                    <div className={`text-xl font-bold ${card.className}`}>{money(card.value)}</div>
+                </div>
+            ))}
+        </div>
+      )}
+
+      {/* Per-line Report */}
+      {report && (
+        <div className="flex-1 bg-[#050505] border border-neutral-800 flex flex-col rounded-lg overflow-hidden">
+          <div className="px-4 py-3 border-b border-neutral-800 text-[9px] uppercase tracking-widest text-neutral-500 flex justify-between items-center">
+              <span>{report.file_name} // {report.format.toUpperCase()} // Batch {report.batch_id}</span>
+              <div className="flex items-center gap-4">
+                  <span>{totals?.transactions} transactions, {report.skipped.length} skipped</span>
+                  <WorkpaperExport input={{
+                      title: `Ledger Audit: ${report.file_name}`,
+                      source: { kind: 'ledger', name: report.file_name, id: report.batch_id },
+                      lines: report.lines,
+                      totals: report.totals,
+                      skipped: report.skipped,
+                      taxpayer: profile,
+                  }} />
+              </div>
+          </div>
+          <div className="overflow-x-auto flex-1">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-[#0a0a0a] border-b border-neutral-800 text-neutral-400 text-[10px] uppercase tracking-widest">
+                  <th className="p-4 font-bold">Line</th>
+                  <th className="p-4 font-bold">Date</th>
+                  <th className="p-4 font-bold">Item</th>
+                  <th className="p-4 font-bold text-right">Amount</th>
+                  <th className="p-4 font-bold">Validation Steps</th>
+                  <th className="p-4 font-bold text-right">Outcome</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-900">
+                {report.lines.map(result => {
+                    const badge = result.capitalize ? CAPITALIZE_STYLE : OUTCOME_STYLES[result.outcome];
+                    const schedule = result.steps.find(step => step.depreciation)?.depreciation;
+                    return (
+                    <tr key={result.transaction.line} className="hover:bg-neutral-900/30 transition-colors">
+                        <td className="p-4 text-neutral-600 text-xs">{result.transaction.line}</td>
+                        <td className="p-4 text-neutral-400 text-xs whitespace-nowrap">{result.transaction.date}</td>
+                        <td className="p-4 text-neutral-300 text-xs font-bold">
+                            {result.transaction.category}
+                            {result.transaction.description && (
+                                <div className="text-[10px] font-normal text-neutral-600 mt-1 max-w-xs truncate">{result.transaction.description}</div>
+                            )}
+                        </td>
+                        <td className="p-4 text-neutral-300 text-xs text-right whitespace-nowrap">
+                            {money(result.transaction.amount)}
+                            {result.outcome === 'passed' && result.deductible_amount !== result.transaction.amount && (
+                                <div className="text-[10px] text-orange-400 mt-1">{money(result.deductible_amount)} allowed</div>
+                            )}
+                        </td>
+                        <td className="p-4">
+                            {result.steps.map(step => (
+                                <div key={step.rule_id} className="text-[10px] text-neutral-500 max-w-md truncate" title={`${step.details}\n${step.evidence_source}`}>
+                                    {step.details}
+                                </div>
+                            ))}
+                            {schedule && (
+                                <div className="text-[10px] text-sky-600 mt-1">
+                                    {schedule.recovery_years}-yr // Year 1: {schedule.plans.map(plan => `${plan.method.replace('_', ' ')} ${money(plan.first_year_deduction)}`).join(' | ')}
+                                </div>
+                            )}
+                        </td>
+                        <td className="p-4 text-right">
+                            <span className={`text-[9px] uppercase font-bold tracking-widest px-2 py-1 rounded-sm border whitespace-nowrap ${badge.className}`}>
+                                {badge.label}
+                            </span>
+                        </td>
+                    </tr>
+                    );
+                })}
+                {report.skipped.map(issue => (
+                    <tr key={`skipped-${issue.line}`} className="text-neutral-700">
+                        <td className="p-4 text-xs">{issue.line}</td>
+                        <td className="p-4 text-[10px] uppercase tracking-widest" colSpan={5}>Skipped: {issue.reason}</td>
+                    </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,20 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Message, Role } from '../types';
-import { sendLegalMessage, runArbiterAudit } from '../services/geminiService';
+import { sendLegalMessage, runArbiterAudit, extractReceipt } from '../services/geminiService';
+import { ParsedReceipt } from '../services/receipts';
 import { decodeAudioData, playAudioBuffer } from '../services/audio';
+import { retrieveStatutes } from '../services/retrieval';
+import { getCrossReferences } from '../services/statuteGraph';
+import { markDefinedTerms } from '../services/statuteDefinitions';
+import { parseCitation, formatCitation } from '../services/citations';
+import { findSection } from '../services/statuteCorpus';
+import { corpusIntegrityStatus } from '../services/corpusIntegrity';
 import { useAudit } from '../contexts/AuditContext';
 import { ArbiterBadge } from './ArbiterBadge';
+import { ReceiptReview } from './ReceiptReview';
+import { TaxpayerProfilePanel } from './TaxpayerProfilePanel';
+import { TaxpayerProfile, getActiveProfile } from '../services/taxpayerProfile';
 
 interface StagedFile {
   data: string;
@@ -12,6 +22,12 @@ interface StagedFile {
   path?: string;
 }
 
+interface ReceiptDraft {
+  id: string;
+  fileName: string;
+  extracted: ParsedReceipt;
+}
+
 export const LegalAdvisor: React.FC = () => {
   const { addEntry, clearLog } = useAudit();
   // Start empty to remove visual clutter on load
@@ -25,12 +41,24 @@ export const LegalAdvisor: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<string | null>(null);
   const [shadowCounsel, setShadowCounsel] = useState(false);
   const [draftMenuOpen, setDraftMenuOpen] = useState(false);
+  const [receiptDrafts, setReceiptDrafts] = useState<ReceiptDraft[]>([]);
+  // Persists across sessions and survives System Reset: it describes the business, not the chat
+  const [profile, setProfile] = useState<TaxpayerProfile | undefined>(() => getActiveProfile());
+  const [profileOpen, setProfileOpen] = useState(false);
+  // Citation cards show statute text only once the corpus has passed its hash and signature checks
+  const [corpusVerified, setCorpusVerified] = useState<boolean | undefined>();
   
   const bottomRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
 
+  useEffect(() => {
+    let active = true;
+    corpusIntegrityStatus().then(error => { if (active) setCorpusVerified(!error); });
+    return () => { active = false; };
+  }, []);
+
   // Auto-scroll
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -42,6 +70,10 @@ export const LegalAdvisor: React.FC = () => {
       handleSend("Analyze the uploaded document for clause risks, specifically looking for violations of USC/UCC, hidden waivers, or Confession of Judgment terms.");
       setPendingAction(null);
     }
+    if (pendingAction === 'EXTRACT_RECEIPT' && selectedFiles.length > 0 && !isLoading) {
+      handleExtractReceipts();
+      setPendingAction(null);
+    }
   }, [selectedFiles, pendingAction, isLoading]);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -76,8 +108,29 @@ export const LegalAdvisor: React.FC = () => {
     setSelectedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Staged images/PDFs -> typed receipts, held for confirmation before any check runs
+  const handleExtractReceipts = async () => {
+    const files = selectedFiles.filter(f => /^data:(image\/|application\/pdf)/.test(f.data));
+    if (files.length === 0 || isLoading) return;
+    setSelectedFiles([]);
+    setIsLoading(true);
+    setLoadingStage('EXTRACTING RECEIPT FIELDS...');
+    for (const file of files) {
+      try {
+        const extracted = await extractReceipt(file.data);
+        setReceiptDrafts(prev => [...prev, { id: `${Date.now()}-${file.name}`, fileName: file.name, extracted }]);
+        addEntry('Receipt Extraction', `${file.name}: ${extracted.receipt.vendor}, ${extracted.receipt.line_items.length} line items${extracted.warnings.length > 0 ? ` (${extracted.warnings.length} warning)` : ''}`, 'Advisor', 'Pending');
+      } catch (err: any) {
+        addEntry('Receipt Extraction Error', `${file.name}: ${err.message}`, 'System', 'Error');
+      }
+    }
+    setIsLoading(false);
+    setLoadingStage('');
+  };
+
   const handleReset = () => {
     setHistory([]);
+    setReceiptDrafts([]);
     setSelectedFiles([]);
     setInputText('');
     setLoadingStage('');
@@ -121,7 +174,8 @@ export const LegalAdvisor: React.FC = () => {
         userMsg.text, 
         userMsg.images,
         addEntry,
-        shadowCounsel
+        shadowCounsel,
+        profile
       );
       
       setLoadingStage('ARBITER CRITIC: AUDITING RESPONSE...');
@@ -202,15 +256,93 @@ export const LegalAdvisor: React.FC = () => {
       if (part.startsWith('[CITATION')) {
         const content = part.replace('[CITATION:', '').replace(']', '');
         const [title, source] = content.split('|');
+        const cited = parseCitation(source || '');
+        if (!corpusVerified) {
+          return (
+            <div key={index} className="my-3 inline-block w-full">
+              <div className={`bg-neutral-900 border-l-2 ${corpusVerified === false ? 'border-red-500' : 'border-neutral-600'} p-3 rounded-r-md`}>
+                  <span className={`text-[10px] font-bold uppercase tracking-widest ${corpusVerified === false ? 'text-red-400' : 'text-neutral-500'}`}>
+                      {corpusVerified === false ? 'Corpus Integrity Failure' : 'Verifying Corpus...'}
+                  </span>
+                  <div className="text-xs font-bold text-neutral-200 mt-1">{title}</div>
+                  <div className="text-[10px] text-neutral-400 italic mt-1">{cited ? formatCitation(cited) : source}</div>
+                  {corpusVerified === false && (
+                      <div className="text-[10px] text-neutral-500 mt-2">Statute text is withheld: the law library does not match its signed manifest.</div>
+                  )}
+              </div>
+            </div>
+          );
+        }
+        // Normalize the cited source so every spelling resolves to the same corpus section,
+        // then re-rank against the local index so the card shows the best hit and its runners-up.
+        // Only a citation that resolves to exactly that section is verified; a citation the
+        // library lacks shows no other section's text in its place.
+        const exact = cited ? findSection(source) : undefined;
+        const retrieval = retrieveStatutes(source || title, 3);
+        const [best, ...runnersUp] = cited && !exact ? [] : retrieval.hits;
+        const verified = !!exact && best?.section === exact;
+        const crossRefs = best ? getCrossReferences(best.section.citation) : { references: [], referenced_by: [] };
         return (
           <div key={index} className="my-3 inline-block w-full">
-            <div className="bg-neutral-900 border-l-2 border-[#14b8a6] p-3 rounded-r-md shadow-glow">
+            <div className={`bg-neutral-900 border-l-2 ${verified ? 'border-[#14b8a6]' : 'border-amber-400'} p-3 rounded-r-md shadow-glow`}>
                 <div className="flex items-center justify-between mb-1">
-                    <span className="text-[10px] font-bold text-[#14b8a6] uppercase tracking-widest">Verified Source</span>
-                    <span className="text-[9px] text-neutral-500 font-mono">RETRIEVED FROM VECTOR DB</span>
+                    <span className={`text-[10px] font-bold uppercase tracking-widest ${verified ? 'text-[#14b8a6]' : 'text-amber-400'}`}>{verified ? 'Verified Source' : best ? 'Nearest Match (Unverified)' : 'Unverified Citation'}</span>
+                    <span className="text-[9px] text-neutral-500 font-mono">
+                        {best ? `${retrieval.backend.toUpperCase()} // SCORE ${best.score.toFixed(2)}` : 'NOT IN LAW LIBRARY'}
+                    </span>
                 </div>
                 <div className="text-xs font-bold text-neutral-200">{title}</div>
-                <div className="text-[10px] text-neutral-400 italic mt-1">{source}</div>
+                <div className="text-[10px] text-neutral-400 italic mt-1">{cited ? formatCitation(cited) : source}</div>
+                {best && (
+                    <div className="text-[10px] text-neutral-500 mt-2 leading-relaxed">
+                        {/* Defined terms carry their statutory definition on hover */}
+                        {markDefinedTerms(best.snippet, best.section).map((segment, i) => segment.definition ? (
+                            <span
+                                key={i}
+                                className="text-neutral-300 underline decoration-dotted decoration-[#14b8a6] underline-offset-2 cursor-help"
+                                title={`${segment.definition.citation} (${segment.definition.scope_label}): ${segment.definition.definition}`}
+                            >
+                                {segment.text}
+                            </span>
+                        ) : (
+                            <span key={i}>{segment.text}</span>
+                        ))}
+                    </div>
+                )}
+                {runnersUp.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-neutral-800 flex flex-wrap gap-2">
+                        <span className="text-[9px] text-neutral-600 uppercase tracking-widest">Also Relevant:</span>
+                        {runnersUp.map(hit => (
+                            <span key={hit.section.citation} className="text-[9px] text-neutral-400 font-mono" title={hit.snippet}>
+                                {hit.section.source} ({hit.score.toFixed(2)})
+                            </span>
+                        ))}
+                    </div>
+                )}
+                {(crossRefs.references.length > 0 || crossRefs.referenced_by.length > 0) && (
+                    <div className="mt-2 pt-2 border-t border-neutral-800 flex flex-col gap-1">
+                        {crossRefs.references.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                <span className="text-[9px] text-neutral-600 uppercase tracking-widest">References:</span>
+                                {crossRefs.references.map(ref => (
+                                    <span key={ref.citation} className={`text-[9px] font-mono ${ref.in_corpus ? 'text-[#14b8a6]' : 'text-neutral-500'}`} title={ref.title || 'Not in Law Library'}>
+                                        → {ref.citation}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        {crossRefs.referenced_by.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                <span className="text-[9px] text-neutral-600 uppercase tracking-widest">Referenced By:</span>
+                                {crossRefs.referenced_by.map(ref => (
+                                    <span key={ref.citation} className="text-[9px] text-[#14b8a6] font-mono" title={ref.title}>
+                                        ← {ref.citation}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
           </div>
         );
@@ -370,7 +502,27 @@ export const LegalAdvisor: React.FC = () => {
                     )}
                 </div>
 
-                {/* 3. Signature Button */}
+                {/* 3. Receipt Audit Button */}
+                 <button 
+                   onClick={() => {
+                     setPendingAction('EXTRACT_RECEIPT');
+                     fileInputRef.current?.click();
+                   }}
+                   className="px-3 py-1.5 bg-[#1b1b1b] border-[1.5px] border-[#363636] rounded-[10px] hover:bg-neutral-800 transition-colors whitespace-nowrap shadow-lg text-neutral-400 hover:text-white"
+                >
+                  Audit Receipt
+                </button>
+
+                {/* 4. Taxpayer Profile Button */}
+                 <button 
+                   onClick={() => setProfileOpen(!profileOpen)}
+                   className={`px-3 py-1.5 bg-[#1b1b1b] border-[1.5px] border-[#363636] rounded-[10px] hover:bg-neutral-800 transition-colors whitespace-nowrap shadow-lg hover:text-white ${profile ? 'text-[#14b8a6] border-[#14b8a6]/30' : 'text-neutral-400'}`}
+                   title={profile ? `NAICS ${profile.naics}, ${profile.state}` : 'No taxpayer profile: NAICS and revenue come from the conversation'}
+                >
+                  {profile ? `Profile: ${profile.name}` : 'Taxpayer Profile'}
+                </button>
+
+                {/* 5. Signature Button */}
                  <button 
                    onClick={() => setInputText("Where do I sign on this type of document?")}
                    className="px-3 py-1.5 bg-[#1b1b1b] border-[1.5px] border-[#363636] rounded-[10px] hover:bg-neutral-800 transition-colors whitespace-nowrap shadow-lg text-neutral-400 hover:text-white"
@@ -402,7 +554,20 @@ export const LegalAdvisor: React.FC = () => {
 
       {/* RESULT STREAM (Messages) */}
       <div className="flex-1 overflow-y-auto px-4 md:px-8 pb-8 space-y-12 scrollbar-hide w-full max-w-5xl mx-auto">
-        {history.length === 0 && (
+        {profileOpen && (
+            <TaxpayerProfilePanel active={profile} onActiveChange={setProfile} onClose={() => setProfileOpen(false)} />
+        )}
+        {receiptDrafts.map(draft => (
+            <ReceiptReview
+                key={draft.id}
+                fileName={draft.fileName}
+                extracted={draft.extracted}
+                profile={profile}
+                onDismiss={() => setReceiptDrafts(prev => prev.filter(d => d.id !== draft.id))}
+            />
+        ))}
+
+        {history.length === 0 && receiptDrafts.length === 0 && (
             <div className="flex h-full items-center justify-center opacity-30">
                 <div className="text-center space-y-2">
                     <div className="w-16 h-16 mx-auto border border-neutral-700 rounded-full flex items-center justify-center">
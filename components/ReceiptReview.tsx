@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { useAudit } from '../contexts/AuditContext';
+import { ParsedReceipt, ReceiptAuditReport, ReceiptLineItem, auditReceipt, parseReceipt } from '../services/receipts';
+import { ValidationOutcome } from '../services/legalEngine';
+import { TaxpayerProfile, describeProfile } from '../services/taxpayerProfile';
+import { WorkpaperExport } from './WorkpaperExport';
+
+const OUTCOME_STYLES: Record<ValidationOutcome, { label: string; className: string }> = {
+  passed: { label: 'DEDUCTIBLE', className: 'border-green-900/30 text-green-400 bg-green-900/10' },
+  failed: { label: 'FLAGGED', className: 'border-red-900/30 text-red-400 bg-red-900/10' },
+  indeterminate: { label: 'HUMAN REVIEW', className: 'border-amber-900/30 text-amber-400 bg-amber-900/10' },
+};
+const CAPITALIZE_STYLE = { label: 'CAPITALIZE', className: 'border-sky-900/30 text-sky-400 bg-sky-900/10' };
+
+const inputClass = 'bg-black border border-neutral-800 rounded px-2 py-1 text-xs text-white outline-none focus:border-neutral-500';
+
+interface ReceiptReviewProps {
+  fileName: string;
+  extracted: ParsedReceipt;
+  profile?: TaxpayerProfile;                 // When active, supplies the NAICS and revenue history; nothing is typed in
+  onDismiss: () => void;
+}
+
+// Fields are edited as text and re-validated on confirm, so a misread digit can be corrected first
+interface EditableItem { description: string; quantity: string; amount: string }
+
+const toEditable = (item: ReceiptLineItem): EditableItem =>
+  ({ description: item.description, quantity: item.quantity === undefined ? '' : String(item.quantity), amount: String(item.amount) });
+
+// A blank quantity is one unit; capitalization is tested on the amount per unit
+const fromEditable = (item: EditableItem) => ({
+  description: item.description,
+  ...(item.quantity.trim() ? { quantity: Number(item.quantity) } : {}),
+  amount: Number(item.amount),
+});
+
+/**
+ * Shows what the model read from a receipt for confirmation. Nothing is checked until the user
+ * confirms; the confirmed fields, not the raw extraction, are what the rules run on.
+ */
+export const ReceiptReview: React.FC<ReceiptReviewProps> = ({ fileName, extracted, profile, onDismiss }) => {
+  const { addEntry } = useAudit();
+  const { receipt } = extracted;
+  const [vendor, setVendor] = useState(receipt.vendor);
+  const [date, setDate] = useState(receipt.date);
+  const [items, setItems] = useState<EditableItem[]>(receipt.line_items.map(toEditable));
+  const [tax, setTax] = useState(String(receipt.tax));
+  const [total, setTotal] = useState(String(receipt.total));
+  const [purpose, setPurpose] = useState(receipt.business_purpose || '');
+  const [naics, setNaics] = useState('');
+  const [revenue, setRevenue] = useState('');
+  const [warnings, setWarnings] = useState<string[]>(extracted.warnings);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ReceiptAuditReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const updateItem = (index: number, field: keyof EditableItem, value: string) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  const handleConfirm = async () => {
+    setError(null);
+    try {
+      const confirmed = parseReceipt({
+        vendor,
+        date,
+        line_items: items.filter(item => item.description.trim()).map(fromEditable),
+        tax: Number(tax),
+        total: Number(total),
+        ...(purpose.trim() ? { business_purpose: purpose } : {}),
+      });
+      setWarnings(confirmed.warnings);
+      setItems(confirmed.receipt.line_items.map(toEditable));
+      setLoading(true);
+      addEntry('Receipt Confirmed', `${fileName}: ${confirmed.receipt.vendor}, ${confirmed.receipt.line_items.length} line items, $${confirmed.receipt.total.toFixed(2)}`, 'Advisor', 'Pending');
+      const options = profile ? { profile } : { business_revenue: Number(revenue), naics: naics.trim() || undefined };
+      setReport(await auditReceipt(confirmed.receipt, options, addEntry));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="border border-neutral-800 bg-[#050505] rounded-lg p-4 font-mono">
+      <div className="flex justify-between items-center mb-4 text-[9px] uppercase tracking-widest text-neutral-500">
+          <span>Receipt Extraction // {fileName}{report ? ` // Receipt ${report.receipt_id}` : ' // Confirm before checks run'}</span>
+          <button onClick={onDismiss} className="hover:text-red-400">Dismiss</button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          {[
+              { label: 'Vendor', value: vendor, set: setVendor },
+              { label: 'Date', value: date, set: setDate },
+              { label: 'Tax ($)', value: tax, set: setTax },
+              { label: 'Total ($)', value: total, set: setTotal },
+          ].map(field => (
+              <label key={field.label} className="flex flex-col gap-1">
+                  <span className="text-[9px] uppercase tracking-widest text-neutral-500">{field.label}</span>
+                  <input value={field.value} onChange={(e) => field.set(e.target.value)} disabled={!!report} className={inputClass} />
+              </label>
+          ))}
+      </div>
+
+      <table className="w-full text-left border-collapse mb-4">
+        <thead>
+          <tr className="border-b border-neutral-800 text-neutral-500 text-[9px] uppercase tracking-widest">
+            <th className="py-2 font-bold">Line Item</th>
+            <th className="py-2 font-bold text-right">Qty</th>
+            <th className="py-2 font-bold text-right">Amount</th>
+            {report && <th className="py-2 font-bold pl-4">Validation Steps</th>}
+            {report && <th className="py-2 font-bold text-right">Outcome</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-neutral-900">
+          {items.map((item, index) => {
+              const line = report?.lines[index];
+              const badge = line && (line.capitalize ? CAPITALIZE_STYLE : OUTCOME_STYLES[line.outcome]);
+              return (
+                <tr key={index}>
+                    <td className="py-2 pr-2">
+                        <input value={item.description} onChange={(e) => updateItem(index, 'description', e.target.value)} disabled={!!report} className={`${inputClass} w-full`} />
+                    </td>
+                    <td className="py-2 pr-2 text-right">
+                        <input value={item.quantity} onChange={(e) => updateItem(index, 'quantity', e.target.value)} disabled={!!report} placeholder="1" className={`${inputClass} w-12 text-right`} />
+                    </td>
+                    <td className="py-2 text-right">
+                        <input value={item.amount} onChange={(e) => updateItem(index, 'amount', e.target.value)} disabled={!!report} className={`${inputClass} w-24 text-right`} />
+                    </td>
+                    {line && (
+                        <td className="py-2 pl-4">
+                            {line.steps.map(step => (
+                                <div key={step.rule_id} className="text-[10px] text-neutral-500 max-w-md truncate" title={`${step.details}\n${step.evidence_source}`}>{step.details}</div>
+                            ))}
+                        </td>
+                    )}
+                    {badge && (
+                        <td className="py-2 text-right">
+                            <span className={`text-[9px] uppercase font-bold tracking-widest px-2 py-1 rounded-sm border whitespace-nowrap ${badge.className}`}>{badge.label}</span>
+                        </td>
+                    )}
+                </tr>
+              );
+          })}
+        </tbody>
+      </table>
+
+      {warnings.map(warning => (
+          <div key={warning} className="mb-2 text-[10px] text-amber-500">WARNING: {warning}</div>
+      ))}
+      {error && <div className="mb-2 text-[10px] text-red-400 whitespace-pre-wrap">{error}</div>}
+
+      {report && (
+          <WorkpaperExport input={{
+              title: `Receipt Audit: ${report.receipt.vendor}, ${report.receipt.date}`,
+              source: { kind: 'receipt', name: fileName, id: report.receipt_id },
+              lines: report.lines,
+              totals: report.totals,
+              taxpayer: profile,
+          }} />
+      )}
+
+      {!report && (
+          <div className="flex flex-wrap items-end gap-3">
+              <button onClick={() => setItems(prev => [...prev, { description: '', quantity: '', amount: '' }])} className="px-3 py-1.5 border border-neutral-800 rounded text-[9px] uppercase tracking-widest text-neutral-500 hover:text-white transition-colors">
+                  Add Line
+              </button>
+              <label className="flex flex-col gap-1">
+                  <span className="text-[9px] uppercase tracking-widest text-neutral-500">Business Purpose</span>
+                  <input value={purpose} onChange={(e) => setPurpose(e.target.value)} placeholder="Client lunch re: Q3 bid" className={`${inputClass} w-48`} />
+              </label>
+              {profile ? (
+                  <div className="text-[10px] text-[#14b8a6] max-w-xs" title={describeProfile(profile)}>
+                      Profile: {profile.name}, NAICS {profile.naics}
+                  </div>
+              ) : (
+                  <>
+                      <label className="flex flex-col gap-1">
+                          <span className="text-[9px] uppercase tracking-widest text-neutral-500">NAICS</span>
+                          <input value={naics} onChange={(e) => setNaics(e.target.value)} placeholder="238350" className={`${inputClass} w-24`} />
+                      </label>
+                      <label className="flex flex-col gap-1">
+                          <span className="text-[9px] uppercase tracking-widest text-neutral-500">Gross Revenue ($)</span>
+                          <input type="number" min="0" value={revenue} onChange={(e) => setRevenue(e.target.value)} placeholder="250000" className={`${inputClass} w-28`} />
+                      </label>
+                  </>
+              )}
+              <button
+                  onClick={handleConfirm}
+                  disabled={loading || (!profile && revenue.trim() === '')}
+                  className="px-3 py-1.5 bg-white text-black rounded text-[9px] uppercase tracking-widest font-bold disabled:opacity-30 hover:bg-neutral-200 transition-colors"
+              >
+                  {loading ? 'Checking...' : 'Confirm & Run Checks'}
+              </button>
+          </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useAudit } from '../contexts/AuditContext';
+import {
+  ENTITY_TYPES,
+  ENTITY_TYPE_LABELS,
+  EntityType,
+  TaxpayerProfile,
+  deleteProfile,
+  describeProfile,
+  loadProfileStore,
+  saveProfile,
+  setActiveProfile,
+} from '../services/taxpayerProfile';
+
+const inputClass = 'bg-black border border-neutral-800 rounded px-2 py-1 text-xs text-white outline-none focus:border-neutral-500';
+
+interface TaxpayerProfilePanelProps {
+  active?: TaxpayerProfile;
+  onActiveChange: (profile: TaxpayerProfile | undefined) => void;
+  onClose: () => void;
+}
+
+// Revenue is edited as text rows and validated on save
+interface RevenueRow { year: string; amount: string }
+
+const revenueRows = (profile?: TaxpayerProfile): RevenueRow[] => {
+  const rows = Object.entries(profile?.gross_revenue || {})
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([year, amount]) => ({ year, amount: String(amount) }));
+  return rows.length > 0 ? rows : [{ year: String(new Date().getFullYear()), amount: '' }];
+};
+
+/**
+ * Creates, edits and selects the taxpayer profile the advisor audits against. The active profile
+ * persists across sessions; while it is set, the expense checks use its NAICS code and revenue.
+ */
+export const TaxpayerProfilePanel: React.FC<TaxpayerProfilePanelProps> = ({ active, onActiveChange, onClose }) => {
+  const { addEntry } = useAudit();
+  const [profiles, setProfiles] = useState<TaxpayerProfile[]>(() => loadProfileStore().profiles);
+  const [editingId, setEditingId] = useState<string | undefined>(active?.id);
+  const editing = profiles.find(p => p.id === editingId);
+  const [name, setName] = useState(editing?.name || '');
+  const [entityType, setEntityType] = useState<EntityType>(editing?.entity_type || 'sole_proprietor');
+  const [naics, setNaics] = useState(editing?.naics || '');
+  const [fiscalYearEnd, setFiscalYearEnd] = useState(editing?.fiscal_year_end || '12-31');
+  const [state, setState] = useState(editing?.state || '');
+  const [revenue, setRevenue] = useState<RevenueRow[]>(revenueRows(editing));
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = (profile?: TaxpayerProfile) => {
+    setEditingId(profile?.id);
+    setName(profile?.name || '');
+    setEntityType(profile?.entity_type || 'sole_proprietor');
+    setNaics(profile?.naics || '');
+    setFiscalYearEnd(profile?.fiscal_year_end || '12-31');
+    setState(profile?.state || '');
+    setRevenue(revenueRows(profile));
+    setError(null);
+  };
+
+  const handleSelect = (id: string) => {
+    const profile = setActiveProfile(id || undefined);
+    onActiveChange(profile);
+    startEditing(profile);
+    addEntry('Taxpayer Profile', profile ? `Active: ${describeProfile(profile)}` : 'No active profile; the model supplies NAICS and revenue', 'System', 'Verified');
+  };
+
+  const handleSave = () => {
+    setError(null);
+    try {
+      const profile = saveProfile({
+        id: editingId,
+        name,
+        entity_type: entityType,
+        naics,
+        fiscal_year_end: fiscalYearEnd,
+        state,
+        gross_revenue: Object.fromEntries(revenue.filter(row => row.year.trim() && row.amount.trim()).map(row => [row.year.trim(), Number(row.amount)])),
+      });
+      setProfiles(loadProfileStore().profiles);
+      startEditing(profile);
+      onActiveChange(profile);
+      addEntry('Taxpayer Profile Saved', describeProfile(profile), 'System', 'Verified');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editingId) return;
+    const store = deleteProfile(editingId);
+    setProfiles(store.profiles);
+    if (active?.id === editingId) onActiveChange(undefined);
+    addEntry('Taxpayer Profile Deleted', editing?.name || editingId, 'System', 'Verified');
+    startEditing(undefined);
+  };
+
+  return (
+    <div className="border border-neutral-800 bg-[#050505] rounded-lg p-4 font-mono">
+      <div className="flex justify-between items-center mb-4 text-[9px] uppercase tracking-widest text-neutral-500">
+          <span>Taxpayer Profile // {active ? `Active: ${active.name}` : 'None active'}</span>
+          <button onClick={onClose} className="hover:text-white">Close</button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+          <label className="flex flex-col gap-1">
+              <span className="text-[9px] uppercase tracking-widest text-neutral-500">Active Profile</span>
+              <select value={active?.id || ''} onChange={(e) => handleSelect(e.target.value)} className={`${inputClass} w-56`}>
+                  <option value="">None (model supplies NAICS)</option>
+                  {profiles.map(p => <option key={p.id} value={p.id}>{p.name} / NAICS {p.naics}</option>)}
+              </select>
+          </label>
+          <button onClick={() => startEditing(undefined)} className="px-3 py-1.5 border border-neutral-800 rounded text-[9px] uppercase tracking-widest text-neutral-500 hover:text-white transition-colors">
+              New Profile
+          </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+          <label className="flex flex-col gap-1 col-span-2">
+              <span className="text-[9px] uppercase tracking-widest text-neutral-500">Business Name</span>
+              <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Acme Carpentry LLC" className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+              <span className="text-[9px] uppercase tracking-widest text-neutral-500">Entity Type</span>
+              <select value={entityType} onChange={(e) => setEntityType(e.target.value as EntityType)} className={inputClass}>
+                  {ENTITY_TYPES.map(type => <option key={type} value={type}>{ENTITY_TYPE_LABELS[type]}</option>)}
+              </select>
+          </label>
+          <label className="flex flex-col gap-1">
+              <span className="text-[9px] uppercase tracking-widest text-neutral-500">NAICS</span>
+              <input value={naics} onChange={(e) => setNaics(e.target.value)} placeholder="238350" className={inputClass} />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+              <label className="flex flex-col gap-1">
+                  <span className="text-[9px] uppercase tracking-widest text-neutral-500">FY End</span>
+                  <input value={fiscalYearEnd} onChange={(e) => setFiscalYearEnd(e.target.value)} placeholder="12-31" title="Month and day the fiscal year ends (MM-DD)" className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1">
+                  <span className="text-[9px] uppercase tracking-widest text-neutral-500">State</span>
+                  <input value={state} onChange={(e) => setState(e.target.value)} placeholder="NY" maxLength={2} className={inputClass} />
+              </label>
+          </div>
+      </div>
+
+      <div className="mb-4">
+          <div className="text-[9px] uppercase tracking-widest text-neutral-500 mb-2">Gross Revenue by Fiscal Year (named for the year it ends)</div>
+          <div className="flex flex-wrap gap-3">
+              {revenue.map((row, index) => (
+                  <div key={index} className="flex gap-1">
+                      <input value={row.year} onChange={(e) => setRevenue(prev => prev.map((r, i) => (i === index ? { ...r, year: e.target.value } : r)))} placeholder="2024" className={`${inputClass} w-16`} />
+                      <input type="number" min="0" value={row.amount} onChange={(e) => setRevenue(prev => prev.map((r, i) => (i === index ? { ...r, amount: e.target.value } : r)))} placeholder="250000" className={`${inputClass} w-28`} />
+                  </div>
+              ))}
+              <button
+                  onClick={() => setRevenue(prev => [...prev, { year: String(Number(prev[prev.length - 1]?.year || new Date().getFullYear()) - 1), amount: '' }])}
+                  className="px-2 py-1 border border-neutral-800 rounded text-[9px] uppercase tracking-widest text-neutral-500 hover:text-white transition-colors"
+              >
+                  Add Year
+              </button>
+          </div>
+      </div>
+
+      {error && <div className="mb-2 text-[10px] text-red-400 whitespace-pre-wrap">{error}</div>}
+
+      <div className="flex gap-3">
+          <button onClick={handleSave} className="px-3 py-1.5 bg-white text-black rounded text-[9px] uppercase tracking-widest font-bold hover:bg-neutral-200 transition-colors">
+              {editingId ? 'Save & Use' : 'Create & Use'}
+          </button>
+          {editingId && (
+              <button onClick={handleDelete} className="px-3 py-1.5 border border-neutral-800 rounded text-[9px] uppercase tracking-widest text-neutral-500 hover:text-red-400 transition-colors">
+                  Delete
+              </button>
+          )}
+      </div>
+    </div>
+  );
+};
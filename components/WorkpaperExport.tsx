@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { useAudit } from '../contexts/AuditContext';
+import { Workpaper, WorkpaperInput, buildWorkpaper, workpaperHtml, workpaperJson } from '../services/workpaper';
+
+type ExportFormat = 'json' | 'html' | 'pdf';
+
+const download = (fileName: string, type: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// PDF comes from the browser's print dialog ("Save as PDF"), so no PDF library is bundled
+const printHtml = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('The print window was blocked; allow pop-ups or export HTML and print it.');
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+};
+
+interface WorkpaperExportProps {
+  input: WorkpaperInput;
+}
+
+/**
+ * Exports audited lines as a workpaper: JSON for machines, HTML or PDF for the client file.
+ */
+export const WorkpaperExport: React.FC<WorkpaperExportProps> = ({ input }) => {
+  const { addEntry } = useAudit();
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(true);
+    try {
+      const workpaper: Workpaper = await buildWorkpaper(input);
+      const baseName = `workpaper-${workpaper.source.kind}-${workpaper.workpaper_id}`;
+      if (format === 'json') download(`${baseName}.json`, 'application/json', workpaperJson(workpaper));
+      else if (format === 'html') download(`${baseName}.html`, 'text/html', workpaperHtml(workpaper));
+      else printHtml(workpaperHtml(workpaper));
+      addEntry('Workpaper Exported', `${workpaper.title} (${workpaper.workpaper_id}) as ${format.toUpperCase()}: ${workpaper.expenses.length} expenses, ${workpaper.statutes.length} statute texts`, 'System', 'Verified');
+    } catch (err: any) {
+      addEntry('Workpaper Export Error', err.message, 'System', 'Error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+        <span className="text-[9px] uppercase tracking-widest text-neutral-500">Workpaper</span>
+        {(['pdf', 'html', 'json'] as ExportFormat[]).map(format => (
+            <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={busy}
+                className="px-2 py-1 border border-neutral-800 rounded text-[9px] uppercase tracking-widest text-neutral-500 hover:text-white disabled:opacity-30 transition-colors"
+            >
+                {format}
+            </button>
+        ))}
+    </div>
+  );
+};
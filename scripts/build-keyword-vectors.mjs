@@ -0,0 +1,13 @@
+// Precomputes the keyword-expansion vectors shipped with the corpus (corpus/index/keyword-vectors.json).
+// Usage: npm run build:keyword-vectors
+
+import { writeFileSync } from 'fs';
+import { withServices } from './ssr.mjs';
+
+await withServices(async load => {
+  const { STATUTE_CORPUS } = await load('/services/statuteCorpus.ts');
+  const { buildKeywordVectorFile } = await load('/services/keywordExpansion.ts');
+  const file = buildKeywordVectorFile(STATUTE_CORPUS);
+  writeFileSync(new URL('../corpus/index/keyword-vectors.json', import.meta.url), JSON.stringify(file) + '\n');
+  console.log(`Expanded ${Object.keys(file.sections).length} sections with ${file.model} (${file.dimensions} dimensions).`);
+});
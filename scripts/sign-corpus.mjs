@@ -0,0 +1,27 @@
+// Hashes every corpus section and overlay and signs the manifest (corpus/integrity/manifest.json).
+// Usage: CORPUS_SIGNING_KEY=/path/to/key.pem npm run sign:corpus
+// The private key never enters the repository; its public half is in services/corpusIntegrity.ts.
+
+import { readFileSync, writeFileSync } from 'fs';
+import { createPrivateKey, sign } from 'crypto';
+import { withServices } from './ssr.mjs';
+
+const keyPath = process.env.CORPUS_SIGNING_KEY;
+const keyId = process.env.CORPUS_SIGNING_KEY_ID || 'corpus-publisher-2026';
+if (!keyPath) {
+  console.error('Set CORPUS_SIGNING_KEY to the PEM file of the corpus signing key.');
+  process.exit(1);
+}
+
+await withServices(async load => {
+  const { STATUTE_CORPUS } = await load('/services/statuteCorpus.ts');
+  const { buildManifestBody, signedPayload } = await load('/services/corpusManifest.ts');
+  const body = buildManifestBody(STATUTE_CORPUS);
+  const value = sign('sha256', Buffer.from(signedPayload(body)), {
+    key: createPrivateKey(readFileSync(keyPath)),
+    dsaEncoding: 'ieee-p1363', // The r || s form WebCrypto verifies
+  }).toString('base64');
+  const manifest = { ...body, signature: { algorithm: 'ECDSA-P256-SHA256', key_id: keyId, value } };
+  writeFileSync(new URL('../corpus/integrity/manifest.json', import.meta.url), JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`Signed ${Object.keys(body.sections).length} sections and ${Object.keys(body.overlays).length} overlays with '${keyId}'.`);
+});
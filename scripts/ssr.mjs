@@ -0,0 +1,17 @@
+// Loads app services under Vite's SSR loader so scripts read the corpus exactly as the app does.
+
+import { createServer } from 'vite';
+
+export const withServices = async (run) => {
+  const server = await createServer({
+    server: { middlewareMode: true },
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true, include: [] }, // Nothing is served to a browser
+    logLevel: 'error',
+  });
+  try {
+    return await run(path => server.ssrLoadModule(path));
+  } finally {
+    await server.close();
+  }
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { buildDepreciationSchedule, evaluateCapitalization } from './capitalization';
+
+const FIVE_YEAR = { recovery_years: 5, asset_class: '00.12', source: 'Rev. Proc. 87-56' };
+
+const plan = (schedule: ReturnType<typeof buildDepreciationSchedule>, method: string) => schedule.plans.find(p => p.method === method)!;
+
+describe('buildDepreciationSchedule', () => {
+  it('follows the MACRS half-year table and recovers the whole basis under every plan', () => {
+    const schedule = buildDepreciationSchedule(10000, '2024-03-01', FIVE_YEAR);
+    expect(plan(schedule, 'macrs').years.map(year => year.deduction)).toEqual([2000, 3200, 1920, 1152, 1152, 576]);
+    expect(plan(schedule, 'macrs').years.map(year => year.tax_year)).toEqual([2024, 2025, 2026, 2027, 2028, 2029]);
+    // 60% bonus in 2024, then MACRS on the remaining $4,000
+    expect(plan(schedule, 'bonus').years.map(year => year.deduction)).toEqual([6800, 1280, 768, 460.8, 460.8, 230.4]);
+    for (const { years } of schedule.plans) {
+      expect(years.at(-1)!.remaining_basis).toBe(0);
+      expect(years.reduce((sum, year) => sum + year.deduction, 0)).toBeCloseTo(10000, 2);
+    }
+  });
+
+  it('puts the rounding remainder in the last year', () => {
+    const years = plan(buildDepreciationSchedule(3333.33, '2024-03-01', FIVE_YEAR), 'macrs').years;
+    expect(years.slice(0, 5).map(year => year.deduction)).toEqual([666.67, 1066.67, 640, 384, 384]);
+    expect(years[5].deduction).toBe(191.99);
+    expect(years[5].remaining_basis).toBe(0);
+  });
+
+  it('reduces the Section 179 limit dollar for dollar above the phase-out threshold', () => {
+    const within = buildDepreciationSchedule(3050000, '2024-06-01', FIVE_YEAR);
+    expect(within.section_179_limit).toBe(1220000);
+
+    const over = buildDepreciationSchedule(3100000, '2024-06-01', FIVE_YEAR);
+    expect(over.section_179_limit).toBe(1170000);
+    // $1,170,000 expensed, 60% bonus on the other $1,930,000, then 20% MACRS on the last $772,000
+    expect(plan(over, 'section_179').first_year_deduction).toBe(2482400);
+    expect(plan(over, 'section_179').label).toBe('Section 179 expensing, bonus on the excess, then MACRS');
+
+    const phasedOut = buildDepreciationSchedule(4500000, '2024-06-01', FIVE_YEAR);
+    expect(phasedOut.section_179_limit).toBe(0);
+    expect(plan(phasedOut, 'section_179').first_year_deduction).toBe(plan(phasedOut, 'bonus').first_year_deduction);
+  });
+
+  it('applies the latest Section 179 limit on file to an unpublished year, with a note', () => {
+    const schedule = buildDepreciationSchedule(10000, '2026-03-01', FIVE_YEAR);
+    expect(schedule.section_179_limit).toBe(2500000);
+    expect(schedule.notes).toContain('Section 179 limit for 2026 not on file; the 2025 limit was applied. Confirm the inflation-adjusted amount.');
+  });
+
+  it('picks the bonus rate in force on the placed-in-service date', () => {
+    const rate = (date: string) => buildDepreciationSchedule(10000, date, FIVE_YEAR).bonus_rate;
+    expect(rate('2017-09-27')).toBe(0.5);
+    expect(rate('2017-09-28')).toBe(1);
+    expect(rate('2022-12-31')).toBe(1);
+    expect(rate('2023-01-01')).toBe(0.8);
+    expect(rate('2024-12-31')).toBe(0.6);
+    expect(rate('2025-01-19')).toBe(0.4);
+    expect(rate('2025-01-20')).toBe(1);
+  });
+
+  it('offers no bonus plan before the first bonus period on file', () => {
+    const schedule = buildDepreciationSchedule(10000, '2014-12-31', FIVE_YEAR);
+    expect(schedule.bonus_rate).toBe(0);
+    expect(schedule.plans.map(p => p.method)).toEqual(['macrs']);
+    expect(schedule.notes).toContain('No bonus depreciation rate is on file for property placed in service on 2014-12-31.');
+    expect(schedule.notes).toContain('No Section 179 limit is on file for tax year 2014.');
+  });
+});
+
+describe('evaluateCapitalization', () => {
+  const decide = (expense_amount: number, extra: { has_afs?: boolean; useful_life_months?: number } = {}) =>
+    evaluateCapitalization({ expense_amount, category: 'Laptop', placed_in_service: '2024-05-01', ...extra });
+
+  it('walks the safe harbors before capitalizing', () => {
+    expect(decide(150).rule).toBe('materials_supplies');
+    expect(decide(3000, { useful_life_months: 12 }).rule).toBe('materials_supplies');
+    expect(decide(2500).rule).toBe('de_minimis');
+    expect(decide(4000, { has_afs: true }).rule).toBe('de_minimis');
+    const capital = decide(4000);
+    expect(capital.outcome).toBe('failed');
+    expect(capital.rule).toBe('capitalize');
+    expect(capital.schedule?.recovery_years).toBe(5);
+  });
+
+  it('sends an unusable amount or date to review', () => {
+    expect(decide(0).outcome).toBe('indeterminate');
+    expect(evaluateCapitalization({ expense_amount: 4000, category: 'Laptop', placed_in_service: '05/01/2024' }).rule).toBe('invalid_input');
+  });
+});
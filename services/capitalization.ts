@@ -0,0 +1,315 @@
+// Current expense or capital asset (IRC 263(a)), and if capital, how it is recovered: MACRS
+// under IRC 168, the IRC 179 election and bonus depreciation under IRC 168(k). The thresholds,
+// recovery classes, rate tables and yearly limits ship as data in rules/depreciation.json.
+
+import { z } from 'zod';
+import { ValidationOutcome } from './legalEngine';
+import { NAICS_RULES, RulesTableValidationError, naicsLineage, parseWithSchema } from './naicsRules';
+import { CategoryMatch, categoryLineage, classifyExpense } from './expenseTaxonomy';
+
+const IsoDateZod = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be an ISO date (YYYY-MM-DD)');
+const RecoveryYearsZod = z.number().int().positive();
+
+export const RecoveryClassZod = z.object({
+  category: z.string().min(1),               // Expense category id; covers its child categories
+  recovery_years: RecoveryYearsZod,          // GDS recovery period
+  asset_class: z.string().min(1),            // Rev. Proc. 87-56 asset class
+  source: z.string().min(1),
+  note: z.string().min(1).optional(),        // Caveat repeated in the result, e.g. luxury auto caps
+  naics_overrides: z.array(z.object({        // Industries whose asset class recovers faster or slower
+    naics: z.string().regex(/^\d{2,6}$/, 'must be a 2-6 digit NAICS code'),
+    recovery_years: RecoveryYearsZod,
+    asset_class: z.string().min(1),
+    source: z.string().min(1),
+  })).optional(),
+});
+
+export const DepreciationFileZod = z.object({
+  format_version: z.literal(1),
+  title: z.string().min(1),
+  note: z.string().optional(),
+  materials_supplies: z.object({
+    unit_cost_limit: z.number().positive(),
+    useful_life_months: z.number().int().positive(),
+    source: z.string().min(1),
+  }),
+  de_minimis: z.object({
+    per_item_limit: z.number().positive(),
+    per_item_limit_afs: z.number().positive(), // Taxpayers with an applicable financial statement
+    source: z.string().min(1),
+  }),
+  current_expenses: z.array(z.object({ category: z.string().min(1), source: z.string().min(1) })),
+  recovery_classes: z.array(RecoveryClassZod),
+  macrs_half_year: z.object({
+    source: z.string().min(1),
+    rates: z.record(z.string().regex(/^\d+$/), z.array(z.number().positive()).min(2)), // Percent per year
+  }),
+  section_179: z.array(z.object({
+    tax_year: z.number().int(),
+    limit: z.number().nonnegative(),
+    phase_out_threshold: z.number().nonnegative(),
+    source: z.string().min(1),
+  })).min(1),
+  bonus: z.array(z.object({
+    from: IsoDateZod,                          // Placed in service on or after
+    to: IsoDateZod.optional(),                 // Through (inclusive); omitted = until amended
+    rate: z.number().min(0).max(1),
+    source: z.string().min(1),
+  })),
+});
+
+export type RecoveryClass = z.infer<typeof RecoveryClassZod>;
+export type DepreciationFile = z.infer<typeof DepreciationFileZod>;
+
+export interface DepreciationYear {
+  tax_year: number;
+  deduction: number;
+  remaining_basis: number;                   // Adjusted basis at the end of the year
+}
+
+export type DepreciationMethod = 'macrs' | 'bonus' | 'section_179';
+
+export interface DepreciationPlan {
+  method: DepreciationMethod;
+  label: string;
+  first_year_deduction: number;
+  years: DepreciationYear[];
+  sources: string[];
+}
+
+export interface DepreciationSchedule {
+  basis: number;
+  placed_in_service: string;                 // YYYY-MM-DD; tax years are assumed to be calendar years
+  recovery_years: number;
+  asset_class: string;
+  convention: 'half-year';
+  bonus_rate: number;                        // 0 when no bonus period covers the date
+  section_179_limit?: number;                // After the phase-out; absent when no limit is on file
+  plans: DepreciationPlan[];                 // MACRS alone, bonus + MACRS, Section 179 + bonus + MACRS
+  notes: string[];
+}
+
+export interface CapitalizationInput {
+  expense_amount: number;                    // Unit cost (or invoice total for the de minimis test)
+  category: string;                          // Free-text item, classified by the expense taxonomy
+  placed_in_service: string;                 // YYYY-MM-DD
+  naics?: string;
+  useful_life_months?: number;
+  has_afs?: boolean;                         // Applicable financial statement (audited, SEC-filed...)
+}
+
+export type CapitalizationRule = 'current_expense' | 'materials_supplies' | 'de_minimis' | 'capitalize' | 'no_recovery_class' | 'unclassified' | 'invalid_input';
+
+export interface CapitalizationDecision {
+  outcome: ValidationOutcome;                // passed = deductible now; failed = must be capitalized
+  rule: CapitalizationRule;
+  details: string;
+  sources: string[];
+  category?: CategoryMatch;
+  schedule?: DepreciationSchedule;
+}
+
+export interface DepreciationRules {
+  file: DepreciationFile;
+  currentExpenses: Map<string, string>;      // Category id -> source
+  recoveryClasses: Map<string, RecoveryClass>;
+}
+
+/**
+ * Parses rules/depreciation.json. Every category must exist in the taxonomy and be either a
+ * current expense or a recovery class, every recovery period needs a rate table, and each rate
+ * table must recover the whole basis; otherwise the table refuses to load.
+ */
+export const loadDepreciationRules = (name: string, raw: unknown): DepreciationRules => {
+  const file = parseWithSchema(DepreciationFileZod, name, raw);
+  const issues: string[] = [];
+  const known = (category: string, path: string) => {
+    if (!NAICS_RULES.taxonomy.categories.has(category)) issues.push(`${path}.category: unknown category '${category}'`);
+  };
+
+  const currentExpenses = new Map<string, string>();
+  file.current_expenses.forEach((entry, index) => {
+    known(entry.category, `current_expenses.${index}`);
+    if (currentExpenses.has(entry.category)) issues.push(`current_expenses.${index}.category: '${entry.category}' is listed twice`);
+    currentExpenses.set(entry.category, entry.source);
+  });
+
+  const recoveryClasses = new Map<string, RecoveryClass>();
+  file.recovery_classes.forEach((entry, index) => {
+    known(entry.category, `recovery_classes.${index}`);
+    if (recoveryClasses.has(entry.category) || currentExpenses.has(entry.category)) {
+      issues.push(`recovery_classes.${index}.category: '${entry.category}' already has a treatment`);
+    }
+    [entry.recovery_years, ...(entry.naics_overrides || []).map(o => o.recovery_years)].forEach(years => {
+      if (!file.macrs_half_year.rates[years]) issues.push(`recovery_classes.${index}: no MACRS rate table for ${years}-year property`);
+    });
+    recoveryClasses.set(entry.category, entry);
+  });
+
+  Object.entries(file.macrs_half_year.rates).forEach(([years, rates]) => {
+    if (rates.length !== Number(years) + 1) issues.push(`macrs_half_year.rates.${years}: half-year convention needs ${Number(years) + 1} rates`);
+    const total = rates.reduce((sum, rate) => sum + rate, 0);
+    if (Math.abs(total - 100) > 0.02) issues.push(`macrs_half_year.rates.${years}: rates sum to ${total.toFixed(2)}%, not 100%`);
+  });
+
+  if (issues.length > 0) throw new RulesTableValidationError(name, issues);
+  return { file, currentExpenses, recoveryClasses };
+};
+
+const depreciationModules = import.meta.glob('../rules/depreciation.json', { eager: true, import: 'default' });
+
+export const DEPRECIATION_RULES: DepreciationRules = loadDepreciationRules('depreciation.json', Object.values(depreciationModules)[0]);
+
+const cents = (amount: number): number => Math.round(amount * 100) / 100;
+const dollars = (amount: number): string => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * One recovery plan: `upfront` is deducted in the placed-in-service year, and the rest of the basis
+ * follows the MACRS half-year table. The last year absorbs rounding so the plan recovers the basis exactly.
+ */
+const recoveryPlan = (
+  method: DepreciationMethod,
+  label: string,
+  basis: number,
+  upfront: number,
+  rates: number[],
+  firstYear: number,
+  sources: string[]
+): DepreciationPlan => {
+  const remainder = basis - upfront;
+  let remaining = basis;
+  const years = rates.map((rate, index) => {
+    const last = index === rates.length - 1;
+    const deduction = last ? cents(remaining) : cents((index === 0 ? upfront : 0) + remainder * rate / 100);
+    remaining = cents(remaining - deduction);
+    return { tax_year: firstYear + index, deduction, remaining_basis: remaining };
+  });
+  return { method, label, first_year_deduction: years[0].deduction, years, sources };
+};
+
+/**
+ * Recovery schedules for a capitalized asset under each method, with the Section 179 limit for the
+ * tax year reduced dollar-for-dollar by any cost above the phase-out threshold. Only this asset's
+ * cost is known here, so other property placed in service the same year is not counted.
+ */
+export const buildDepreciationSchedule = (
+  basis: number,
+  placed_in_service: string,
+  recovery: { recovery_years: number; asset_class: string; source: string },
+  rules: DepreciationRules = DEPRECIATION_RULES
+): DepreciationSchedule => {
+  const { file } = rules;
+  const rates = file.macrs_half_year.rates[recovery.recovery_years];
+  const firstYear = Number(placed_in_service.slice(0, 4));
+  const notes: string[] = [];
+
+  const macrsSources = [recovery.source, file.macrs_half_year.source];
+  const plans = [recoveryPlan('macrs', `MACRS ${recovery.recovery_years}-year GDS, half-year convention`, basis, 0, rates, firstYear, macrsSources)];
+
+  const bonus = file.bonus.find(period => period.from <= placed_in_service && (!period.to || placed_in_service <= period.to));
+  const bonus_rate = bonus?.rate ?? 0;
+  if (bonus && bonus_rate > 0) {
+    plans.push(recoveryPlan('bonus', `${bonus_rate * 100}% bonus depreciation, then MACRS`, basis, cents(basis * bonus_rate), rates, firstYear, [bonus.source, ...macrsSources]));
+  } else {
+    notes.push(`No bonus depreciation rate is on file for property placed in service on ${placed_in_service}.`);
+  }
+
+  // The limit for the tax year, or the latest on file for a year not yet published
+  const limits = [...file.section_179].sort((a, b) => a.tax_year - b.tax_year);
+  const limit = [...limits].reverse().find(entry => entry.tax_year <= firstYear);
+  let section_179_limit: number | undefined;
+  if (!limit) {
+    notes.push(`No Section 179 limit is on file for tax year ${firstYear}.`);
+  } else {
+    if (limit.tax_year !== firstYear) notes.push(`Section 179 limit for ${firstYear} not on file; the ${limit.tax_year} limit was applied. Confirm the inflation-adjusted amount.`);
+    section_179_limit = Math.max(0, limit.limit - Math.max(0, basis - limit.phase_out_threshold));
+    const elected = Math.min(basis, section_179_limit);
+    const upfront = cents(elected + (basis - elected) * bonus_rate);
+    const label = elected < basis && bonus_rate > 0 ? 'Section 179 expensing, bonus on the excess, then MACRS' : 'Section 179 expensing, then MACRS';
+    plans.push(recoveryPlan('section_179', label, basis, upfront, rates, firstYear, [limit.source, ...(bonus && bonus_rate > 0 ? [bonus.source] : []), ...macrsSources]));
+    notes.push('The Section 179 deduction cannot exceed taxable income from the active conduct of a trade or business (IRC § 179(b)(3)); any excess carries forward.');
+  }
+
+  return {
+    basis: cents(basis),
+    placed_in_service,
+    recovery_years: recovery.recovery_years,
+    asset_class: recovery.asset_class,
+    convention: 'half-year',
+    bonus_rate,
+    ...(section_179_limit !== undefined ? { section_179_limit } : {}),
+    plans,
+    notes,
+  };
+};
+
+/**
+ * Decides whether an item is deductible now or must be capitalized, in order:
+ *  1. Unusable amount or date, or an item outside the taxonomy, is indeterminate.
+ *  2. A category that is a current expense by nature (rent, wages, supplies...) passes.
+ *  3. Property with a useful life of 12 months or less, or a unit cost within the materials and
+ *     supplies limit, passes as a material or supply.
+ *  4. Property within the de minimis safe harbor limit ($5,000 with an applicable financial
+ *     statement) passes, on condition that the annual election is made.
+ *  5. Anything else fails the current-expense test: it is capitalized under IRC 263(a) and the
+ *     result carries its depreciation schedule. Without a recovery class it goes to review.
+ * The most specific category on the lineage decides; a NAICS override picks the asset class.
+ */
+export const evaluateCapitalization = (input: CapitalizationInput, rules: DepreciationRules = DEPRECIATION_RULES): CapitalizationDecision => {
+  const { expense_amount, placed_in_service } = input;
+  const { file } = rules;
+
+  if (!Number.isFinite(expense_amount) || expense_amount <= 0) {
+    return { outcome: 'indeterminate', rule: 'invalid_input', sources: [], details: `INDETERMINATE: Expense amount '${expense_amount}' is not a usable dollar figure. Route to human review.` };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(placed_in_service)) {
+    return { outcome: 'indeterminate', rule: 'invalid_input', sources: [], details: `INDETERMINATE: Placed-in-service date '${placed_in_service}' is not a YYYY-MM-DD date. Route to human review.` };
+  }
+
+  const category = classifyExpense(input.category, NAICS_RULES.taxonomy);
+  if (!category) {
+    return { outcome: 'indeterminate', rule: 'unclassified', sources: [], details: `INDETERMINATE: '${input.category}' does not map to a known expense category. Route to human review.` };
+  }
+  const lineage = categoryLineage(category.category, NAICS_RULES.taxonomy);
+  const item = `'${input.category}' (${category.category.label})`;
+  const base = { category };
+
+  const currentSource = lineage.map(c => rules.currentExpenses.get(c.id)).find(Boolean);
+  if (currentSource) {
+    return { ...base, outcome: 'passed', rule: 'current_expense', sources: [currentSource], details: `PASSED: ${item} is a current expense, not a unit of property to capitalize (${currentSource}).` };
+  }
+
+  const { materials_supplies, de_minimis } = file;
+  if (input.useful_life_months !== undefined && input.useful_life_months <= materials_supplies.useful_life_months) {
+    return { ...base, outcome: 'passed', rule: 'materials_supplies', sources: [materials_supplies.source], details: `PASSED: ${item} has a useful life of ${input.useful_life_months} months, so it is a material or supply deductible when used (${materials_supplies.source}).` };
+  }
+  if (expense_amount <= materials_supplies.unit_cost_limit) {
+    return { ...base, outcome: 'passed', rule: 'materials_supplies', sources: [materials_supplies.source], details: `PASSED: ${item} costs ${dollars(expense_amount)}, within the ${dollars(materials_supplies.unit_cost_limit)} materials and supplies limit (${materials_supplies.source}).` };
+  }
+  const deMinimisLimit = input.has_afs ? de_minimis.per_item_limit_afs : de_minimis.per_item_limit;
+  if (expense_amount <= deMinimisLimit) {
+    return { ...base, outcome: 'passed', rule: 'de_minimis', sources: [de_minimis.source], details: `PASSED: ${item} costs ${dollars(expense_amount)}, within the ${dollars(deMinimisLimit)} de minimis safe harbor (${de_minimis.source}). NOTE: Requires the annual election statement with a timely filed return.` };
+  }
+
+  const recoveryClass = lineage.map(c => rules.recoveryClasses.get(c.id)).find((c): c is RecoveryClass => !!c);
+  if (!recoveryClass) {
+    return { ...base, outcome: 'indeterminate', rule: 'no_recovery_class', sources: [], details: `INDETERMINATE: ${item} costs ${dollars(expense_amount)}, above the de minimis limit, but no MACRS recovery class is on file for it. Route to human review.` };
+  }
+  const industry = naicsLineage(input.naics || '');
+  const override = industry.map(code => (recoveryClass.naics_overrides || []).find(o => o.naics === code)).find(Boolean);
+  const recovery = override || recoveryClass;
+
+  const schedule = buildDepreciationSchedule(expense_amount, placed_in_service, recovery, rules);
+  if (recoveryClass.note) schedule.notes.unshift(recoveryClass.note);
+  const firstYear = schedule.plans.map(plan => `${plan.method} ${dollars(plan.first_year_deduction)}`).join(', ');
+  return {
+    ...base,
+    outcome: 'failed',
+    rule: 'capitalize',
+    schedule,
+    sources: [...new Set(schedule.plans.flatMap(plan => plan.sources))],
+    details: `FAILED: ${item} at ${dollars(expense_amount)} is a capital expenditure under IRC Sec 263(a), not a current expense. ` +
+      `Recover it as ${recovery.recovery_years}-year property (asset class ${recovery.asset_class}${override ? `, NAICS ${override.naics}` : ''}) placed in service ${placed_in_service}. ` +
+      `First-year deduction: ${firstYear}.`,
+  };
+};
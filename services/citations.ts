@@ -0,0 +1,112 @@
+// Citation parsing & normalization for USC, UCC, CFR and IRC references.
+// "UCC § 3-104", "UCC 3-104" and "Uniform Commercial Code Sec. 3-104" must all be the same section.
+
+export type CitationCode = 'UCC' | 'USC' | 'CFR' | 'IRC';
+
+export interface ParsedCitation {
+  code: CitationCode;
+  title?: string;        // USC/CFR title number (e.g. "16" in 16 CFR 444.2)
+  section: string;       // e.g. "3-104", "444.2", "162"
+  subsections: string[]; // e.g. ['a', '1'] for (a)(1)
+}
+
+export interface CitationMatch {
+  citation: ParsedCitation;
+  index: number;
+  text: string;          // The exact spelling found in the source text
+}
+
+const SECTION_SIGN = String.raw`(?:§{1,2}|Sec(?:tion)?\.?|Part)?\s*`;
+const SUBSECTIONS = String.raw`((?:\([A-Za-z0-9]{1,4}\))*)`;
+
+// Order matters: "26 U.S.C. § 162" must be read as USC before anything else sees the "162".
+const PATTERNS: { code: CitationCode; regex: RegExp; hasTitle: boolean }[] = [
+  { code: 'CFR', hasTitle: true, regex: new RegExp(String.raw`\b(\d{1,2})\s*C\.?\s?F\.?\s?R\.?\s*${SECTION_SIGN}(\d+(?:\.\d+)?)${SUBSECTIONS}`, 'gi') },
+  { code: 'USC', hasTitle: true, regex: new RegExp(String.raw`\b(\d{1,2})\s*U\.?\s?S\.?\s?C\.?(?:A\.?)?\s*${SECTION_SIGN}(\d+[a-z]?(?:-\d+)?)${SUBSECTIONS}`, 'gi') },
+  { code: 'UCC', hasTitle: false, regex: new RegExp(String.raw`\b(?:U\.?\s?C\.?\s?C\.?|Uniform Commercial Code)\s*${SECTION_SIGN}(\d{1,2}[A-Z]?-\d{3}[A-Za-z]?)${SUBSECTIONS}`, 'gi') },
+  { code: 'IRC', hasTitle: false, regex: new RegExp(String.raw`\b(?:I\.?\s?R\.?\s?C\.?|Internal Revenue Code)\s*${SECTION_SIGN}(\d+[A-Z]?)${SUBSECTIONS}`, 'gi') },
+];
+
+const parseSubsectionPath = (raw: string | undefined): string[] =>
+  Array.from((raw || '').matchAll(/\(([A-Za-z0-9]{1,4})\)/g)).map(m => m[1]);
+
+const toCitation = (code: CitationCode, hasTitle: boolean, match: RegExpMatchArray): ParsedCitation => {
+  const [title, section, subs] = hasTitle ? [match[1], match[2], match[3]] : [undefined, match[1], match[2]];
+  // Title 26 of the U.S. Code *is* the Internal Revenue Code
+  if (code === 'USC' && title === '26') {
+    return { code: 'IRC', section: section.toUpperCase(), subsections: parseSubsectionPath(subs) };
+  }
+  return {
+    code,
+    ...(title ? { title } : {}),
+    section: code === 'UCC' || code === 'IRC' ? section.toUpperCase() : section.toLowerCase(),
+    subsections: parseSubsectionPath(subs),
+  };
+};
+
+/**
+ * Finds every recognizable citation in free text, in reading order.
+ */
+export const findCitations = (text: string): CitationMatch[] => {
+  const found: CitationMatch[] = [];
+  PATTERNS.forEach(({ code, regex, hasTitle }) => {
+    for (const match of text.matchAll(regex)) {
+      const index = match.index || 0;
+      const overlaps = found.some(f => index < f.index + f.text.length && f.index < index + match[0].length);
+      if (!overlaps) found.push({ citation: toCitation(code, hasTitle, match), index, text: match[0] });
+    }
+  });
+  return found.sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Parses a string that is (or starts with) a single citation.
+ */
+export const parseCitation = (text: string): ParsedCitation | undefined => {
+  const [first] = findCitations(text);
+  return first && text.slice(0, first.index).trim() === '' ? first.citation : undefined;
+};
+
+/**
+ * A section sign with no code in front of it ("§ 2-207", "Sec. 162(a)"). It names a section, but
+ * which code it belongs to has to be settled against the library.
+ */
+export const parseBareSection = (text: string): { section: string; subsections: string[] } | undefined => {
+  const match = text.match(/^\s*(?:§{1,2}|Sec(?:tion)?\.?)\s*(\d+[A-Za-z]?(?:[-.]\d+[A-Za-z]?)?)((?:\([A-Za-z0-9]{1,4}\))*)\s*$/i);
+  return match ? { section: match[1], subsections: parseSubsectionPath(match[2]) } : undefined;
+};
+
+/**
+ * Canonical lookup key for the section (subsections dropped): "UCC 3-104", "16 CFR 444.2", "9 USC 1", "IRC 162".
+ */
+export const citationKey = (citation: ParsedCitation): string => {
+  switch (citation.code) {
+    case 'UCC': return `UCC ${citation.section}`;
+    case 'IRC': return `IRC ${citation.section}`;
+    case 'CFR': return `${citation.title} CFR ${citation.section}`;
+    case 'USC': return `${citation.title} USC ${citation.section}`;
+  }
+};
+
+/**
+ * Human-readable form, including any subsection path: "UCC § 3-104(a)(1)", "9 U.S.C. § 1".
+ */
+export const formatCitation = (citation: ParsedCitation): string => {
+  const subs = citation.subsections.map(s => `(${s})`).join('');
+  switch (citation.code) {
+    case 'UCC': return `UCC § ${citation.section}${subs}`;
+    case 'IRC': return `IRC § ${citation.section}${subs}`;
+    case 'CFR': return `${citation.title} CFR § ${citation.section}${subs}`;
+    case 'USC': return `${citation.title} U.S.C. § ${citation.section}${subs}`;
+  }
+};
+
+/**
+ * Normalizes any spelling to its display form; unrecognized text is returned unchanged.
+ */
+export const normalizeCitation = (text: string): string => {
+  const parsed = parseCitation(text);
+  return parsed ? formatCitation(parsed) : text;
+};
+
+export const isSameSection = (a: ParsedCitation, b: ParsedCitation): boolean => citationKey(a) === citationKey(b);
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { STATUTE_CORPUS } from './statuteCorpus';
+import { CORPUS_MANIFEST, CorpusIntegrityError, PUBLISHER_KEYS, checkManifest, corpusIntegrityStatus, requireManifest, verifyManifestSignature } from './corpusIntegrity';
+
+describe('corpus integrity', () => {
+  it('verifies the shipped corpus against a listed publisher key', async () => {
+    expect(CORPUS_MANIFEST).toBeDefined();
+    expect(PUBLISHER_KEYS[CORPUS_MANIFEST!.signature.key_id]).toBeDefined();
+    expect(await corpusIntegrityStatus()).toBeUndefined();
+  });
+
+  it('reports an altered section instead of accepting it', () => {
+    const [first, ...rest] = STATUTE_CORPUS.sections;
+    const tampered = { ...STATUTE_CORPUS, sections: [{ ...first, text: `${first.text} (amended)` }, ...rest] };
+    expect(() => checkManifest(tampered, CORPUS_MANIFEST)).toThrow(CorpusIntegrityError);
+  });
+
+  it('trusts only the publisher key', async () => {
+    expect(Object.keys(PUBLISHER_KEYS)).toEqual(['corpus-publisher-2026']);
+    expect((await requireManifest()).signature.key_id).toBe('corpus-publisher-2026');
+  });
+
+  it('rejects a manifest signed by a key that is not a trust anchor', async () => {
+    const manifest = { ...CORPUS_MANIFEST!, signature: { ...CORPUS_MANIFEST!.signature, key_id: 'corpus-maintainer-2026' } };
+    await expect(verifyManifestSignature(manifest)).rejects.toThrow(/unknown key 'corpus-maintainer-2026'/);
+  });
+});
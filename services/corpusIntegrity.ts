@@ -0,0 +1,121 @@
+// Tamper check for the Statute Corpus. Every section and overlay must hash to the value in the
+// signed manifest (corpus/integrity/manifest.json), and the manifest must carry a valid publisher
+// signature. Hashes are checked synchronously at load; a mismatch withholds all statute text and
+// is reported to the UI (corpusIntegrityStatus) rather than thrown at import.
+
+import { STATUTE_CORPUS, StatuteCorpus } from './statuteCorpus';
+import { CorpusManifest, ManifestZod, buildManifestBody, overlayKey, signedPayload } from './corpusManifest';
+
+// Trust anchors: publisher public keys by key id. Rotate by adding a key, re-signing, then removing the old one.
+// Only the key holders change this list, in a change of its own signed by the current key (README, "Signing keys").
+export const PUBLISHER_KEYS: Record<string, JsonWebKey> = {
+  'corpus-publisher-2026': {
+    kty: 'EC',
+    crv: 'P-256',
+    x: 'OBS5KakppgBknA_jCldikweNGw72hLTGWXe5obaL04g',
+    y: 'DqrlwwvHfN-lL2iow_CTHgav9cDkoaNTjR0YbvrkNe4',
+  },
+};
+
+export class CorpusIntegrityError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`[ArbiterOS]: Statute corpus failed its integrity check:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'CorpusIntegrityError';
+  }
+}
+
+/**
+ * Recomputes every hash and compares it with the manifest. Sections or overlays that are
+ * missing from the manifest are as much a failure as altered ones: unsigned law is not law here.
+ */
+export const checkManifest = (corpus: StatuteCorpus, raw: unknown): CorpusManifest => {
+  if (raw === undefined) throw new CorpusIntegrityError(['corpus/integrity/manifest.json is missing']);
+  const parsed = ManifestZod.safeParse(raw);
+  if (!parsed.success) {
+    throw new CorpusIntegrityError(parsed.error.issues.map(issue => `manifest ${issue.path.join('.') || '(root)'}: ${issue.message}`));
+  }
+
+  const manifest = parsed.data;
+  const actual = buildManifestBody(corpus);
+  const issues: string[] = [];
+  const compare = (kind: string, expected: Record<string, string>, computed: Record<string, string>) => {
+    Object.entries(computed).forEach(([key, hash]) => {
+      if (!expected[key]) issues.push(`${kind} '${key}' is not in the manifest`);
+      else if (expected[key] !== hash) issues.push(`${kind} '${key}' does not match its published hash`);
+    });
+    Object.keys(expected).forEach(key => {
+      if (!computed[key]) issues.push(`${kind} '${key}' is in the manifest but missing from the corpus`);
+    });
+  };
+  compare('section', manifest.sections, actual.sections);
+  compare('overlay', manifest.overlays, actual.overlays);
+  if (issues.length > 0) throw new CorpusIntegrityError(issues);
+  return manifest;
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+/**
+ * Verifies the publisher's signature over the manifest (WebCrypto, so async).
+ */
+export const verifyManifestSignature = async (manifest: CorpusManifest, keys: Record<string, JsonWebKey> = PUBLISHER_KEYS): Promise<void> => {
+  const jwk = keys[manifest.signature.key_id];
+  if (!jwk) throw new CorpusIntegrityError([`manifest is signed with unknown key '${manifest.signature.key_id}'`]);
+
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    fromBase64(manifest.signature.value),
+    new TextEncoder().encode(signedPayload(manifest))
+  );
+  if (!valid) throw new CorpusIntegrityError([`manifest signature does not verify against key '${manifest.signature.key_id}'`]);
+};
+
+const manifestModules = import.meta.glob('../corpus/integrity/manifest.json', { eager: true, import: 'default' });
+
+const loadManifest = (): { manifest?: CorpusManifest; error?: CorpusIntegrityError } => {
+  try {
+    return { manifest: checkManifest(STATUTE_CORPUS, Object.values(manifestModules)[0]) };
+  } catch (err) {
+    if (err instanceof CorpusIntegrityError) return { error: err };
+    throw err;
+  }
+};
+
+const loaded = loadManifest();
+
+// Undefined when the corpus failed its hash check
+export const CORPUS_MANIFEST: CorpusManifest | undefined = loaded.manifest;
+
+// Lookups await this before returning any text; it rejects when either check failed
+export const CORPUS_SIGNATURE_VERIFIED: Promise<void> = CORPUS_MANIFEST ? verifyManifestSignature(CORPUS_MANIFEST) : Promise.reject(loaded.error);
+CORPUS_SIGNATURE_VERIFIED.catch(err => console.error(err.message));
+
+/**
+ * The integrity failure to show in the UI, or undefined once the corpus has verified.
+ */
+export const corpusIntegrityStatus = (): Promise<CorpusIntegrityError | undefined> =>
+  CORPUS_SIGNATURE_VERIFIED.then(
+    () => undefined,
+    err => err instanceof CorpusIntegrityError ? err : new CorpusIntegrityError([err instanceof Error ? err.message : String(err)])
+  );
+
+/**
+ * The verified manifest, for callers that cannot proceed without it (workpaper export). Rejects
+ * with the integrity failure unless both the hashes and the signature checked out.
+ */
+export const requireManifest = async (): Promise<CorpusManifest> => {
+  await CORPUS_SIGNATURE_VERIFIED;
+  return CORPUS_MANIFEST!;
+};
+
+export const sectionHash = (citation: string): string | undefined => CORPUS_MANIFEST?.sections[citation];
+
+export const overlayHash = (jurisdiction: string, citation: string): string | undefined =>
+  CORPUS_MANIFEST?.overlays[overlayKey(jurisdiction, citation)];
+
+/**
+ * Appends the content hash to an evidence citation: "UCC § 3-104 [sha256:9f2c...]".
+ */
+export const withContentHash = (source: string, hash?: string): string => (hash ? `${source} [sha256:${hash}]` : source);
@@ -0,0 +1,64 @@
+// The corpus integrity manifest: a SHA-256 hash of every section and overlay as published,
+// signed by the corpus publisher (scripts/sign-corpus.mjs). Checked by corpusIntegrity.ts at load.
+
+import { z } from 'zod';
+import { StatuteCorpus } from './statuteCorpus';
+import { sha256 } from './sha256';
+
+const Sha256Zod = z.string().regex(/^[0-9a-f]{64}$/, 'must be a lowercase hex SHA-256 digest');
+
+export const ManifestZod = z.object({
+  format_version: z.literal(1),
+  hash_algorithm: z.literal('SHA-256'),
+  sections: z.record(z.string(), Sha256Zod),  // Citation -> hash, e.g. "UCC 3-104"
+  overlays: z.record(z.string(), Sha256Zod),  // "<postal code>:<citation>" -> hash, e.g. "NY:UCC 3-104"
+  signature: z.object({
+    algorithm: z.literal('ECDSA-P256-SHA256'),
+    key_id: z.string().min(1),                 // Which publisher key signed it
+    value: z.string().min(1),                  // Base64, IEEE P1363 (r || s)
+  }),
+});
+
+export type CorpusManifest = z.infer<typeof ManifestZod>;
+export type ManifestBody = Omit<CorpusManifest, 'signature'>;
+
+/**
+ * JSON with object keys sorted at every level, so the same data always hashes to the same bytes
+ * regardless of key order in the source file.
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const hashEntry = (entry: unknown): string => sha256(canonicalJson(entry));
+
+export const overlayKey = (jurisdiction: string, citation: string): string => `${jurisdiction}:${citation}`;
+
+/**
+ * The unsigned manifest for a corpus as loaded (every field the engine reads, version history included).
+ */
+export const buildManifestBody = (corpus: StatuteCorpus): ManifestBody => {
+  const overlays: Record<string, string> = {};
+  corpus.jurisdictions.forEach(file => {
+    file.overlays.forEach(overlay => { overlays[overlayKey(file.jurisdiction, overlay.citation)] = hashEntry(overlay); });
+  });
+  return {
+    format_version: 1,
+    hash_algorithm: 'SHA-256',
+    sections: Object.fromEntries(corpus.sections.map(section => [section.citation, hashEntry(section)])),
+    overlays,
+  };
+};
+
+// The exact bytes the signature covers
+export const signedPayload = (manifest: ManifestBody | CorpusManifest): string => {
+  const { signature: _signature, ...body } = manifest as CorpusManifest;
+  return canonicalJson(body);
+};
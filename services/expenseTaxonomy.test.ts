@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { MIN_CATEGORY_CONFIDENCE, REVIEW_CATEGORY_CONFIDENCE, classifyExpense } from './expenseTaxonomy';
+import { NAICS_RULES } from './naicsRules';
+
+const classify = (item: string) => classifyExpense(item, NAICS_RULES.taxonomy);
+
+describe('classifyExpense', () => {
+  it('is certain of whole-item names', () => {
+    expect(classify('Work Boots')?.confidence).toBe(1);
+    expect(classify('circular saw')?.category.id).toBe('power_tools');
+  });
+
+  it('scores half-covered phrases between the review and classification thresholds', () => {
+    for (const [item, category] of [['boots for my wife', 'safety_gear'], ['see saw', 'hand_tools'], ['sea saw', 'hand_tools']]) {
+      const match = classify(item);
+      expect(match?.category.id, item).toBe(category);
+      expect(match!.confidence, item).toBeGreaterThanOrEqual(MIN_CATEGORY_CONFIDENCE);
+      expect(match!.confidence, item).toBeLessThan(REVIEW_CATEGORY_CONFIDENCE);
+    }
+  });
+});
@@ -0,0 +1,193 @@
+// The expense taxonomy: maps a free-text line item ("F-150 pickup", "Work Boots", "circular saw")
+// to a canonical expense category before the ordinary-expense rule lookup. Categories, their
+// synonyms and their parents ship as data in rules/expense-categories.json.
+
+import { z } from 'zod';
+import { tokenize } from './statuteIndex';
+
+const CategoryIdZod = z.string().regex(/^[a-z][a-z0-9_]*$/, 'must be a snake_case id');
+
+export const ExpenseCategoryZod = z.object({
+  id: CategoryIdZod,
+  label: z.string().min(1),
+  parent: CategoryIdZod.optional(),           // Broader category; a rule allowing the parent covers this one
+  items: z.array(z.string().min(1)),          // Canonical line-item names
+  synonyms: z.array(z.string().min(1)).optional(), // Trade names, brands, alternate spellings
+});
+
+export const CategoryFileZod = z.object({
+  format_version: z.literal(1),
+  title: z.string().min(1),
+  categories: z.array(ExpenseCategoryZod).min(1),
+});
+
+export type ExpenseCategory = z.infer<typeof ExpenseCategoryZod>;
+
+interface Alias {
+  text: string;
+  terms: string[];
+  category: ExpenseCategory;
+  kind: 'item' | 'synonym';
+}
+
+export interface ExpenseTaxonomy {
+  categories: Map<string, ExpenseCategory>;
+  aliases: Alias[];
+  byKey: Map<string, Alias>;                  // Joined alias terms -> alias, for exact hits
+}
+
+export interface CategoryMatch {
+  category: ExpenseCategory;
+  confidence: number;                         // 0-1; 1 means the whole item is a known name
+  method: 'exact' | 'synonym' | 'partial' | 'fuzzy';
+  matched: string[];                          // The item and synonym names that matched
+}
+
+// Below this the item is treated as unclassified rather than guessed at
+export const MIN_CATEGORY_CONFIDENCE = 0.5;
+
+// Below this a match is only a lead: half-covered phrases ("boots for my wife", "see saw") land
+// between the two thresholds and go to human review instead of being allowed on the guess.
+export const REVIEW_CATEGORY_CONFIDENCE = 0.8;
+
+// `tokenize` leaves short plurals alone ("saws", "pens"); line items are nouns, so fold them too.
+const singular = (term: string): string => (term.length > 3 && /[^s]s$/.test(term) ? term.slice(0, -1) : term);
+
+export const expenseTerms = (text: string): string[] => [...new Set(tokenize(text.replace(/_/g, ' ')).map(singular))];
+
+/**
+ * One edit apart (insert, delete or substitute), for typos like "hammmer" or "multimter".
+ */
+const withinOneEdit = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0, j = 0, edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { i++; j++; continue; }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else { i++; j++; }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+/**
+ * Indexes every category's id, items and synonyms. A name may belong to only one category,
+ * and parents must exist without forming a cycle; problems come back as issue strings.
+ */
+export const buildTaxonomy = (categoryList: ExpenseCategory[]): { taxonomy: ExpenseTaxonomy; issues: string[] } => {
+  const categories = new Map(categoryList.map(category => [category.id, category]));
+  const aliases: Alias[] = [];
+  const byKey = new Map<string, Alias>();
+  const issues: string[] = [];
+
+  categoryList.forEach((category, index) => {
+    const names: Array<[string, Alias['kind']]> = [
+      ...[category.id, ...category.items].map(text => [text, 'item'] as [string, Alias['kind']]),
+      ...(category.synonyms || []).map(text => [text, 'synonym'] as [string, Alias['kind']]),
+    ];
+    names.forEach(([text, kind]) => {
+      const terms = expenseTerms(text);
+      const key = terms.join(' ');
+      if (!key) {
+        issues.push(`categories.${index}: '${text}' has no matchable words`);
+        return;
+      }
+      const existing = byKey.get(key);
+      if (existing && existing.category !== category) {
+        issues.push(`categories.${index}: '${text}' already belongs to '${existing.category.id}'`);
+        return;
+      }
+      if (existing) return;
+      const alias = { text, terms, category, kind };
+      aliases.push(alias);
+      byKey.set(key, alias);
+    });
+
+    const seen = new Set<string>([category.id]);
+    for (let parent = category.parent; parent; parent = categories.get(parent)?.parent) {
+      if (!categories.has(parent)) {
+        issues.push(`categories.${index}.parent: unknown category '${parent}'`);
+        break;
+      }
+      if (seen.has(parent)) {
+        issues.push(`categories.${index}.parent: '${category.id}' is its own ancestor`);
+        break;
+      }
+      seen.add(parent);
+    }
+  });
+
+  return { taxonomy: { categories, aliases, byKey }, issues };
+};
+
+/**
+ * The category and its parents, most specific first: hand_tools -> tools.
+ */
+export const categoryLineage = (category: ExpenseCategory, taxonomy: ExpenseTaxonomy): ExpenseCategory[] => {
+  const lineage = [category];
+  for (let parent = category.parent && taxonomy.categories.get(category.parent); parent; parent = parent.parent && taxonomy.categories.get(parent.parent)) {
+    lineage.push(parent);
+  }
+  return lineage;
+};
+
+/**
+ * Maps a free-text line item to its best category, or undefined when nothing clears
+ * MIN_CATEGORY_CONFIDENCE.
+ *
+ * A whole-item hit on a known name is certain (a synonym slightly less so). Otherwise each category
+ * scores by how much of the item its names account for: "F-150 pickup" is fully covered by the
+ * vehicle synonym "F-150" plus the item "pickup"; "circular saw" prefers power tools (one name
+ * covers both words) to hand tools ("saw" covers half). Words one typo away count for less.
+ */
+export const classifyExpense = (item: string, taxonomy: ExpenseTaxonomy): CategoryMatch | undefined => {
+  const terms = expenseTerms(item);
+  if (terms.length === 0) return undefined;
+
+  const exact = taxonomy.byKey.get(terms.join(' ')) || taxonomy.aliases.find(alias =>
+    alias.terms.length === terms.length && alias.terms.every(term => terms.includes(term)));
+  if (exact) {
+    return { category: exact.category, confidence: exact.kind === 'item' ? 1 : 0.95, method: exact.kind === 'item' ? 'exact' : 'synonym', matched: [exact.text] };
+  }
+
+  const scores = new Map<string, { covered: Map<string, number>; matched: string[]; fuzzy: boolean; items: number }>();
+  taxonomy.aliases.forEach(alias => {
+    const hits = alias.terms.map(term => {
+      if (terms.includes(term)) return { term, weight: 1 };
+      const near = term.length >= 5 ? terms.find(t => t.length >= 5 && withinOneEdit(t, term)) : undefined;
+      return near ? { term: near, weight: 0.75 } : undefined;
+    });
+    if (hits.some(hit => !hit)) return;
+
+    const score = scores.get(alias.category.id) || { covered: new Map<string, number>(), matched: [], fuzzy: false, items: 0 };
+    hits.forEach(hit => score.covered.set(hit!.term, Math.max(score.covered.get(hit!.term) || 0, hit!.weight)));
+    score.matched.push(alias.text);
+    score.fuzzy = score.fuzzy || hits.some(hit => hit!.weight < 1);
+    if (alias.kind === 'item') score.items++;
+    scores.set(alias.category.id, score);
+  });
+
+  let best: (CategoryMatch & { items: number }) | undefined;
+  scores.forEach((score, id) => {
+    // A parent's names back up the child: "E&O insurance" is E&O (the child) plus insurance (its parent)
+    const covered = new Map(score.covered);
+    const matched = [...score.matched];
+    categoryLineage(taxonomy.categories.get(id)!, taxonomy).slice(1).forEach(parent => {
+      const inherited = scores.get(parent.id);
+      if (!inherited) return;
+      inherited.covered.forEach((weight, term) => covered.set(term, Math.max(covered.get(term) || 0, weight)));
+      matched.push(...inherited.matched);
+    });
+
+    const coverage = [...covered.values()].reduce((sum, weight) => sum + weight, 0) / terms.length;
+    const confidence = Number((0.3 + 0.6 * coverage).toFixed(2));
+    // Ties go to the category matched by a canonical item name rather than only a synonym
+    if (!best || confidence > best.confidence || (confidence === best.confidence && score.items > best.items)) {
+      best = { category: taxonomy.categories.get(id)!, confidence, method: score.fuzzy ? 'fuzzy' : 'partial', matched, items: score.items };
+    }
+  });
+  if (!best || best.confidence < MIN_CATEGORY_CONFIDENCE) return undefined;
+  const { items: _items, ...match } = best;
+  return match;
+};
@@ -1,17 +1,30 @@
 
 import { GoogleGenAI, Modality, Type, FunctionDeclaration, Tool, FunctionCall } from "@google/genai";
-import { Message, Role, ImageSize, AuditEntry } from "../types";
+import { Message, Role, ImageSize, AuditEntry, ArbiterMetadata } from "../types";
 import { decodeBase64 } from "./audio";
 import { 
     verifyOrdinary, 
     verifyNecessary, 
-    verifyNegotiability, 
+    verifyCapitalization,
+    verifyMeals,
+    verifyVehicleUse,
+    verifyHomeOffice,
+    verifyInstrumentText, 
+    classifyInstrument,
+    verifyHolderInDueCourse,
     analyzeContractRisks, 
     generateVerifiedForm,
     consultStatute,
+    defineTerm,
     ValidationStep, 
+    ValidationOutcome,
     InstrumentTerms
 } from "./legalEngine";
+import { HomeOfficeInput, MealInput, VehicleInput } from "./specialRules";
+import { DEFENSE_KINDS, HolderInput } from "./holderInDueCourse";
+import { ChainInput, INDORSEMENT_KINDS } from "./indorsementChain";
+import { ParsedReceipt, ReceiptExtractionError, parseReceipt } from "./receipts";
+import { TaxpayerProfile, describeProfile, profileRevenue } from "./taxpayerProfile";
 
 // System instruction for the Legal Advisor persona
 const LEGAL_SYSTEM_INSTRUCTION = `
@@ -26,8 +39,13 @@ CORE PROTOCOLS:
 4. **Phase 3**: For generating forms (e.g., Promissory Notes, Security Agreements), you MUST use 'draft_verified_form'. DO NOT generate text manually.
 5. **Phase 4 (Visual Guidance)**: If the user asks where to sign or needs a visual guide, explain the layout and use the tag '[SIGNATURE_FIELD:Label]' in your response to render a visual signature box.
 6. **Strictness**: You cannot "think" or "interpret" law loosely. You must rely on the tool outputs.
-7. **Negotiability**: If analyzing a financial instrument, use 'verify_negotiability' to check UCC 3-104 compliance.
-8. **Citation Binding**: If referencing a statute, you MUST use 'consult_statute' to retrieve the raw text. If successfully retrieved, display the citation using the tag '[CITATION:Title|Source]'.
+7. **Negotiability**: If analyzing a financial instrument, use 'verify_negotiability' to check UCC 3-104 compliance. Pass the instrument's text word for word as 'instrument_text'; the engine reads the terms from it. Quote the words the result cites, and report any FLAGGED disagreement with your own reading. Terms that Article 3 permits (variable interest, acceleration, collateral and waiver clauses, references to other writings) come back as separate 'sub_rules'; cite their sections rather than treating the terms as defects. To say who is liable on an instrument, use 'classify_instrument' and state each party's capacity and liability as returned; never infer maker, drawer or drawee from the document's title. To say who can enforce it free of the obligor's defenses, use 'verify_holder_in_due_course' with each transfer in order and only the facts you know; report which defenses SURVIVE, and never call a holder of a consumer credit contract a holder in due course when the FTC Holder Rule applies. To say who may enforce it, give the indorsements in the order signed, with 'possessor' (or 'lost' when no one has the instrument), to either tool; report any BROKEN link and the person entitled to enforce as returned, and never assume an allonge was affixed.
+8. **Citation Binding**: If referencing a statute, you MUST use 'consult_statute' to retrieve the raw text. If successfully retrieved, display the citation using the tag '[CITATION:Title|Source]' for the best hit; mention any relevant 'related' runners-up by their Source.
+9. **Definitions**: When a rule turns on a defined term (holder, collateral, consumer, authenticate), use 'define_term' and apply the statutory definition, not the everyday meaning.
+10. **Point-in-Time**: When auditing a past transaction or prior tax year, pass its date as 'as_of' so the law of that date applies, and state the statute version the tool reports.
+11. **Indeterminate Results**: A tool 'outcome' of 'indeterminate' means the engine has no data to decide (unknown industry, unclassified or only loosely matched item, no statute in force). Do NOT tell the user the expense is denied or the check failed, and do NOT treat a loosely matched item as ordinary; say it has been routed to human review and what data is missing. Ask for a plainer description of the item rather than re-calling the tool with a guessed category.
+12. **Capital Items**: Once an expense is ordinary, also run 'verify_capitalization' for equipment, vehicles and anything costing more than $2,500. If it must be capitalized, do NOT present it as a deductible current expense; present the depreciation plans the tool returns (MACRS, bonus, Section 179) with their first-year deductions.
+13. **Special Rules**: After an expense passes 'verify_ordinary', also run the matching special-rule check: 'verify_meals' for food, beverages or entertainment; 'verify_vehicle_use' for car or truck operating costs and mileage; 'verify_home_office' for a home office. Report the deductible amount the tool returns, not the amount spent.
 
 PROCESS:
 - Receive user intent (text or document upload).
@@ -60,8 +78,9 @@ const verifyOrdinaryTool: FunctionDeclaration = {
   parameters: {
     type: Type.OBJECT,
     properties: {
-      naics_code: { type: Type.STRING, description: 'The 6-digit NAICS code (e.g., 238350 for Carpenters).' },
-      expense_item: { type: Type.STRING, description: 'The item or category being purchased.' }
+      naics_code: { type: Type.STRING, description: 'The 6-digit NAICS code (e.g., 238350 for Carpenters). Rules for parent codes (2383, 238, 23) apply to it.' },
+      expense_item: { type: Type.STRING, description: 'The item or category being purchased, in the user\'s own words. A loose match to a category comes back indeterminate for review.' },
+      as_of: { type: Type.STRING, description: 'Optional transaction date (YYYY-MM-DD). Evaluates under the statute text in force on that date; the result records the version used.' }
     },
     required: ['naics_code', 'expense_item']
   }
@@ -69,30 +88,221 @@ const verifyOrdinaryTool: FunctionDeclaration = {
 
 const verifyNecessaryTool: FunctionDeclaration = {
   name: 'verify_necessary',
-  description: 'Checks if an expense is "necessary" (financially reasonable) based on revenue ratios.',
+  description: 'Checks if an expense is "necessary" (financially reasonable) against the industry necessity policy: a per-NAICS expense-to-revenue threshold, industry benchmarks, multi-year revenue averaging, and start-up (no revenue) handling.',
   parameters: {
     type: Type.OBJECT,
     properties: {
       expense_amount: { type: Type.NUMBER, description: 'Cost of the item in USD.' },
-      business_revenue: { type: Type.NUMBER, description: 'Total annual gross revenue in USD.' }
+      business_revenue: { type: Type.NUMBER, description: 'Total annual gross revenue in USD for the current year (0 for a start-up year).' },
+      prior_year_revenue: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'Optional gross revenue for prior years, most recent first, for multi-year averaging.' },
+      naics_code: { type: Type.STRING, description: 'Optional NAICS code; selects the industry threshold and benchmarks.' },
+      expense_item: { type: Type.STRING, description: 'Optional item or category; selects the category benchmark.' },
+      as_of: { type: Type.STRING, description: 'Optional transaction date (YYYY-MM-DD). Evaluates under the statute text in force on that date; the result records the version used.' }
     },
     required: ['expense_amount', 'business_revenue']
   }
 };
 
+const verifyCapitalizationTool: FunctionDeclaration = {
+  name: 'verify_capitalization',
+  description: 'Checks if an expense is deductible now or must be capitalized under IRC 263(a) (materials and supplies, de minimis safe harbor). For a capital asset, returns depreciation schedules under MACRS (IRC 168), bonus depreciation (IRC 168(k)) and Section 179 expensing.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      expense_amount: { type: Type.NUMBER, description: 'Cost of the item in USD (per unit, or per invoice for the de minimis safe harbor).' },
+      expense_item: { type: Type.STRING, description: 'The item or category being purchased.' },
+      naics_code: { type: Type.STRING, description: 'Optional NAICS code; some industries have their own asset class (e.g., 23 Construction).' },
+      useful_life_months: { type: Type.NUMBER, description: 'Optional economic useful life in months; 12 or less is a material or supply.' },
+      has_applicable_financial_statement: { type: Type.BOOLEAN, description: 'Optional. True if the taxpayer has an audited or SEC-filed financial statement (raises the de minimis limit).' },
+      as_of: { type: Type.STRING, description: 'Optional placed-in-service date (YYYY-MM-DD). Selects the bonus rate, Section 179 limit and statute text in force; defaults to today.' }
+    },
+    required: ['expense_amount', 'expense_item']
+  }
+};
+
+const verifyMealsTool: FunctionDeclaration = {
+  name: 'verify_meals',
+  description: 'Applies IRC 274 to food, beverages and entertainment: the 50% limit (274(n)), its exceptions (274(e)), the temporary 100% restaurant rule, the attendance and lavishness rules (274(k)), and the post-2017 entertainment disallowance. Returns the deductible amount.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      amount: { type: Type.NUMBER, description: 'Amount paid in USD.' },
+      date: { type: Type.STRING, description: 'Date paid or incurred (YYYY-MM-DD).' },
+      kind: {
+        type: Type.STRING,
+        enum: ['business_meal', 'travel_meal', 'entertainment', 'included_in_compensation', 'employee_social_event', 'available_to_public', 'sold_to_customers'],
+        description: 'business_meal: with a client or business contact; travel_meal: while away from home overnight; entertainment: tickets, golf, shows; the rest are IRC 274(e) exceptions.'
+      },
+      from_restaurant: { type: Type.BOOLEAN, description: 'True if the food or beverages were provided by a restaurant.' },
+      taxpayer_present: { type: Type.BOOLEAN, description: 'True if the taxpayer or an employee was present.' },
+      lavish: { type: Type.BOOLEAN, description: 'True if the expense was lavish or extravagant under the circumstances.' },
+      business_purpose: { type: Type.STRING, description: 'The business purpose and who attended, as recorded by the taxpayer.' }
+    },
+    required: ['amount', 'date', 'kind']
+  }
+};
+
+const verifyVehicleUseTool: FunctionDeclaration = {
+  name: 'verify_vehicle_use',
+  description: 'Computes the deductible vehicle expense for a tax year under the standard mileage rate or the business-use share of actual expenses, applying the standard-rate eligibility rules (Rev. Proc. 2019-46). Without a method, returns the larger allowed deduction.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      date: { type: Type.STRING, description: 'A date in the tax year (YYYY-MM-DD); selects the mileage rate.' },
+      business_miles: { type: Type.NUMBER, description: 'Business miles driven in the year.' },
+      total_miles: { type: Type.NUMBER, description: 'Total miles driven in the year, from the mileage log.' },
+      actual_expenses: { type: Type.NUMBER, description: 'Optional total actual vehicle costs for the year (fuel, repairs, insurance, registration, lease or depreciation).' },
+      parking_tolls: { type: Type.NUMBER, description: 'Optional business parking and tolls, deductible under either method.' },
+      method: { type: Type.STRING, enum: ['standard', 'actual'], description: 'Optional method the taxpayer is using.' },
+      vehicles_in_service: { type: Type.NUMBER, description: 'Optional number of vehicles the business uses at the same time.' },
+      prior_accelerated_depreciation: { type: Type.BOOLEAN, description: 'True if MACRS, Section 179 or bonus depreciation was already claimed on this vehicle.' }
+    },
+    required: ['date', 'business_miles']
+  }
+};
+
+const verifyHomeOfficeTool: FunctionDeclaration = {
+  name: 'verify_home_office',
+  description: 'Applies IRC 280A to a home office: regular and exclusive use, the qualifying uses (principal place of business, meeting clients, separate structure), the employee disallowance, and the simplified ($5/sq ft) or regular method capped at business income.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      date: { type: Type.STRING, description: 'A date in the tax year (YYYY-MM-DD).' },
+      office_sq_ft: { type: Type.NUMBER, description: 'Square feet used for the business.' },
+      home_sq_ft: { type: Type.NUMBER, description: 'Total square feet of the home.' },
+      regular_exclusive_use: { type: Type.BOOLEAN, description: 'True if the space is used regularly and only for the business.' },
+      use: { type: Type.STRING, enum: ['principal_place', 'meets_clients', 'separate_structure', 'other'], description: 'How the space is used in the business.' },
+      is_employee: { type: Type.BOOLEAN, description: 'True if the taxpayer works from the home office as an employee rather than self-employed.' },
+      home_expenses: { type: Type.NUMBER, description: 'Optional whole-home expenses for the year (mortgage interest, taxes, insurance, utilities, repairs, depreciation).' },
+      business_income: { type: Type.NUMBER, description: 'Optional gross income from the business less its expenses not tied to the home (the IRC 280A(c)(5) limit).' },
+      method: { type: Type.STRING, enum: ['simplified', 'regular'], description: 'Optional method the taxpayer is using.' }
+    },
+    required: ['date', 'office_sq_ft', 'home_sq_ft', 'regular_exclusive_use', 'use']
+  }
+};
+
+// Indorsement history, shared by the negotiability and holder in due course tools
+const indorsementChainProperties = {
+  indorsements: {
+    type: Type.ARRAY,
+    description: 'Optional. Each indorsement on the instrument or an allonge, in the order signed. Give these to trace the chain to the person entitled to enforce (UCC 3-301).',
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        indorser: { type: Type.STRING, description: 'Who signed the indorsement, as written.' },
+        kind: { type: Type.STRING, enum: [...INDORSEMENT_KINDS], description: 'special names an indorsee ("Pay to X"); blank is a bare signature; restrictive adds words like "for deposit only"; anomalous is signed by someone who is not the holder, e.g. an accommodation party.' },
+        indorsee: { type: Type.STRING, description: 'Special or restrictive: the person it is made payable to.' },
+        restriction: { type: Type.STRING, description: 'Restrictive: the words used, verbatim.' },
+        date: { type: Type.STRING, description: 'Optional date of the indorsement (YYYY-MM-DD).' },
+        on_allonge: { type: Type.BOOLEAN, description: 'True if signed on a separate paper rather than the instrument itself.' },
+        affixed: { type: Type.BOOLEAN, description: 'Allonge only: true if the paper was affixed to the instrument.' }
+      },
+      required: ['indorser', 'kind']
+    }
+  },
+  possessor: { type: Type.STRING, description: 'Optional. Who has the instrument now.' },
+  transfer_proven: { type: Type.BOOLEAN, description: 'Optional. True if a possessor who is not the holder can prove each transfer to it.' },
+  lost: {
+    type: Type.OBJECT,
+    description: 'Optional, when no one has the instrument: the person claiming to enforce it as lost, destroyed or stolen (UCC 3-309).',
+    properties: {
+      claimant: { type: Type.STRING, description: 'Who seeks to enforce it.' },
+      in_possession_when_lost: { type: Type.BOOLEAN, description: 'True if the claimant had it and was entitled to enforce it when possession was lost.' },
+      transferred_or_seized: { type: Type.BOOLEAN, description: 'True if possession was lost by the claimant\'s own transfer or a lawful seizure.' },
+      cannot_obtain: { type: Type.BOOLEAN, description: 'True if it was destroyed, cannot be found, or is held by someone who cannot be found or served.' }
+    },
+    required: ['claimant']
+  }
+};
+
+// The chain fields of a tool call, when any were given
+const chainArgs = (args: Record<string, unknown>): ChainInput | undefined =>
+  args['indorsements'] || args['possessor'] || args['lost']
+    ? { indorsements: (args['indorsements'] as ChainInput['indorsements'] | undefined) || [], possessor: args['possessor'] as string | undefined, transfer_proven: args['transfer_proven'] as boolean | undefined, lost: args['lost'] as ChainInput['lost'] }
+    : undefined;
+
 const verifyNegotiabilityTool: FunctionDeclaration = {
   name: 'verify_negotiability',
-  description: 'Checks if a set of terms constitutes a Negotiable Instrument under UCC 3-104.',
+  description: 'Checks if an instrument is a Negotiable Instrument under UCC 3-104. The engine extracts the terms from the instrument text itself and cites the words that decide each one; your reading of the terms is only compared against it. Carve-outs under UCC 3-104(a)(3), 3-106, 3-108, 3-112(b) and 3-113 are returned as sub-rule steps. Given the indorsements, it also traces the chain (UCC 3-204 to 3-206) and names the person entitled to enforce (UCC 3-301).',
   parameters: {
     type: Type.OBJECT,
     properties: {
-      promise_type: { type: Type.STRING, enum: ['conditional', 'unconditional'], description: 'Is the promise to pay conditional?' },
-      amount_type: { type: Type.STRING, enum: ['fixed', 'variable'], description: 'Is the amount fixed?' },
-      payable_to: { type: Type.STRING, enum: ['bearer', 'order', 'specific_person'], description: 'Who is it payable to?' },
-      timing: { type: Type.STRING, enum: ['demand', 'definite', 'indefinite'], description: 'When is it payable?' },
-      other_undertakings: { type: Type.BOOLEAN, description: 'Are there other undertakings besides payment?' }
+      instrument_text: { type: Type.STRING, description: 'The full text of the note, draft or check, transcribed word for word. Do not summarize or paraphrase.' },
+      promise_type: { type: Type.STRING, enum: ['conditional', 'unconditional'], description: 'Your reading: is the promise to pay conditional?' },
+      amount_type: { type: Type.STRING, enum: ['fixed', 'variable'], description: 'Your reading: is the amount fixed?' },
+      payable_to: { type: Type.STRING, enum: ['bearer', 'order', 'specific_person'], description: 'Your reading: who is it payable to?' },
+      timing: { type: Type.STRING, enum: ['demand', 'definite', 'indefinite'], description: 'Your reading: when is it payable?' },
+      other_undertakings: { type: Type.BOOLEAN, description: 'Your reading: are there other undertakings besides payment?' },
+      jurisdiction: { type: Type.STRING, description: 'Optional governing state; flags where its enacted Article 3 departs from the model text.' },
+      as_of: { type: Type.STRING, description: 'Optional issue date of the instrument (YYYY-MM-DD). Evaluates under the Article 3 text in force on that date.' },
+      ...indorsementChainProperties
     },
-    required: ['promise_type', 'amount_type', 'payable_to', 'timing', 'other_undertakings']
+    required: ['instrument_text']
+  }
+};
+
+const classifyInstrumentTool: FunctionDeclaration = {
+  name: 'classify_instrument',
+  description: "Classifies a negotiable instrument under UCC 3-104(e)-(j) as a note, draft, check, cashier's check, teller's check, traveler's check or certificate of deposit, and names each party's capacity (maker, drawer, drawee, payee) with the liability it carries. Negotiability is checked first; a non-negotiable writing is not classified.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      instrument_text: { type: Type.STRING, description: 'The full text of the instrument, transcribed word for word, including any headings, bank names and signature lines.' },
+      jurisdiction: { type: Type.STRING, description: 'Optional governing state.' },
+      as_of: { type: Type.STRING, description: 'Optional issue date of the instrument (YYYY-MM-DD).' }
+    },
+    required: ['instrument_text']
+  }
+};
+
+const verifyHolderInDueCourseTool: FunctionDeclaration = {
+  name: 'verify_holder_in_due_course',
+  description: 'Decides under UCC 3-302 whether each transferee in the chain is a holder in due course, in its own right or by the shelter rule (UCC 3-203(b)), and which of the obligor\'s defenses survive against the final holder under UCC 3-305. The FTC Holder Rule (16 CFR 433.2) overrides on a consumer credit contract. Negotiability is read from the instrument text first.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      instrument_text: { type: Type.STRING, description: 'The full text of the instrument, transcribed word for word, including any notice preserving claims and defenses.' },
+      transfers: {
+        type: Type.ARRAY,
+        description: 'Each taking of the instrument in order, starting with the payee if it took by issue. Leave a fact out when it is not known; it is never presumed.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            transferee: { type: Type.STRING, description: 'Who took the instrument.' },
+            value_given: { type: Type.BOOLEAN, description: 'True if the transferee gave value for it.' },
+            good_faith: { type: Type.BOOLEAN, description: 'True if the transferee took in good faith (honesty in fact and reasonable commercial standards of fair dealing).' },
+            notice_overdue_or_dishonored: { type: Type.BOOLEAN, description: 'True if the transferee knew or had reason to know the instrument was overdue or dishonored.' },
+            notice_of_alteration: { type: Type.BOOLEAN, description: 'True if the transferee had notice of an unauthorized signature or alteration.' },
+            notice_of_claim: { type: Type.BOOLEAN, description: 'True if the transferee had notice of a claim of ownership to the instrument.' },
+            notice_of_defense: { type: Type.BOOLEAN, description: 'True if the transferee had notice of any party\'s defense or claim in recoupment.' },
+            irregular: { type: Type.BOOLEAN, description: 'True if the instrument bore apparent evidence of forgery or alteration, or was incomplete, when taken.' },
+            acquired_by: { type: Type.STRING, enum: ['purchase', 'legal_process', 'bulk_transaction', 'succession'], description: 'How it was taken; defaults to purchase.' },
+            fraud_or_illegality: { type: Type.BOOLEAN, description: 'True if the transferee took part in fraud or illegality affecting the instrument.' }
+          },
+          required: ['transferee']
+        }
+      },
+      defenses: {
+        type: Type.ARRAY,
+        description: 'Defenses and claims in recoupment the obligor asserts.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            kind: { type: Type.STRING, enum: [...DEFENSE_KINDS], description: 'The defense.' },
+            description: { type: Type.STRING, description: 'Optional short statement of the facts.' },
+            nullifies: { type: Type.BOOLEAN, description: 'Duress, incapacity or illegality only: true if other law makes the obligation void rather than voidable.' },
+            same_transaction: { type: Type.BOOLEAN, description: 'Recoupment only: true if the claim arose from the transaction that gave rise to the instrument.' }
+          },
+          required: ['kind']
+        }
+      },
+      consumer_credit: { type: Type.BOOLEAN, description: 'True if the instrument is a consumer credit contract from a sale or lease of goods or services to a consumer.' },
+      amount_paid: { type: Type.NUMBER, description: 'Optional amount the debtor has paid; caps recovery under the FTC Holder Rule.' },
+      jurisdiction: { type: Type.STRING, description: 'Optional governing state.' },
+      as_of: { type: Type.STRING, description: 'Optional date of the last transfer (YYYY-MM-DD).' },
+      ...indorsementChainProperties
+    },
+    required: ['instrument_text', 'transfers', 'defenses']
   }
 };
 
@@ -111,16 +321,31 @@ const analyzeRisksTool: FunctionDeclaration = {
 
 const consultStatuteTool: FunctionDeclaration = {
   name: 'consult_statute',
-  description: 'Retrieves raw statutory text from the Law Library (RAG) to verify assertions.',
+  description: 'Retrieves raw statutory text from the Law Library (RAG) to verify assertions. Returns the best-ranked section plus scored runners-up in "related", and its cross-references: "references" (sections it cites) and "referenced_by" (sections citing it). Follow these citations to trace definitional chains.',
   parameters: {
     type: Type.OBJECT,
     properties: {
-      query: { type: Type.STRING, description: 'The statute name or keywords (e.g., "UCC 3-104", "Confession of Judgment")' }
+      query: { type: Type.STRING, description: 'The statute name, keywords or a plain-language question (e.g., "UCC 3-104", "Confession of Judgment", "can they make me pay if they sue me"). Pinpoint citations like "UCC 3-104(a)(2)" return only that paragraph with its parent chain.' },
+      jurisdiction: { type: Type.STRING, description: 'Optional state (e.g., "NY" or "New York"). Returns the state-adopted version and a note on how it differs from the model text.' },
+      as_of: { type: Type.STRING, description: 'Optional date (YYYY-MM-DD). Returns the text in force on that date instead of the current text; "version" identifies which.' }
     },
     required: ['query']
   }
 };
 
+const defineTermTool: FunctionDeclaration = {
+  name: 'define_term',
+  description: 'Returns the statutory definition of a term (e.g., "holder", "collateral", "consumer") from the definitions sections of the Law Library (UCC 1-201, 9-102, 16 CFR 444.1), with the scope it governs and its source paragraph.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      term: { type: Type.STRING, description: 'The term to define, singular or plural.' },
+      context: { type: Type.STRING, description: 'Optional citation the term appears in (e.g., "UCC 9-203"). Limits results to definitions whose scope covers that section.' }
+    },
+    required: ['term']
+  }
+};
+
 const draftFormTool: FunctionDeclaration = {
   name: 'draft_verified_form',
   description: 'Generates a validated legal form template (Promissory Note, Security Agreement, Bill of Sale, etc.).',
@@ -159,16 +384,52 @@ export interface CriticResponse {
   critique: string;
 }
 
+// Filled from the active taxpayer profile, so the model neither asks for nor supplies them
+const PROFILE_BOUND_PARAMETERS = ['naics_code', 'business_revenue', 'prior_year_revenue'];
+
+const bindToProfile = (tool: FunctionDeclaration): FunctionDeclaration => ({
+  ...tool,
+  parameters: {
+    ...tool.parameters!,
+    properties: Object.fromEntries(Object.entries(tool.parameters!.properties || {}).filter(([key]) => !PROFILE_BOUND_PARAMETERS.includes(key))),
+    required: (tool.parameters!.required || []).filter(key => !PROFILE_BOUND_PARAMETERS.includes(key)),
+  }
+});
+
+const decodeTextAttachment = (dataUri: string): string | undefined => {
+  const match = dataUri.match(/^data:text\/plain[^,]*;base64,(.+)$/);
+  return match ? new TextDecoder().decode(decodeBase64(match[1])) : undefined;
+};
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Ledger status for a rule outcome: missing data is a review item, not an error
+const AUDIT_STATUS: Record<ValidationOutcome, AuditEntry['status']> = {
+  passed: 'Verified',
+  failed: 'Error',
+  indeterminate: 'Review',
+};
+
+// Ledger metadata the Case Map reads back: instrument parties and indorsement chains
+const auditMetadata = (step: ValidationStep): ArbiterMetadata | undefined =>
+  step.instrument_class || step.indorsement_chain
+    ? { ...(step.instrument_class ? { instrument: step.instrument_class } : {}), ...(step.indorsement_chain ? { indorsement_chain: step.indorsement_chain } : {}) }
+    : undefined;
+
 // 1. Chat with Legal Advisor (Text + Image Analysis + TTS + Tools)
 export const sendLegalMessage = async (
   history: Message[],
   newMessage: string,
   images: string[] = [],
-  logAudit?: (action: string, details: string, source: AuditEntry['source'], status?: AuditEntry['status']) => void,
-  isShadowCounsel: boolean = false
+  logAudit?: (action: string, details: string, source: AuditEntry['source'], status?: AuditEntry['status'], metadata?: ArbiterMetadata) => void,
+  isShadowCounsel: boolean = false,
+  profile?: TaxpayerProfile
 ): Promise<ChatResponse> => {
   const ai = getClient();
   const modelId = isShadowCounsel ? "gemini-3-pro-preview" : "gemini-2.5-flash";
+  const systemInstruction = profile
+    ? `${LEGAL_SYSTEM_INSTRUCTION}\nACTIVE TAXPAYER PROFILE: ${describeProfile(profile)}.\nThe expense tools read the NAICS code and gross revenue from this profile. Do not ask the user for them and do not pass them.\n`
+    : LEGAL_SYSTEM_INSTRUCTION;
 
   // Prepare initial contents
   const contents = history.map((msg) => {
@@ -211,23 +472,50 @@ export const sendLegalMessage = async (
     parts: currentParts,
   });
 
+  // Plain-text uploads are read directly, so the extractor never depends on the model's copy of them
+  const attachedTexts = [...history.flatMap(msg => msg.images || []), ...images]
+    .map(decodeTextAttachment)
+    .filter((text): text is string => !!text?.trim());
+
+  const instrumentSource = (transcribed: string): { text: string; source: string } => {
+    if (attachedTexts.length === 0) return { text: transcribed, source: 'the model\'s transcription (scan or PDF)' };
+    if (transcribed.trim() && attachedTexts.some(text => normalizeWhitespace(text).includes(normalizeWhitespace(transcribed)))) {
+      return { text: transcribed, source: 'the uploaded text (transcription matched verbatim)' };
+    }
+    return { text: attachedTexts.join('\n\n'), source: 'the uploaded text (the model\'s transcription did not match it and was not used)' };
+  };
+
   // --- POLICY ENGINE STATE ---
   let toolsPolicyState = {
     ordinaryPassed: false
   };
 
+  const bound = (tool: FunctionDeclaration) => (profile ? bindToProfile(tool) : tool);
+
+  // With a profile active its NAICS code applies, whatever the model passes
+  const naicsFor = (args: Record<string, unknown>): string | undefined => {
+      if (!profile) return args['naics_code'] as string | undefined;
+      if (args['naics_code'] && args['naics_code'] !== profile.naics && logAudit) {
+          logAudit('Profile Override', `Ignored NAICS ${args['naics_code']} from the model; the profile's ${profile.naics} applies`, 'System', 'Review');
+      }
+      return profile.naics;
+  };
+
   const getAllowedTools = (): Tool[] => {
       const declarations: FunctionDeclaration[] = [
-          verifyOrdinaryTool, 
+          bound(verifyOrdinaryTool), 
           verifyNegotiabilityTool, 
+          classifyInstrumentTool,
+          verifyHolderInDueCourseTool,
           analyzeRisksTool, 
           draftFormTool,
-          consultStatuteTool
+          consultStatuteTool,
+          defineTermTool
       ];
       
-      // Dynamic Policy: Necessity check only if Ordinary passed (for expenses)
+      // Dynamic Policy: Necessity, capitalization and special-rule checks only if Ordinary passed (for expenses)
       if (toolsPolicyState.ordinaryPassed) {
-          declarations.push(verifyNecessaryTool);
+          declarations.push(bound(verifyNecessaryTool), bound(verifyCapitalizationTool), verifyMealsTool, verifyVehicleUseTool, verifyHomeOfficeTool);
       }
       
       return [{ functionDeclarations: declarations }];
@@ -242,7 +530,7 @@ export const sendLegalMessage = async (
     model: modelId,
     contents: contents,
     config: {
-      systemInstruction: LEGAL_SYSTEM_INSTRUCTION,
+      systemInstruction,
       tools: getAllowedTools(),
     },
   });
@@ -267,17 +555,68 @@ export const sendLegalMessage = async (
 
       try {
         if (name === 'verify_ordinary') {
-          if (logAudit) logAudit('Verification: Ordinary', `Checking '${args['expense_item']}' against NAICS ${args['naics_code']}`, 'Arbiter', 'Pending');
-          result = await verifyOrdinary(args['naics_code'] as string, args['expense_item'] as string);
-          if (result.passed) toolsPolicyState.ordinaryPassed = true;
+          const naics = naicsFor(args) || '';
+          if (logAudit) logAudit('Verification: Ordinary', `Checking '${args['expense_item']}' against NAICS ${naics}`, 'Arbiter', 'Pending');
+          result = await verifyOrdinary(naics, args['expense_item'] as string, args['as_of'] as string | undefined);
+          // The gate follows the latest ordinary check: an item sent to review closes it again
+          toolsPolicyState.ordinaryPassed = result.outcome === 'passed';
         } 
         else if (name === 'verify_necessary') {
           if (logAudit) logAudit('Verification: Necessary', `Analyzing financial ratio for $${args['expense_amount']} expense`, 'Arbiter', 'Pending');
-          result = await verifyNecessary(args['expense_amount'] as number, args['business_revenue'] as number);
+          const asOf = args['as_of'] as string | undefined;
+          let revenue = [args['business_revenue'] as number, ...((args['prior_year_revenue'] as number[] | undefined) || [])];
+          if (profile) {
+            const onFile = profileRevenue(profile, asOf || new Date().toISOString().slice(0, 10));
+            if (onFile.revenue.length === 0 && logAudit) logAudit('Profile Gap', `${profile.name} has no gross revenue on file for fiscal ${onFile.fiscal_year}`, 'System', 'Review');
+            revenue = onFile.revenue;
+          }
+          result = await verifyNecessary(
+            args['expense_amount'] as number,
+            revenue,
+            asOf,
+            { naics: naicsFor(args), category: args['expense_item'] as string | undefined }
+          );
+        }
+        else if (name === 'verify_capitalization') {
+          if (logAudit) logAudit('Verification: Capitalization', `Checking IRC 263(a) treatment of '${args['expense_item']}' at $${args['expense_amount']}`, 'Arbiter', 'Pending');
+          result = await verifyCapitalization(
+            args['expense_amount'] as number,
+            args['expense_item'] as string,
+            args['as_of'] as string | undefined,
+            {
+              naics: naicsFor(args),
+              useful_life_months: args['useful_life_months'] as number | undefined,
+              has_afs: args['has_applicable_financial_statement'] as boolean | undefined
+            }
+          );
+        }
+        else if (name === 'verify_meals') {
+          if (logAudit) logAudit('Verification: Meals', `Applying IRC 274 to $${args['amount']} (${args['kind']})`, 'Arbiter', 'Pending');
+          result = await verifyMeals(args as unknown as MealInput);
+        }
+        else if (name === 'verify_vehicle_use') {
+          if (logAudit) logAudit('Verification: Vehicle Use', `Comparing mileage methods for ${args['business_miles']} business miles`, 'Arbiter', 'Pending');
+          result = await verifyVehicleUse(args as unknown as VehicleInput);
+        }
+        else if (name === 'verify_home_office') {
+          if (logAudit) logAudit('Verification: Home Office', `Applying IRC 280A to ${args['office_sq_ft']} of ${args['home_sq_ft']} sq ft`, 'Arbiter', 'Pending');
+          result = await verifyHomeOffice(args as unknown as HomeOfficeInput);
         }
         else if (name === 'verify_negotiability') {
-            if (logAudit) logAudit('UCC 3-104 Check', 'Validating negotiable instrument requirements...', 'Arbiter', 'Pending');
-            result = await verifyNegotiability(args as unknown as InstrumentTerms);
+            const instrument = instrumentSource((args['instrument_text'] as string | undefined) || '');
+            if (logAudit) logAudit('UCC 3-104 Check', `Extracting negotiability terms from ${instrument.source}`, 'Arbiter', 'Pending');
+            result = await verifyInstrumentText(instrument.text, args as Partial<InstrumentTerms>, args['jurisdiction'] as string | undefined, args['as_of'] as string | undefined, chainArgs(args));
+        }
+        else if (name === 'classify_instrument') {
+            const instrument = instrumentSource((args['instrument_text'] as string | undefined) || '');
+            if (logAudit) logAudit('UCC 3-104 Classification', `Classifying the instrument from ${instrument.source}`, 'Arbiter', 'Pending');
+            result = await classifyInstrument(instrument.text, args['jurisdiction'] as string | undefined, args['as_of'] as string | undefined);
+        }
+        else if (name === 'verify_holder_in_due_course') {
+            const instrument = instrumentSource((args['instrument_text'] as string | undefined) || '');
+            const input = args as unknown as HolderInput;
+            if (logAudit) logAudit('UCC 3-302 Holder Analysis', `Tracing ${(input.transfers || []).length} transfer(s) of the instrument from ${instrument.source}`, 'Arbiter', 'Pending');
+            result = await verifyHolderInDueCourse(instrument.text, { ...input, transfers: input.transfers || [], defenses: input.defenses || [], chain: chainArgs(args) }, args['jurisdiction'] as string | undefined, args['as_of'] as string | undefined);
         }
         else if (name === 'analyze_clause_risks') {
             if (logAudit) logAudit('Risk Analysis', 'Scanning clause against USC/UCC/Common Law...', 'Arbiter', 'Pending');
@@ -285,7 +624,11 @@ export const sendLegalMessage = async (
         }
         else if (name === 'consult_statute') {
             if (logAudit) logAudit('Law Library Retrieval', `Fetching raw text for '${args['query']}'`, 'System', 'Pending');
-            result = await consultStatute(args['query'] as string);
+            result = await consultStatute(args['query'] as string, { jurisdiction: args['jurisdiction'] as string | undefined, asOf: args['as_of'] as string | undefined });
+        }
+        else if (name === 'define_term') {
+            if (logAudit) logAudit('Definitions Lookup', `Resolving statutory definition of '${args['term']}'`, 'System', 'Pending');
+            result = await defineTerm(args['term'] as string, args['context'] as string | undefined);
         }
         else if (name === 'draft_verified_form') {
             if (logAudit) logAudit('Form Generation', `Drafting validated ${args['form_type']}...`, 'Arbiter', 'Pending');
@@ -298,12 +641,13 @@ export const sendLegalMessage = async (
         }
 
         // Log result to Audit
-        if (logAudit && name !== 'consult_statute') {
+        if (logAudit && name !== 'consult_statute' && name !== 'define_term') {
             logAudit(
                 `Result: ${name.replace('verify_', '').replace('analyze_', '')}`, 
                 result.details, 
                 'Arbiter', 
-                result.passed ? 'Verified' : 'Error'
+                AUDIT_STATUS[(result as ValidationStep).outcome] || 'Error',
+                auditMetadata(result as ValidationStep)
             );
         }
 
@@ -338,7 +682,7 @@ export const sendLegalMessage = async (
         model: modelId,
         contents: contents,
         config: {
-            systemInstruction: LEGAL_SYSTEM_INSTRUCTION,
+            systemInstruction,
             tools: getAllowedTools(),
         },
     });
@@ -408,7 +752,67 @@ export const runArbiterAudit = async (adviceText: string): Promise<CriticRespons
   }
 };
 
-// 3. Generate High-Quality Images
+// 3. Extract a Receipt or Invoice into typed fields (validated in receipts.ts)
+const RECEIPT_EXTRACTION_INSTRUCTION = `
+Extract the receipt or invoice in the attachment. Transcribe; do not infer.
+- vendor: the merchant or supplier name.
+- date: the transaction or invoice date as YYYY-MM-DD.
+- line_items: every purchased item, with its description as printed, its quantity when one is printed, and its extended price (quantity x unit price) before tax. Do not list tax, tips, subtotals or payments as items.
+- tax: total sales tax (0 if none is shown).
+- total: the amount charged.
+`;
+
+export const extractReceipt = async (attachment: string): Promise<ParsedReceipt> => {
+  const match = attachment.match(/^data:(.+);base64,(.+)$/);
+  if (!match) throw new ReceiptExtractionError('Attachment is not a base64 data URI');
+
+  const ai = getClient();
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: {
+      parts: [
+        { text: 'Extract this receipt.' },
+        { inlineData: { mimeType: match[1], data: match[2] } }
+      ]
+    },
+    config: {
+      systemInstruction: RECEIPT_EXTRACTION_INSTRUCTION,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          vendor: { type: Type.STRING },
+          date: { type: Type.STRING, description: "YYYY-MM-DD" },
+          line_items: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                description: { type: Type.STRING },
+                quantity: { type: Type.NUMBER },
+                amount: { type: Type.NUMBER, description: "Extended price before tax" }
+              },
+              required: ['description', 'amount']
+            }
+          },
+          tax: { type: Type.NUMBER },
+          total: { type: Type.NUMBER }
+        },
+        required: ['vendor', 'date', 'line_items', 'tax', 'total']
+      }
+    }
+  });
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(response.text || "");
+  } catch {
+    throw new ReceiptExtractionError('Extraction did not return JSON');
+  }
+  return parseReceipt(raw);
+};
+
+// 4. Generate High-Quality Images
 export const generateContractImage = async (
   prompt: string,
   size: ImageSize
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateHolderInDueCourse, type HolderContext, type TransferInput } from './holderInDueCourse';
+
+const NEGOTIABLE: HolderContext = { negotiability: 'passed', claims_preserved: false, holder_rule_in_force: true };
+
+// Meets every UCC 3-302(a) requirement
+const due = (transferee: string): TransferInput => ({
+  transferee, value_given: true, good_faith: true, irregular: false, notice_overdue_or_dishonored: false,
+  notice_of_alteration: false, notice_of_claim: false, notice_of_defense: false,
+});
+
+describe('evaluateHolderInDueCourse', () => {
+  it('shelters a transferee who takes from a holder in due course', () => {
+    const result = evaluateHolderInDueCourse({
+      transfers: [due('Bank'), { ...due('Collector'), notice_of_defense: true, fraud_or_illegality: false }],
+      defenses: [{ kind: 'fraud_in_the_inducement' }],
+    }, NEGOTIABLE);
+    expect(result.transferees.map(t => t.status)).toEqual(['holder_in_due_course', 'sheltered']);
+    expect(result.holder).toBe('Collector');
+    expect(result.status).toBe('sheltered');
+    expect(result.transferees[1].sources).toContain('UCC 3-203(b)');
+    expect(result.defenses[0].outcome).toBe('failed');
+  });
+
+  it('keeps shelter available past a later transferee without rights of its own', () => {
+    const result = evaluateHolderInDueCourse({
+      transfers: [due('Bank'), { ...due('Heir'), acquired_by: 'succession', fraud_or_illegality: false }, { ...due('Buyer'), value_given: false, fraud_or_illegality: false }],
+      defenses: [],
+    }, NEGOTIABLE);
+    expect(result.transferees.map(t => t.status)).toEqual(['holder_in_due_course', 'sheltered', 'sheltered']);
+  });
+
+  it('denies shelter to a transferee who took part in fraud or illegality', () => {
+    const result = evaluateHolderInDueCourse({
+      transfers: [due('Bank'), { ...due('Payee'), notice_of_defense: true, fraud_or_illegality: true }],
+      defenses: [{ kind: 'failure_of_consideration' }],
+    }, NEGOTIABLE);
+    expect(result.status).toBe('not_holder_in_due_course');
+    expect(result.transferees[1].details).toContain('fraud or illegality');
+    expect(result.defenses[0].outcome).toBe('passed');
+  });
+
+  it('leaves shelter open when fraud or illegality is not stated', () => {
+    const result = evaluateHolderInDueCourse({
+      transfers: [due('Bank'), { ...due('Collector'), good_faith: false }],
+      defenses: [{ kind: 'nonperformance' }],
+    }, NEGOTIABLE);
+    expect(result.status).toBe('indeterminate');
+    expect(result.defenses[0].outcome).toBe('indeterminate');
+  });
+
+  it('gives no shelter when no earlier transferee had holder in due course rights', () => {
+    const result = evaluateHolderInDueCourse({
+      transfers: [{ ...due('Payee'), notice_of_defense: true }, { ...due('Collector'), value_given: false, fraud_or_illegality: false }],
+      defenses: [],
+    }, NEGOTIABLE);
+    expect(result.transferees.map(t => t.status)).toEqual(['not_holder_in_due_course', 'not_holder_in_due_course']);
+  });
+
+  it('cuts off personal defenses against a holder in due course but not real ones', () => {
+    const result = evaluateHolderInDueCourse({
+      transfers: [due('Bank')],
+      defenses: [
+        { kind: 'fraud_in_the_inducement' },
+        { kind: 'fraud_in_the_factum' },
+        { kind: 'duress', nullifies: true },
+        { kind: 'duress', nullifies: false },
+        { kind: 'incapacity' },
+        { kind: 'recoupment', same_transaction: true },
+      ],
+    }, NEGOTIABLE);
+    expect(result.defenses.map(d => d.outcome)).toEqual(['failed', 'passed', 'passed', 'failed', 'indeterminate', 'failed']);
+    expect(result.defenses.map(d => d.class)).toEqual(['personal', 'real', 'real', 'personal', undefined, 'recoupment']);
+  });
+
+  it('preserves every defense on a consumer credit contract and caps recovery at what was paid', () => {
+    const result = evaluateHolderInDueCourse({
+      transfers: [due('Finance Co')],
+      defenses: [{ kind: 'breach_of_warranty' }, { kind: 'recoupment', same_transaction: true }, { kind: 'recoupment', same_transaction: false }],
+      consumer_credit: true,
+      amount_paid: 1200,
+    }, NEGOTIABLE);
+    expect(result.status).toBe('holder_in_due_course');
+    expect(result.holder_rule).toBe(true);
+    expect(result.recovery_cap).toBe(1200);
+    expect(result.defenses.map(d => d.outcome)).toEqual(['passed', 'passed', 'failed']);
+    expect(result.defenses[0].sources).toContain('16 CFR 433.2');
+    expect(result.defenses[1].details).toContain('$1,200.00');
+  });
+
+  it('applies the Holder Rule only when it was in force and leaves the cap unset without a valid amount paid', () => {
+    const before = evaluateHolderInDueCourse({
+      transfers: [due('Finance Co')], defenses: [{ kind: 'breach_of_warranty' }], consumer_credit: true, amount_paid: 500,
+    }, { ...NEGOTIABLE, holder_rule_in_force: false });
+    expect(before.holder_rule).toBe(false);
+    expect(before.recovery_cap).toBeUndefined();
+    expect(before.defenses[0].outcome).toBe('failed');
+
+    const unpaid = evaluateHolderInDueCourse({
+      transfers: [due('Finance Co')], defenses: [], consumer_credit: true, amount_paid: -1,
+    }, NEGOTIABLE);
+    expect(unpaid.holder_rule).toBe(true);
+    expect(unpaid.recovery_cap).toBeUndefined();
+  });
+
+  it('allows no holder in due course of an instrument that preserves claims and defenses', () => {
+    const result = evaluateHolderInDueCourse({
+      transfers: [due('Bank'), { ...due('Collector'), fraud_or_illegality: false }],
+      defenses: [{ kind: 'failure_of_consideration' }],
+    }, { ...NEGOTIABLE, claims_preserved: true });
+    expect(result.transferees.map(t => t.status)).toEqual(['not_holder_in_due_course', 'not_holder_in_due_course']);
+    expect(result.defenses[0].outcome).toBe('passed');
+  });
+});
@@ -0,0 +1,262 @@
+// UCC 3-302 holder in due course and the UCC 3-305 defenses that survive it. Walks the transfer
+// chain in order: each transferee either takes free of personal defenses in its own right, inherits
+// a predecessor's rights under the shelter rule (UCC 3-203(b)), or takes subject to everything.
+// The FTC Holder Rule (16 CFR 433.2) preserves every defense on a consumer credit contract.
+
+import type { ValidationOutcome } from './legalEngine';
+import type { ChainInput } from './indorsementChain';
+
+// How a transferee came to hold the instrument; the last three never give HDC rights of their own
+export type AcquisitionKind = 'purchase' | 'legal_process' | 'bulk_transaction' | 'succession';
+
+export interface TransferInput {
+  transferee: string;
+  value_given?: boolean;                 // Took for value (UCC 3-303)
+  good_faith?: boolean;
+  notice_overdue_or_dishonored?: boolean;
+  notice_of_alteration?: boolean;        // Notice of an unauthorized signature or alteration
+  notice_of_claim?: boolean;             // Notice of a claim to the instrument (UCC 3-306)
+  notice_of_defense?: boolean;           // Notice of a defense or claim in recoupment (UCC 3-305(a))
+  irregular?: boolean;                   // Bore apparent evidence of forgery or alteration, or was incomplete
+  acquired_by?: AcquisitionKind;         // Defaults to purchase
+  fraud_or_illegality?: boolean;         // Took part in fraud or illegality affecting the instrument (blocks shelter)
+}
+
+export const REAL_DEFENSES = ['infancy', 'duress', 'incapacity', 'illegality', 'fraud_in_the_factum', 'insolvency_discharge'] as const;
+export const PERSONAL_DEFENSES = ['fraud_in_the_inducement', 'failure_of_consideration', 'nonperformance', 'breach_of_warranty', 'other'] as const;
+export const DEFENSE_KINDS = [...REAL_DEFENSES, ...PERSONAL_DEFENSES, 'recoupment'] as const;
+
+export type DefenseKind = typeof DEFENSE_KINDS[number];
+export type DefenseClass = 'real' | 'personal' | 'recoupment';
+
+export interface DefenseInput {
+  kind: DefenseKind;
+  description?: string;
+  nullifies?: boolean;                   // Duress, incapacity, illegality: other law makes the obligation void, not voidable
+  same_transaction?: boolean;            // Recoupment: the claim arose from the transaction that gave rise to the instrument
+}
+
+export interface HolderInput {
+  transfers: TransferInput[];            // In order, starting with the payee if it took by issue
+  defenses: DefenseInput[];              // Asserted by the obligor
+  consumer_credit?: boolean;             // A consumer credit contract under 16 CFR 433
+  amount_paid?: number;                  // Paid by the debtor so far; caps affirmative recovery under the Holder Rule
+  chain?: ChainInput;                    // Indorsements, to check that the final transferee is a holder (UCC 3-301)
+}
+
+// What the instrument's text and the date decide before any transfer is looked at
+export interface HolderContext {
+  negotiability: ValidationOutcome;      // UCC 3-104 outcome for the instrument text
+  claims_preserved: boolean;             // The text carries a UCC 3-106(d) notice
+  holder_rule_in_force: boolean;         // 16 CFR 433.2 was in force on the date
+}
+
+export type HolderStatus = 'holder_in_due_course' | 'sheltered' | 'not_holder_in_due_course' | 'indeterminate';
+
+export interface TransfereeDecision {
+  transferee: string;
+  status: HolderStatus;
+  outcome: ValidationOutcome;            // Passed when the transferee has HDC rights, by its own taking or by shelter
+  details: string;
+  sources: string[];
+}
+
+export interface DefenseDecision {
+  kind: DefenseKind;
+  description?: string;
+  class?: DefenseClass;                  // Undefined when other law has not been applied to it
+  outcome: ValidationOutcome;            // Passed when the obligor may assert it against the final holder
+  details: string;
+  sources: string[];
+}
+
+export interface HolderAnalysis {
+  holder?: string;                       // The final transferee, who would enforce the instrument
+  status: HolderStatus;
+  transferees: TransfereeDecision[];
+  defenses: DefenseDecision[];
+  holder_rule: boolean;                  // The FTC Holder Rule overrode holder-in-due-course status
+  recovery_cap?: number;
+}
+
+export const DEFENSE_LABELS: Record<DefenseKind, string> = {
+  infancy: 'Infancy',
+  duress: 'Duress',
+  incapacity: 'Lack of legal capacity',
+  illegality: 'Illegality of the transaction',
+  fraud_in_the_factum: 'Fraud in the factum',
+  insolvency_discharge: 'Discharge in insolvency proceedings',
+  fraud_in_the_inducement: 'Fraud in the inducement',
+  failure_of_consideration: 'Failure of consideration',
+  nonperformance: 'Nonperformance',
+  breach_of_warranty: 'Breach of warranty',
+  other: 'Defense available on a simple contract',
+  recoupment: 'Claim in recoupment',
+};
+
+const REAL_DEFENSE_SOURCES: Record<typeof REAL_DEFENSES[number], string> = {
+  infancy: 'UCC 3-305(a)(1)(i)',
+  duress: 'UCC 3-305(a)(1)(ii)',
+  incapacity: 'UCC 3-305(a)(1)(ii)',
+  illegality: 'UCC 3-305(a)(1)(ii)',
+  fraud_in_the_factum: 'UCC 3-305(a)(1)(iii)',
+  insolvency_discharge: 'UCC 3-305(a)(1)(iv)',
+};
+
+// The UCC 3-302(a) requirements, with the value that satisfies each
+const REQUIREMENTS: { field: keyof TransferInput; satisfiedBy: boolean; source: string; label: string }[] = [
+  { field: 'irregular', satisfiedBy: false, source: 'UCC 3-302(a)(1)', label: 'the instrument bore no apparent evidence of forgery or alteration and was complete' },
+  { field: 'value_given', satisfiedBy: true, source: 'UCC 3-302(a)(2)(i)', label: 'took for value' },
+  { field: 'good_faith', satisfiedBy: true, source: 'UCC 3-302(a)(2)(ii)', label: 'took in good faith' },
+  { field: 'notice_overdue_or_dishonored', satisfiedBy: false, source: 'UCC 3-302(a)(2)(iii)', label: 'without notice that it was overdue or dishonored' },
+  { field: 'notice_of_alteration', satisfiedBy: false, source: 'UCC 3-302(a)(2)(iv)', label: 'without notice of an unauthorized signature or alteration' },
+  { field: 'notice_of_claim', satisfiedBy: false, source: 'UCC 3-302(a)(2)(v)', label: 'without notice of a claim to the instrument' },
+  { field: 'notice_of_defense', satisfiedBy: false, source: 'UCC 3-302(a)(2)(vi)', label: 'without notice of a defense or claim in recoupment' },
+];
+
+const ACQUISITION_LIMITS: Record<Exclude<AcquisitionKind, 'purchase'>, { source: string; label: string }> = {
+  legal_process: { source: 'UCC 3-302(c)(i)', label: 'by legal process or in an execution, bankruptcy or creditor\'s sale' },
+  bulk_transaction: { source: 'UCC 3-302(c)(ii)', label: 'as part of a bulk transaction outside the ordinary course' },
+  succession: { source: 'UCC 3-302(c)(iii)', label: 'as successor in interest to an estate or organization' },
+};
+
+const dollars = (amount: number): string => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const OUTCOME_FOR: Record<HolderStatus, ValidationOutcome> = {
+  holder_in_due_course: 'passed',
+  sheltered: 'passed',
+  not_holder_in_due_course: 'failed',
+  indeterminate: 'indeterminate',
+};
+
+/**
+ * One transferee, given whether any earlier transferee had HDC rights (true, false, or undefined
+ * when that is itself undecided). An undecided requirement leaves the status open; nothing is
+ * presumed in the transferee's favor.
+ */
+const evaluateTransfer = (transfer: TransferInput, context: HolderContext, predecessorRights: boolean | undefined): TransfereeDecision => {
+  const decide = (status: HolderStatus, details: string, sources: string[]): TransfereeDecision =>
+    ({ transferee: transfer.transferee, status, outcome: OUTCOME_FOR[status], details, sources });
+
+  if (context.claims_preserved) {
+    return decide('not_holder_in_due_course', `NOT A HOLDER IN DUE COURSE: The instrument carries a notice preserving claims and defenses, so there cannot be a holder in due course of it (UCC 3-106(d)).`, ['UCC 3-106(d)', 'UCC 3-302(a)']);
+  }
+  if (context.negotiability === 'failed') {
+    return decide('not_holder_in_due_course', 'NOT A HOLDER IN DUE COURSE: The writing is not a negotiable instrument, so Article 3 gives no holder in due course status; a transferee takes as an assignee, subject to every defense.', ['UCC 3-104(a)', 'UCC 3-302(a)']);
+  }
+
+  const failed = REQUIREMENTS.filter(r => transfer[r.field] !== undefined && transfer[r.field] !== r.satisfiedBy);
+  const undecided = REQUIREMENTS.filter(r => transfer[r.field] === undefined);
+  const limit = transfer.acquired_by && transfer.acquired_by !== 'purchase' ? ACQUISITION_LIMITS[transfer.acquired_by] : undefined;
+
+  if (failed.length === 0 && undecided.length === 0 && !limit) {
+    if (context.negotiability === 'indeterminate') {
+      return decide('indeterminate', `INDETERMINATE: ${transfer.transferee} meets every UCC 3-302(a) requirement, but negotiability of the instrument is undecided. Route to human review.`, ['UCC 3-302(a)']);
+    }
+    return decide('holder_in_due_course', `HOLDER IN DUE COURSE: ${transfer.transferee} took the instrument for value, in good faith and without notice, and it bore no sign of irregularity (UCC 3-302(a)).`,
+      REQUIREMENTS.map(r => r.source));
+  }
+
+  const own = failed.length > 0
+    ? `fails ${failed.map(r => `${r.source} (${r.label})`).join('; ')}`
+    : limit ? `took ${limit.label} (${limit.source})` : `is undecided on ${undecided.map(r => `${r.source} (${r.label})`).join('; ')}`;
+  const ownSources = [...failed.map(r => r.source), ...(limit ? [limit.source] : []), ...(failed.length === 0 && !limit ? undecided.map(r => r.source) : [])];
+
+  // Shelter: the transferee steps into the shoes of a predecessor with HDC rights
+  if (predecessorRights === true && transfer.fraud_or_illegality === false) {
+    return decide('sheltered', `SHELTERED: ${transfer.transferee} ${own}, but takes the rights of an earlier holder in due course by transfer (UCC 3-203(b)).`, [...ownSources, 'UCC 3-203(b)']);
+  }
+  if (predecessorRights === true && transfer.fraud_or_illegality === true) {
+    return decide('not_holder_in_due_course', `NOT A HOLDER IN DUE COURSE: ${transfer.transferee} ${own}, and cannot take an earlier holder in due course's rights because it engaged in fraud or illegality affecting the instrument (UCC 3-203(b)).`, [...ownSources, 'UCC 3-203(b)']);
+  }
+  if (failed.length === 0 && !limit) {
+    return decide('indeterminate', `INDETERMINATE: ${transfer.transferee} ${own}. Route to human review.`, ownSources);
+  }
+  if (predecessorRights === undefined || (predecessorRights === true && transfer.fraud_or_illegality === undefined)) {
+    const open = predecessorRights === undefined ? 'whether an earlier transferee was a holder in due course is undecided' : 'whether it engaged in fraud or illegality affecting the instrument is not stated';
+    return decide('indeterminate', `INDETERMINATE: ${transfer.transferee} ${own}; shelter under UCC 3-203(b) turns on facts not given (${open}). Route to human review.`, [...ownSources, 'UCC 3-203(b)']);
+  }
+  return decide('not_holder_in_due_course', `NOT A HOLDER IN DUE COURSE: ${transfer.transferee} ${own}, and no earlier transferee had holder in due course rights to pass on.`, ownSources);
+};
+
+const classifyDefense = (defense: DefenseInput): { class?: DefenseClass; source: string } => {
+  if (defense.kind === 'recoupment') return { class: 'recoupment', source: 'UCC 3-305(a)(3)' };
+  if (defense.kind === 'duress' || defense.kind === 'incapacity' || defense.kind === 'illegality') {
+    // Real only where other law makes the obligation void; a merely voidable one is personal
+    if (defense.nullifies === undefined) return { source: 'UCC 3-305(a)(1)(ii)' };
+    return defense.nullifies ? { class: 'real', source: 'UCC 3-305(a)(1)(ii)' } : { class: 'personal', source: 'UCC 3-305(a)(2)' };
+  }
+  const real = REAL_DEFENSE_SOURCES[defense.kind as typeof REAL_DEFENSES[number]];
+  return real ? { class: 'real', source: real } : { class: 'personal', source: 'UCC 3-305(a)(2)' };
+};
+
+const evaluateDefense = (defense: DefenseInput, status: HolderStatus, holderRule: boolean, recoveryCap?: number): DefenseDecision => {
+  const label = `${DEFENSE_LABELS[defense.kind]}${defense.description ? ` ("${defense.description}")` : ''}`;
+  const { class: kind, source } = classifyDefense(defense);
+  const decide = (outcome: ValidationOutcome, details: string, sources: string[]): DefenseDecision =>
+    ({ kind: defense.kind, ...(defense.description ? { description: defense.description } : {}), ...(kind ? { class: kind } : {}), outcome, details, sources });
+
+  if (kind === 'recoupment' && defense.same_transaction === false) {
+    return decide('failed', `CUT OFF: ${label} did not arise from the transaction that gave rise to the instrument, so it is not a claim in recoupment against the instrument (UCC 3-305(a)(3)).`, [source]);
+  }
+  if (holderRule) {
+    const cap = kind === 'recoupment'
+      ? ` Affirmative recovery is limited to amounts paid by the debtor${recoveryCap !== undefined ? ` (${dollars(recoveryCap)})` : ''}.`
+      : '';
+    return decide('passed', `SURVIVES: ${label} may be asserted against any holder of a consumer credit contract (16 CFR 433.2).${cap}`, [source, '16 CFR 433.2']);
+  }
+  if (kind === undefined) {
+    if (status === 'not_holder_in_due_course') {
+      return decide('passed', `SURVIVES: ${label} may be asserted against a holder who is not a holder in due course, whether real or personal (UCC 3-305(a)).`, [source, 'UCC 3-305(a)(2)']);
+    }
+    return decide('indeterminate', `INDETERMINATE: ${label} is a real defense only if other law nullifies the obligation; that is not stated. Route to human review.`, [source]);
+  }
+  if (kind === 'recoupment' && defense.same_transaction === undefined) {
+    return decide('indeterminate', `INDETERMINATE: ${label} is a claim in recoupment only if it arose from the transaction that gave rise to the instrument; that is not stated. Route to human review.`, [source]);
+  }
+  if (kind === 'real') {
+    return decide('passed', `SURVIVES: ${label} is a real defense, good even against a holder in due course (${source}; UCC 3-305(b)).`, [source, 'UCC 3-305(b)']);
+  }
+  if (status === 'not_holder_in_due_course') {
+    const reduce = kind === 'recoupment' ? ' Against a transferee it only reduces the amount owing when the action is brought.' : '';
+    return decide('passed', `SURVIVES: ${label} may be asserted against a holder who is not a holder in due course (${source}).${reduce}`, [source]);
+  }
+  if (status === 'indeterminate') {
+    return decide('indeterminate', `INDETERMINATE: ${label} is cut off only if the holder has holder in due course rights, which is undecided (UCC 3-305(b)). Route to human review.`, [source, 'UCC 3-305(b)']);
+  }
+  return decide('failed', kind === 'recoupment'
+    ? `CUT OFF: ${label} lies against the original payee and does not bind a holder in due course (UCC 3-305(b)).`
+    : `CUT OFF: ${label} is a personal defense, which does not bind a holder in due course (UCC 3-305(b)).`, [source, 'UCC 3-305(b)']);
+};
+
+/**
+ * Walks the transfer chain under UCC 3-302 and the shelter rule, then decides each asserted defense
+ * against the final holder under UCC 3-305. On a consumer credit contract the FTC Holder Rule
+ * overrides the chain: every claim and defense against the seller survives, with affirmative
+ * recovery capped at what the debtor has paid.
+ */
+export const evaluateHolderInDueCourse = (input: HolderInput, context: HolderContext): HolderAnalysis => {
+  const transferees: TransfereeDecision[] = [];
+  let predecessorRights: boolean | undefined = false;
+  for (const transfer of input.transfers) {
+    const decision = evaluateTransfer(transfer, context, predecessorRights);
+    transferees.push(decision);
+    // Rights once acquired stay available to later transferees; an undecided link keeps them open
+    if (decision.outcome === 'passed') predecessorRights = true;
+    else if (decision.outcome === 'indeterminate' && predecessorRights === false) predecessorRights = undefined;
+  }
+
+  const final = transferees[transferees.length - 1];
+  const status: HolderStatus = final ? final.status : 'indeterminate';
+  const holder_rule = input.consumer_credit === true && context.holder_rule_in_force;
+  const recovery_cap = holder_rule && input.amount_paid !== undefined && Number.isFinite(input.amount_paid) && input.amount_paid >= 0 ? input.amount_paid : undefined;
+
+  return {
+    ...(final ? { holder: final.transferee } : {}),
+    status,
+    transferees,
+    defenses: input.defenses.map(defense => evaluateDefense(defense, status, holder_rule, recovery_cap)),
+    holder_rule,
+    ...(recovery_cap !== undefined ? { recovery_cap } : {}),
+  };
+};
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { traceIndorsements, type ChainStart } from './indorsementChain';
+
+const TO_ACME: ChainStart = { payee: 'Acme Supply, Inc.', bearer: false };
+
+describe('traceIndorsements', () => {
+  it('follows special and blank indorsements to the holder', () => {
+    const chain = traceIndorsements(TO_ACME, {
+      indorsements: [
+        { indorser: 'Acme Supply', kind: 'special', indorsee: 'First Bank' },
+        { indorser: 'First Bank', kind: 'blank' },
+      ],
+      possessor: 'Collector LLC',
+    });
+    expect(chain.links.map(l => l.outcome)).toEqual(['passed', 'passed']);
+    expect(chain.links[0].payable_to).toBe('First Bank');
+    expect(chain.unbroken).toBe(true);
+    expect(chain.payable_to_bearer).toBe(true);
+    expect(chain.outcome).toBe('passed');
+    expect(chain.entitled).toBe('Collector LLC');
+    expect(chain.entitlement).toBe('holder');
+  });
+
+  it('breaks where someone other than the payee indorses order paper', () => {
+    const chain = traceIndorsements(TO_ACME, {
+      indorsements: [
+        { indorser: 'Acme Supply', kind: 'special', indorsee: 'First Bank' },
+        { indorser: 'Second Bank', kind: 'blank' },
+      ],
+      possessor: 'Collector LLC',
+      transfer_proven: false,
+    });
+    expect(chain.links[1].outcome).toBe('failed');
+    expect(chain.links[1].sources).toContain('UCC 3-201(b)');
+    expect(chain.unbroken).toBe(false);
+    expect(chain.payable_to).toBe('First Bank');
+    expect(chain.payable_to_bearer).toBe(false);
+    expect(chain.outcome).toBe('failed');
+    expect(chain.details).toContain('the chain breaks at indorsement 2 (Second Bank)');
+  });
+
+  it('lets a possessor past a break enforce only by proving the transfers to it', () => {
+    const input = {
+      indorsements: [{ indorser: 'Stranger', kind: 'blank' as const }],
+      possessor: 'Collector LLC',
+    };
+    expect(traceIndorsements(TO_ACME, input).outcome).toBe('indeterminate');
+    const proven = traceIndorsements(TO_ACME, { ...input, transfer_proven: true });
+    expect(proven.outcome).toBe('passed');
+    expect(proven.entitlement).toBe('nonholder_in_possession');
+  });
+
+  it('leaves the holder entitled despite a break that a later indorsement bypasses', () => {
+    const chain = traceIndorsements(TO_ACME, {
+      indorsements: [{ indorser: 'Stranger', kind: 'blank' }],
+      possessor: 'ACME SUPPLY',
+    });
+    expect(chain.unbroken).toBe(false);
+    expect(chain.outcome).toBe('passed');
+    expect(chain.entitlement).toBe('holder');
+    expect(chain.details).toContain('Indorsement 1 (Stranger) did not negotiate it');
+  });
+
+  it('treats an indorsement on an allonge by whether the paper was affixed', () => {
+    const allonge = (affixed?: boolean) => traceIndorsements(TO_ACME, {
+      indorsements: [{ indorser: 'Acme Supply', kind: 'special', indorsee: 'First Bank', on_allonge: true, ...(affixed !== undefined ? { affixed } : {}) }],
+      possessor: 'First Bank',
+    });
+
+    const affixed = allonge(true);
+    expect(affixed.links[0].outcome).toBe('passed');
+    expect(affixed.entitlement).toBe('holder');
+
+    const loose = allonge(false);
+    expect(loose.links[0].outcome).toBe('failed');
+    expect(loose.links[0].sources).toContain('UCC 3-204(a)');
+    expect(loose.payable_to).toBe('Acme Supply, Inc.');
+    expect(loose.outcome).toBe('indeterminate');
+
+    const unstated = allonge();
+    expect(unstated.links[0].outcome).toBe('indeterminate');
+    expect(unstated.links[0].sources).toContain('UCC 3-204(a)');
+    expect(unstated.unbroken).toBeUndefined();
+    expect(unstated.outcome).toBe('indeterminate');
+  });
+
+  it('lets an anomalous indorsement leave the chain unchanged', () => {
+    const chain = traceIndorsements(TO_ACME, {
+      indorsements: [
+        { indorser: 'Guarantor', kind: 'anomalous' },
+        { indorser: 'Acme Supply', kind: 'blank' },
+      ],
+      possessor: 'First Bank',
+    });
+    expect(chain.links[0].outcome).toBe('passed');
+    expect(chain.links[0].payable_to).toBe('Acme Supply, Inc.');
+    expect(chain.outcome).toBe('passed');
+  });
+
+  it('checks that a deposit-only indorsement goes to a bank', () => {
+    const deposit = (possessor: string) => traceIndorsements(TO_ACME, {
+      indorsements: [{ indorser: 'Acme Supply', kind: 'restrictive', restriction: 'For deposit only', indorsee: 'First National Bank' }],
+      possessor,
+    });
+    expect(deposit('First National Bank').links[0].outcome).toBe('passed');
+    expect(deposit('Check Cashers LLC').links[0].outcome).toBe('indeterminate');
+    expect(deposit('Check Cashers LLC').links[0].sources).toContain('UCC 3-206(c)');
+  });
+
+  it('lets a claimant enforce a lost instrument only on all three UCC 3-309 facts', () => {
+    const lost = { claimant: 'Acme Supply', in_possession_when_lost: true, transferred_or_seized: false, cannot_obtain: true };
+    const entitled = traceIndorsements(TO_ACME, { indorsements: [], lost });
+    expect(entitled.outcome).toBe('passed');
+    expect(entitled.entitled).toBe('Acme Supply');
+    expect(entitled.entitlement).toBe('lost_instrument');
+    expect(entitled.sources).toContain('UCC 3-309(b)');
+
+    const transferred = traceIndorsements(TO_ACME, { indorsements: [], lost: { ...lost, transferred_or_seized: true } });
+    expect(transferred.outcome).toBe('failed');
+    expect(transferred.sources).toEqual(['UCC 3-309(a)(ii)']);
+
+    const undecided = traceIndorsements(TO_ACME, { indorsements: [], lost: { claimant: 'Acme Supply', in_possession_when_lost: true } });
+    expect(undecided.outcome).toBe('indeterminate');
+    expect(undecided.sources).toEqual(['UCC 3-309(a)(ii)', 'UCC 3-309(a)(iii)']);
+
+    expect(traceIndorsements(TO_ACME, { indorsements: [] }).outcome).toBe('indeterminate');
+  });
+
+  it('cannot decide the holder of an instrument that names no payee', () => {
+    const chain = traceIndorsements({ bearer: false }, {
+      indorsements: [{ indorser: 'Acme Supply', kind: 'blank' }],
+      possessor: 'First Bank',
+    });
+    expect(chain.links[0].outcome).toBe('indeterminate');
+    expect(chain.outcome).toBe('indeterminate');
+    expect(chain.details).toContain('names no payee');
+  });
+});
@@ -0,0 +1,273 @@
+// UCC 3-201 to 3-206 indorsement chain and the UCC 3-301 person entitled to enforce. Walks the
+// indorsements in the order they were signed, tracking to whom the instrument is payable after
+// each one: order paper is negotiated only by its payee's indorsement, a special indorsement names
+// the next payee, a blank one turns it into bearer paper, and an anomalous one changes nothing.
+
+import type { ValidationOutcome } from './legalEngine';
+import { isBank } from './instrumentClassifier';
+
+export const INDORSEMENT_KINDS = ['blank', 'special', 'restrictive', 'anomalous'] as const;
+export type IndorsementKind = typeof INDORSEMENT_KINDS[number];
+
+export interface IndorsementInput {
+  indorser: string;
+  kind: IndorsementKind;
+  indorsee?: string;                     // Special or restrictive: the person it is made payable to
+  restriction?: string;                  // Restrictive: the words used, e.g. "for deposit only"
+  date?: string;                         // YYYY-MM-DD, when known
+  on_allonge?: boolean;                  // Signed on a separate paper rather than the instrument itself
+  affixed?: boolean;                     // Allonge only: the paper was affixed to the instrument (UCC 3-204(a))
+}
+
+export interface LostInstrumentInput {
+  claimant: string;
+  in_possession_when_lost?: boolean;     // Was in possession and entitled to enforce when possession was lost
+  transferred_or_seized?: boolean;       // The loss came from its own transfer or a lawful seizure
+  cannot_obtain?: boolean;               // Destroyed, whereabouts unknown, or held by someone who cannot be found or served
+}
+
+export interface ChainInput {
+  indorsements: IndorsementInput[];      // In the order they were signed
+  possessor?: string;                    // Who has the instrument now
+  transfer_proven?: boolean;             // A possessor who is not the holder can prove the transfers to it (UCC 3-203)
+  lost?: LostInstrumentInput;            // When no one has the instrument
+}
+
+// To whom the instrument was payable when issued, read from its text
+export interface ChainStart {
+  payee?: string;                        // Undefined when the text names no payee
+  bearer: boolean;
+}
+
+export type Entitlement = 'holder' | 'nonholder_in_possession' | 'lost_instrument';
+
+export interface ChainLink {
+  index: number;                         // 1-based position in the chain
+  indorser: string;
+  kind: IndorsementKind;
+  indorsee?: string;
+  restriction?: string;
+  date?: string;
+  payable_to?: string;                   // After this indorsement; undefined when payable to bearer
+  bearer: boolean;
+  outcome: ValidationOutcome;            // Passed when the indorsement negotiates, or is consistent with, the chain
+  details: string;
+  sources: string[];
+}
+
+export interface IndorsementChain {
+  payee?: string;
+  bearer: boolean;                       // Payable to bearer when issued
+  links: ChainLink[];
+  unbroken?: boolean;                    // Undefined when a link cannot be decided
+  payable_to?: string;                   // After the last indorsement
+  payable_to_bearer: boolean;
+  possessor?: string;
+  entitled?: string;                     // The person entitled to enforce, when one is established
+  entitlement?: Entitlement;
+  outcome: ValidationOutcome;
+  details: string;
+  sources: string[];
+}
+
+export const INDORSEMENT_LABELS: Record<IndorsementKind, string> = {
+  blank: 'Blank',
+  special: 'Special',
+  restrictive: 'Restrictive',
+  anomalous: 'Anomalous',
+};
+
+// UCC 3-206 restrictions, most specific first: "for deposit only" also reads as a limit on transfer
+const RESTRICTIONS: { pattern: RegExp; kind: 'collection' | 'fiduciary' | 'condition' | 'prohibition'; source: string }[] = [
+  { pattern: /\b(for deposit|deposit only|for collection|collection only)\b/i, kind: 'collection', source: 'UCC 3-206(c)' },
+  { pattern: /\b(trust(ee)?|agent|fiduciary|for the (use|benefit) of)\b/i, kind: 'fiduciary', source: 'UCC 3-206(d)' },
+  { pattern: /\b(if|when|upon|unless|provided|on condition)\b/i, kind: 'condition', source: 'UCC 3-206(b)' },
+  { pattern: /\b(only|no further|not (transferable|negotiable)|prohibit)/i, kind: 'prohibition', source: 'UCC 3-206(a)' },
+];
+
+// Names match once case, punctuation and entity suffixes are set aside
+const normalizeName = (name: string): string =>
+  name.toLowerCase()
+    .replace(/[.,']/g, '')
+    .replace(/\b(the|inc|incorporated|llc|llp|corp|corporation|co|company|na|ltd)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const sameName = (a: string, b: string): boolean => normalizeName(a) === normalizeName(b);
+
+const holderLabel = (payableTo: string | undefined, bearer: boolean): string => bearer ? 'bearer' : payableTo ?? 'an unnamed payee';
+
+/**
+ * One indorsement, against the state of the instrument before it: to whom it was payable and
+ * whether that is known. `nextTaker` is whoever took it after, for the UCC 3-206(c) bank check.
+ */
+const evaluateIndorsement = (
+  indorsement: IndorsementInput,
+  index: number,
+  before: { payable_to?: string; bearer: boolean; known: boolean },
+  nextTaker?: string
+): { link: ChainLink; known: boolean } => {
+  const who = `${indorsement.indorser} (${INDORSEMENT_LABELS[indorsement.kind].toLowerCase()}${indorsement.on_allonge ? ', on an allonge' : ''})`;
+  const isHolder = before.bearer ? true : before.payable_to !== undefined ? sameName(indorsement.indorser, before.payable_to) : undefined;
+  const holder = holderLabel(before.payable_to, before.bearer);
+
+  // Where the instrument goes next when the indorsement negotiates it
+  const names = indorsement.indorsee && indorsement.kind !== 'anomalous' ? indorsement.indorsee : undefined;
+  let after = indorsement.kind === 'anomalous' ? { payable_to: before.payable_to, bearer: before.bearer } : names ? { payable_to: names, bearer: false } : { payable_to: undefined, bearer: true };
+  let known = before.known;
+
+  const link = (outcome: ValidationOutcome, details: string, sources: string[]): { link: ChainLink; known: boolean } => ({
+    link: {
+      index,
+      indorser: indorsement.indorser,
+      kind: indorsement.kind,
+      ...(indorsement.indorsee ? { indorsee: indorsement.indorsee } : {}),
+      ...(indorsement.restriction ? { restriction: indorsement.restriction } : {}),
+      ...(indorsement.date ? { date: indorsement.date } : {}),
+      ...(after.payable_to ? { payable_to: after.payable_to } : {}),
+      bearer: after.bearer,
+      outcome,
+      details,
+      sources,
+    },
+    known,
+  });
+
+  if (indorsement.on_allonge && indorsement.affixed === false) {
+    after = { payable_to: before.payable_to, bearer: before.bearer };
+    return link('failed', `BROKEN: ${who} signed on a paper that was not affixed to the instrument, so the signature is not on the instrument and does not indorse it (UCC 3-204(a)). Still payable to ${holder}.`, ['UCC 3-204(a)', 'UCC 3-201(b)']);
+  }
+
+  if (indorsement.kind === 'anomalous') {
+    if (isHolder === true && !before.bearer) {
+      return link('indeterminate', `INDETERMINATE: ${who} is the payee, and an indorsement by the holder is not anomalous; it negotiates the instrument as a blank or special indorsement (UCC 3-205(d)). Route to human review.`, ['UCC 3-205(d)']);
+    }
+    return link('passed', `ANOMALOUS: ${who} is not the holder; the signature adds an indorser's liability but does not change how the instrument is negotiated (UCC 3-205(d)). Still payable to ${holder}.`, ['UCC 3-205(d)']);
+  }
+
+  if (isHolder === false) {
+    after = { payable_to: before.payable_to, bearer: before.bearer };
+    return link('failed', `BROKEN: The instrument was payable to ${holder}, so only ${holder}'s indorsement could negotiate it (UCC 3-201(b)); ${who} is not the holder. Still payable to ${holder}.`, ['UCC 3-201(b)', 'UCC 3-205(a)']);
+  }
+  const becomes = after.bearer ? 'bearer paper, negotiable by transfer of possession alone' : `payable to ${after.payable_to}`;
+  // What keeps an otherwise good indorsement from being decided: no named payee, or a loose allonge
+  const open = isHolder === undefined
+    ? `the instrument names no payee, so whether ${indorsement.indorser} was its holder is undecided`
+    : indorsement.on_allonge && indorsement.affixed === undefined
+      ? 'it was signed on a separate paper, and whether that paper was affixed to the instrument is not stated (UCC 3-204(a))'
+      : undefined;
+  if (open) known = false;
+  const negotiated = (effect: string, sources: string[]) => open
+    ? link('indeterminate', `INDETERMINATE: ${who} ${effect}, but ${open}. If it negotiates, now ${becomes}. Route to human review.`, open.includes('3-204') ? [...sources, 'UCC 3-204(a)'] : sources)
+    : link('passed', `NEGOTIATED: ${who} ${effect}. Now ${becomes}.`, sources);
+
+  if (indorsement.kind === 'restrictive') {
+    const restriction = RESTRICTIONS.find(r => indorsement.restriction && r.pattern.test(indorsement.restriction));
+    const words = indorsement.restriction ? `"${indorsement.restriction}"` : 'words not stated';
+    if (!restriction) {
+      return link('indeterminate', `INDETERMINATE: ${who} restricts payment with ${words}, which is not a restriction UCC 3-206 recognizes. Now ${becomes}. Route to human review.`, ['UCC 3-206']);
+    }
+    if (restriction.kind === 'collection') {
+      const bank = nextTaker ? isBank(nextTaker) : undefined;
+      if (bank === false) {
+        return link('indeterminate', `INDETERMINATE: ${who} is for deposit or collection (${words}); ${nextTaker} is not a bank and converts the instrument unless the amount paid reached ${indorsement.indorser} or was applied consistently with the indorsement (UCC 3-206(c)). Now ${becomes}. Route to human review.`, ['UCC 3-206(c)', 'UCC 3-206(e)']);
+      }
+      return negotiated(`is for deposit or collection (${words}); the proceeds must go to ${indorsement.indorser} or its account (UCC 3-206(c))${bank ? `, and ${nextTaker} is a bank that may take it for collection` : ''}`, ['UCC 3-206(c)', 'UCC 3-201(b)']);
+    }
+    return negotiated(restriction.kind === 'fiduciary'
+      ? `names a fiduciary (${words}); later takers are not affected unless they know of a breach of fiduciary duty (UCC 3-206(d))`
+      : restriction.kind === 'condition'
+        ? `states a condition (${words}), which a person paying or taking the instrument may disregard (UCC 3-206(b))`
+        : `limits further transfer (${words}), which does not prevent negotiation (UCC 3-206(a))`, [restriction.source, 'UCC 3-201(b)']);
+  }
+
+  if (indorsement.kind === 'special' && !names) {
+    return negotiated(`names no indorsee, so it takes effect as a blank indorsement (UCC 3-205(b))`, ['UCC 3-205(b)', 'UCC 3-201(b)']);
+  }
+  const source = indorsement.kind === 'special' ? 'UCC 3-205(a)' : 'UCC 3-205(b)';
+  return negotiated(`negotiates the instrument ${indorsement.kind === 'special' ? `to ${names}` : 'in blank'} (${source})`, [source, 'UCC 3-201(b)']);
+};
+
+// UCC 3-309: a person out of possession may enforce only on all three facts
+const LOST_REQUIREMENTS: { field: keyof LostInstrumentInput; satisfiedBy: boolean; source: string; label: string }[] = [
+  { field: 'in_possession_when_lost', satisfiedBy: true, source: 'UCC 3-309(a)(i)', label: 'was in possession and entitled to enforce when possession was lost' },
+  { field: 'transferred_or_seized', satisfiedBy: false, source: 'UCC 3-309(a)(ii)', label: 'did not lose possession by its own transfer or a lawful seizure' },
+  { field: 'cannot_obtain', satisfiedBy: true, source: 'UCC 3-309(a)(iii)', label: 'cannot reasonably obtain the instrument' },
+];
+
+/**
+ * Traces the indorsement chain from the payee the instrument names and decides who is entitled to
+ * enforce it (UCC 3-301): the holder, a nonholder in possession who proves the transfers to it, or
+ * a person who lost the instrument and meets UCC 3-309. An undecided fact leaves the result
+ * indeterminate; nothing is presumed in the possessor's favor.
+ */
+export const traceIndorsements = (start: ChainStart, input: ChainInput): IndorsementChain => {
+  const links: ChainLink[] = [];
+  let state = { payable_to: start.bearer ? undefined : start.payee, bearer: start.bearer, known: start.bearer || start.payee !== undefined };
+  input.indorsements.forEach((indorsement, i) => {
+    const nextTaker = input.indorsements[i + 1]?.indorser ?? input.possessor;
+    const { link, known } = evaluateIndorsement(indorsement, i + 1, state, nextTaker);
+    links.push(link);
+    state = { payable_to: link.payable_to, bearer: link.bearer, known };
+  });
+
+  const unbroken = links.some(l => l.outcome === 'failed') ? false : state.known ? true : undefined;
+  const holder = holderLabel(state.payable_to, state.bearer);
+  const brokenAt = links.find(l => l.outcome === 'failed');
+  const decide = (outcome: ValidationOutcome, details: string, sources: string[], entitled?: { name: string; as: Entitlement }): IndorsementChain => ({
+    ...(start.payee ? { payee: start.payee } : {}),
+    bearer: start.bearer,
+    links,
+    ...(unbroken !== undefined ? { unbroken } : {}),
+    ...(state.payable_to ? { payable_to: state.payable_to } : {}),
+    payable_to_bearer: state.bearer,
+    ...(input.possessor ? { possessor: input.possessor } : {}),
+    ...(entitled ? { entitled: entitled.name, entitlement: entitled.as } : {}),
+    outcome,
+    details,
+    sources,
+  });
+
+  if (!input.possessor) {
+    const lost = input.lost;
+    if (!lost) {
+      return decide('indeterminate', 'INDETERMINATE: Who has the instrument is not stated, and no loss of it is claimed. Route to human review.', ['UCC 3-301']);
+    }
+    const failed = LOST_REQUIREMENTS.filter(r => lost[r.field] !== undefined && lost[r.field] !== r.satisfiedBy);
+    const undecided = LOST_REQUIREMENTS.filter(r => lost[r.field] === undefined);
+    if (failed.length > 0) {
+      return decide('failed', `NOT ENTITLED: ${lost.claimant} does not have the instrument and fails ${failed.map(r => `${r.source} (${r.label})`).join('; ')}.`, failed.map(r => r.source));
+    }
+    if (undecided.length > 0) {
+      return decide('indeterminate', `INDETERMINATE: ${lost.claimant} does not have the instrument; UCC 3-309(a) is undecided on ${undecided.map(r => `${r.source} (${r.label})`).join('; ')}. Route to human review.`, undecided.map(r => r.source));
+    }
+    return decide('passed', `ENTITLED: ${lost.claimant} may enforce the lost instrument (UCC 3-301(iii), 3-309(a)) on proof of its terms and of its right to enforce; judgment requires that the obligor be adequately protected against a claim by another person (UCC 3-309(b)).`,
+      ['UCC 3-301(iii)', ...LOST_REQUIREMENTS.map(r => r.source), 'UCC 3-309(b)'], { name: lost.claimant, as: 'lost_instrument' });
+  }
+
+  const possessor = input.possessor;
+  const isHolder = !state.known ? undefined : state.bearer ? true : sameName(possessor, state.payable_to!);
+  const why = brokenAt
+    ? `the chain breaks at indorsement ${brokenAt.index} (${brokenAt.indorser}), so the instrument is still payable to ${holder}`
+    : `the instrument is payable to ${holder}`;
+
+  if (isHolder === true) {
+    const skipped = brokenAt ? ` Indorsement ${brokenAt.index} (${brokenAt.indorser}) did not negotiate it and does not affect that.` : '';
+    return decide('passed', `ENTITLED: ${possessor} has the instrument and it is payable ${state.bearer ? 'to bearer' : `to ${possessor}`}, so ${possessor} is its holder (UCC 1-201(b)(20), 3-301(i)). Ownership is not required (UCC 3-301).${skipped}`,
+      ['UCC 3-301(i)', 'UCC 1-201(b)(20)'], { name: possessor, as: 'holder' });
+  }
+  if (isHolder === undefined) {
+    return decide('indeterminate', `INDETERMINATE: Whether ${possessor} is the holder cannot be decided: ${start.payee === undefined && !start.bearer ? 'the instrument names no payee' : 'a link in the chain is undecided'}. Route to human review.`, ['UCC 3-301(i)', 'UCC 3-201(b)']);
+  }
+
+  // In possession but not the holder: only the transfers to it can carry a holder's rights
+  const nonholder = `${possessor} has the instrument but is not its holder: ${why}`;
+  if (input.transfer_proven === true) {
+    return decide('passed', `ENTITLED: ${nonholder}. It proves the transfers to it and so has the rights of a holder (UCC 3-301(ii), 3-203(b)).`,
+      ['UCC 3-301(ii)', 'UCC 3-203(b)', 'UCC 3-201(b)'], { name: possessor, as: 'nonholder_in_possession' });
+  }
+  if (input.transfer_proven === false) {
+    return decide('failed', `NOT ENTITLED: ${nonholder}, and it cannot prove a transfer from a person entitled to enforce (UCC 3-301(ii), 3-203(a)).`, ['UCC 3-301(ii)', 'UCC 3-203(a)', 'UCC 3-201(b)']);
+  }
+  return decide('indeterminate', `INDETERMINATE: ${nonholder}. It may enforce as a nonholder in possession only by proving each transfer to it (UCC 3-301(ii), 3-203(b)); that is not stated. Route to human review.`, ['UCC 3-301(ii)', 'UCC 3-203(b)', 'UCC 3-201(b)']);
+};
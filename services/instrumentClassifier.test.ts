@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { isBank, readInstrumentClass } from './instrumentClassifier';
+
+const check = (bank: string) => `${bank}\nSpringfield, Illinois\nPay to the order of Jane Doe $500.00\nFive hundred and 00/100 dollars\n/s/ Acme LLC`;
+
+describe('readInstrumentClass', () => {
+  it('reads a demand draft on a bank as a check', () => {
+    const result = readInstrumentClass(check('First National Bank'));
+    expect(result.type).toBe('check');
+    expect(result.parties.find(party => party.capacity === 'drawee')?.name).toBe('First National Bank');
+  });
+
+  it('recognizes a bank named in capitals', () => {
+    expect(isBank('FIRST NATIONAL BANK')).toBe(true);
+    for (const text of [check('FIRST NATIONAL BANK'), 'Pay to the order of Jane Doe $500.00\nDrawn on: FIRST NATIONAL BANK\n/s/ Acme LLC']) {
+      const result = readInstrumentClass(text);
+      expect(result.type).toBe('check');
+      expect(result.citation).toBe('UCC 3-104(f)');
+      expect(result.parties.find(party => party.capacity === 'drawee')?.name).toBe('FIRST NATIONAL BANK');
+    }
+  });
+
+  it('does not read an ordinary company as a bank', () => {
+    expect(isBank('ACME SUPPLY CO')).toBe(false);
+  });
+});
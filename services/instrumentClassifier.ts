@@ -0,0 +1,195 @@
+// UCC 3-104(e)-(j) classification. Once an instrument is negotiable, its form (a promise is a
+// note, an order a draft) and its type decide who is liable on it, so the parties are read from
+// the text in the capacity the type gives them. Patterns only; no model is consulted.
+
+import { InstrumentExtraction, TextSpan, extractInstrumentTerms, findAnySpans, quoteSpans } from './instrumentExtractor';
+
+export type InstrumentForm = 'note' | 'draft';
+
+export type InstrumentType = 'note' | 'draft' | 'check' | 'cashiers_check' | 'tellers_check' | 'travelers_check' | 'certificate_of_deposit';
+
+export const INSTRUMENT_TYPE_LABELS: Record<InstrumentType, string> = {
+  note: 'Note',
+  draft: 'Draft',
+  check: 'Check',
+  cashiers_check: "Cashier's check",
+  tellers_check: "Teller's check",
+  travelers_check: "Traveler's check",
+  certificate_of_deposit: 'Certificate of deposit',
+};
+
+export type PartyCapacity = 'maker' | 'drawer' | 'drawee' | 'payee';
+
+// Article 3 obligation each capacity carries, for the Case Map and the form generator
+export const PARTY_LIABILITY: Record<PartyCapacity, string> = {
+  maker: 'Must pay the instrument according to its terms when issued (UCC 3-412).',
+  drawer: 'Must pay the draft if the drawee dishonors it (UCC 3-414(b)).',
+  drawee: 'Not liable on the instrument unless and until it accepts (UCC 3-408).',
+  payee: 'Not liable on the instrument until it indorses; an indorser pays on dishonor (UCC 3-415).',
+};
+
+export interface InstrumentParty {
+  capacity: PartyCapacity;
+  name: string;
+  spans: TextSpan[];
+  liability: string;
+}
+
+export interface InstrumentClassification {
+  form?: InstrumentForm;          // Undefined when the text states neither a promise nor an order
+  type?: InstrumentType;
+  citation: string;               // Pinpoint that defines the type, e.g. "UCC 3-104(g)"
+  spans: TextSpan[];              // The words the type rests on
+  reason: string;
+  parties: InstrumentParty[];
+}
+
+// UCC 3-103(a)(9), (6): a written undertaking to pay is a promise, a written instruction an order
+const PROMISE_LANGUAGE = [/\b(promises?|undertakes?|agrees?) to (re)?pay\b/i, /\bwill (re)?pay\b/i];
+const ORDER_LANGUAGE = [/(?<=^|[\n.:]\s*)pay to\b/im, /(?<=^|[\n.:]\s*)pay (the )?(bearer|cash)\b/im, /\bpay to the order of\b/i];
+
+const CERTIFICATE_OF_DEPOSIT = [/\bcertificate of deposit\b/i, /\b(acknowledges?|certifies) (the )?receipt of\b/i, /\bhas been (received|deposited) (by|with) (the )?[A-Z][\w.&'-]*( [A-Z][\w.&'-]*)* (Bank|Savings|Credit Union)\b/];
+const TRAVELERS_CHECK = [/\btravell?er'?s? (check|cheque)\b/i];
+const COUNTERSIGNATURE = [/\bcountersign(ed|ature)?\b/i];
+const CASHIERS_CHECK = [/\bcashier'?s (check|cheque)\b/i];
+const TELLERS_CHECK = [/\b(teller'?s|official|bank) (check|cheque)\b/i];
+const MONEY_ORDER = [/\bmoney order\b/i];
+const PAYABLE_THROUGH = /\b[Pp]ayable (at|through)\s+(the )?([A-Z][\w.&'-]*( [A-Z][\w.&'-]*)*)/;
+
+const NAME = `[A-Z][\\w.&'-]*(?: (?:[A-Z][\\w.&'-]*|of|and|&))*`;
+const BANK_WORDS = ['Bank', 'Savings', 'Credit Union', 'Trust Company', 'Bancorp'];
+// Names are found by their capitals, so the bank words are listed in title and upper case ("FIRST NATIONAL BANK")
+const BANK_NAME = new RegExp(`\\b${NAME} (?:${BANK_WORDS.flatMap(word => [word, word.toUpperCase()]).join('|')})(?:,? N\\.A\\.)?`);
+const BANK_WORD = new RegExp(`\\b(?:${BANK_WORDS.join('|')}|N\\.A\\.)(?=\\W|$)`, 'i');
+export const isBank = (name: string): boolean => BANK_WORD.test(name);
+
+// Defined terms name the parties: Acme LLC ("Borrower")
+const OBLIGOR_ROLES = 'Borrower|Maker|Debtor|Buyer|Issuer|Obligor|Drawer|Purchaser|Bank';
+const PAYEE_ROLES = 'Lender|Payee|Holder|Seller|Creditor|Depositor';
+const definedParty = (roles: string) => new RegExp(`(${NAME}|the undersigned) \\((?:the )?["“](${roles})["”]\\)`);
+const SIGNATURE_BLOCK = /\[SIGNATURE_FIELD:(\w+)[^\]]*\]\s*\n\s*([^\n[]+)/g;
+const SIGNED_BY = new RegExp(`(?:/s/|By:|Signed:|Signature:)\\s*(${NAME})`);
+const SUBJECT_OF_PROMISE = new RegExp(`(${NAME})(?: \\(["“][^"”]+["”]\\))? (?:hereby )?(?:promises?|undertakes?) to (?:re)?pay\\b`);
+const PAYEE_NAME = new RegExp(`\\b(?:to the order of|[Pp]ay(?:able)?(?: to)?)\\s+(?!the order\\b|order\\b)(?:the )?(${NAME})`);
+const DRAWEE_NAME = new RegExp(`(?:^|\\n|\\b)(?:To|TO|Drawee|DRAWEE|[Dd]rawn on|DRAWN ON):?\\s+(?:the )?(${NAME})`);
+const DRAWER_NAME = new RegExp(`\\b(?:Drawer|DRAWER|Issued by|ISSUED BY|Remitter|REMITTER):?\\s+(?:the )?(${NAME})`);
+
+const span = (text: string, match: RegExpMatchArray | null | undefined, group = 1): TextSpan | undefined => {
+  if (!match || match.index === undefined || !match[group]) return undefined;
+  // A capitalized heading ("CERTIFICATE OF DEPOSIT. Harbor Bank") is not part of the name
+  const heading = match[group].match(/^.*[A-Z]{2,}\.\s+/)?.[0].length || 0;
+  const start = match.index + match[0].indexOf(match[group]) + heading;
+  return { start, end: match.index + match[0].indexOf(match[group]) + match[group].length, text: match[group].slice(heading).trim() };
+};
+
+// Trailing connectives belong to the sentence, not the name ("First Bank of")
+const cleanName = (name: string): string => name.replace(/(\s+(of|and|&))+$/, '').replace(/,$/, '').trim();
+
+const party = (capacity: PartyCapacity, found: TextSpan | undefined, liability = PARTY_LIABILITY[capacity]): InstrumentParty[] =>
+  found ? [{ capacity, name: cleanName(found.text), spans: [found], liability }] : [];
+
+// A signature block for a defined role names the person behind "the undersigned"
+const signatureNames = (text: string): Map<string, TextSpan> => {
+  const names = new Map<string, TextSpan>();
+  for (const match of text.matchAll(SIGNATURE_BLOCK)) {
+    const found = span(text, match, 2);
+    if (found && !names.has(match[1].toLowerCase())) names.set(match[1].toLowerCase(), found);
+  }
+  return names;
+};
+
+const findObligor = (text: string): TextSpan | undefined => {
+  const defined = text.match(definedParty(OBLIGOR_ROLES));
+  if (defined) {
+    const signed = signatureNames(text).get(defined[2].toLowerCase());
+    return /^the undersigned$/i.test(defined[1]) && signed ? signed : span(text, defined);
+  }
+  return span(text, text.match(SIGNED_BY)) || span(text, text.match(SUBJECT_OF_PROMISE))
+    || (/\bthe undersigned\b/i.test(text) ? span(text, text.match(/\b(the undersigned)\b/i)) : undefined);
+};
+
+const findPayee = (text: string, extraction: InstrumentExtraction): TextSpan | undefined => {
+  if (extraction.terms.payable_to === 'bearer') return extraction.elements.payable_to.spans[0] && { ...extraction.elements.payable_to.spans[0], text: 'Bearer' };
+  const defined = text.match(definedParty(PAYEE_ROLES));
+  if (defined) {
+    const signed = signatureNames(text).get(defined[2].toLowerCase());
+    return signed && !/[A-Z]/.test(defined[1].charAt(0)) ? signed : span(text, defined);
+  }
+  return span(text, text.match(PAYEE_NAME));
+};
+
+const readForm = (text: string): { form?: InstrumentForm; spans: TextSpan[]; reason: string } => {
+  const promises = findAnySpans(text, PROMISE_LANGUAGE);
+  const orders = findAnySpans(text, ORDER_LANGUAGE).filter(order => !promises.some(p => p.start <= order.start && order.start < p.end + 24));
+  if (promises.length > 0 && orders.length > 0) {
+    return { form: 'note', spans: [...promises, ...orders], reason: `Both a promise (${quoteSpans(promises)}) and an order (${quoteSpans(orders)}); a person entitled to enforce it may treat it as either, and it is read as a note.` };
+  }
+  if (promises.length > 0) return { form: 'note', spans: promises, reason: `A promise to pay: ${quoteSpans(promises)}.` };
+  if (orders.length > 0) return { form: 'draft', spans: orders, reason: `An order to pay: ${quoteSpans(orders)}.` };
+  return { spans: [], reason: 'The text states neither a promise nor an order to pay.' };
+};
+
+/**
+ * Classifies an instrument under UCC 3-104(e)-(j) and names the maker, drawer, drawee and payee
+ * in the capacities that type gives them. Call only once the instrument is negotiable: a writing
+ * that is not an instrument has no Article 3 type.
+ */
+export const readInstrumentClass = (text: string, extraction: InstrumentExtraction = extractInstrumentTerms(text)): InstrumentClassification => {
+  const { form, spans: formSpans, reason: formReason } = readForm(text);
+  const payee = party('payee', findPayee(text, extraction));
+  if (!form) return { citation: 'UCC 3-104(e)', spans: [], reason: formReason, parties: payee };
+
+  // A bank's acknowledgment of a deposit and promise to repay it is the bank's note
+  const deposit = findAnySpans(text, CERTIFICATE_OF_DEPOSIT);
+  const bankName = span(text, text.match(BANK_NAME), 0);
+  if (form === 'note' && deposit.length > 0 && bankName) {
+    return {
+      form, type: 'certificate_of_deposit', citation: 'UCC 3-104(j)', spans: [...deposit, bankName],
+      reason: `${bankName.text} acknowledges a deposit and promises to repay it: ${quoteSpans(deposit)}.`,
+      parties: [...party('maker', bankName), ...payee],
+    };
+  }
+  if (form === 'note') {
+    return { form, type: 'note', citation: 'UCC 3-104(e)', spans: formSpans, reason: formReason, parties: [...party('maker', findObligor(text)), ...payee] };
+  }
+
+  const through = span(text, text.match(PAYABLE_THROUGH), 3);
+  const drawee = span(text, text.match(DRAWEE_NAME)) || through || bankName;
+  const drawer = span(text, text.match(DRAWER_NAME)) || findObligor(text);
+  const draweeIsBank = !!drawee && isBank(drawee.text);
+  const drawerIsBank = !!drawer && isBank(drawer.text);
+  const sameBank = draweeIsBank && drawerIsBank && cleanName(drawee!.text) === cleanName(drawer!.text);
+  const parties = (drawerLiability?: string) => [
+    ...party('drawer', drawer, drawerLiability),
+    ...party('drawee', drawee, sameBank ? PARTY_LIABILITY.maker : undefined),
+    ...payee,
+  ];
+
+  const travelers = findAnySpans(text, TRAVELERS_CHECK);
+  const countersign = findAnySpans(text, COUNTERSIGNATURE);
+  if (travelers.length > 0 && countersign.length > 0 && extraction.terms.timing === 'demand') {
+    return { form, type: 'travelers_check', citation: 'UCC 3-104(i)', spans: [...travelers, ...countersign], reason: `Designated ${quoteSpans(travelers)}, payable on demand and requiring a countersignature (${quoteSpans(countersign)}).`, parties: parties() };
+  }
+
+  // The issuing bank of a cashier's check is both drawer and drawee, and is liable as a maker
+  const cashiers = findAnySpans(text, CASHIERS_CHECK);
+  if (cashiers.length > 0 || sameBank) {
+    return { form, type: 'cashiers_check', citation: 'UCC 3-104(g)', spans: cashiers.length > 0 ? cashiers : [drawer!, drawee!], reason: cashiers.length > 0 ? `Designated ${quoteSpans(cashiers)}.` : `${drawer!.text} draws on itself.`, parties: parties('As issuer of a cashier\'s check, must pay it (UCC 3-412).') };
+  }
+
+  const tellers = findAnySpans(text, TELLERS_CHECK);
+  if (tellers.length > 0 || (drawerIsBank && (draweeIsBank || (through && isBank(through.text))))) {
+    const decidedBy = tellers.length > 0 ? tellers : [drawer!, ...(through ? [through] : [drawee!])];
+    return { form, type: 'tellers_check', citation: 'UCC 3-104(h)', spans: decidedBy, reason: tellers.length > 0 ? `Designated ${quoteSpans(tellers)}.` : `Drawn by ${drawer!.text} on or payable through another bank.`, parties: parties() };
+  }
+
+  const moneyOrder = findAnySpans(text, MONEY_ORDER);
+  if (moneyOrder.length > 0 || (draweeIsBank && extraction.terms.timing === 'demand')) {
+    return {
+      form, type: 'check', citation: 'UCC 3-104(f)', spans: [...moneyOrder, ...(drawee ? [drawee] : [])],
+      reason: moneyOrder.length > 0 ? `Described as ${quoteSpans(moneyOrder)}, which does not stop it being a check.` : `A draft payable on demand and drawn on ${drawee!.text}.`,
+      parties: parties(),
+    };
+  }
+  return { form, type: 'draft', citation: 'UCC 3-104(e)', spans: formSpans, reason: `${formReason}${drawee && !draweeIsBank ? ` The drawee, ${drawee.text}, is not a bank, so it is not a check.` : ''}`, parties: parties() };
+};
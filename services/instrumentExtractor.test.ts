@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { extractInstrumentTerms } from './instrumentExtractor';
+
+const note = (timing: string) => `I promise to pay to the order of Jane Doe $5,000${timing}. /s/ John Doe`;
+
+describe('extractInstrumentTerms timing', () => {
+  it('presumes demand only when the note has no time wording', () => {
+    expect(extractInstrumentTerms(note('')).terms.timing).toBe('demand');
+  });
+
+  it('reads payment on a personal event as indefinite', () => {
+    for (const timing of [' when I sell my house', ' upon my graduation']) {
+      const { terms, elements } = extractInstrumentTerms(note(timing));
+      expect(terms.timing, timing).toBe('indefinite');
+      expect(elements.timing.spans[0].text, timing).toBe(timing.trim());
+    }
+  });
+
+  it('leaves the time open when other time wording is present', () => {
+    for (const timing of [' after the harvest', ' on or before the closing', ' if the ship arrives']) {
+      const { terms, elements } = extractInstrumentTerms(note(timing));
+      expect(terms.timing, timing).toBeUndefined();
+      expect(elements.timing.spans.map(span => span.text), timing).toEqual([timing.trim()]);
+    }
+  });
+
+  it('keeps demand and definite times', () => {
+    expect(extractInstrumentTerms(note(' on demand')).terms.timing).toBe('demand');
+    expect(extractInstrumentTerms(note(' ninety days after date')).terms.timing).toBe('definite');
+  });
+});
+
+describe('extractInstrumentTerms conditions', () => {
+  it('reads an express condition on the promise as conditional whatever the timing', () => {
+    for (const [timing, condition] of [
+      [' on March 1, 2025', 'if I win the lottery'],
+      [' on demand', 'if the roof is completed'],
+      [' on demand', 'provided the goods are delivered'],
+      [' on March 1, 2025', 'as long as the contract is performed'],
+      [' on demand', 'after the house is sold'],
+    ]) {
+      const { terms, elements } = extractInstrumentTerms(note(`${timing} ${condition}`));
+      expect(terms.promise_type, condition).toBe('conditional');
+      expect(elements.promise_type.spans.map(span => span.text), condition).toEqual([condition]);
+      expect(elements.promise_type.reason, condition).toContain('UCC 3-106(a)');
+    }
+  });
+
+  it('does not read a separate late-charge sentence or an acceleration clause as a condition', () => {
+    expect(extractInstrumentTerms(note(' on March 1, 2025. If any payment is late, a charge of $50 applies')).terms.promise_type).toBe('unconditional');
+    expect(extractInstrumentTerms(note(' on March 1, 2025, and if I default the holder may declare the balance immediately due')).terms.promise_type).toBe('unconditional');
+    expect(extractInstrumentTerms(note(' ninety days after date, with interest as provided in the Loan Agreement')).terms.promise_type).toBe('unconditional');
+  });
+});
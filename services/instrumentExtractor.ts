@@ -0,0 +1,370 @@
+// Deterministic clause extraction for UCC 3-104. Reads the instrument's own words and derives each
+// negotiability element with the text span that decides it, so the verdict rests on the document
+// rather than on the model's summary of it. Patterns only; no model is consulted.
+
+import type { InstrumentTerms } from './legalEngine';
+
+export interface TextSpan {
+  start: number;                 // Offset into the instrument text
+  end: number;
+  text: string;
+}
+
+export type InstrumentElement = 'promise_type' | 'amount_type' | 'payable_to' | 'timing' | 'other_undertakings';
+
+export const INSTRUMENT_ELEMENTS: InstrumentElement[] = ['promise_type', 'amount_type', 'payable_to', 'timing', 'other_undertakings'];
+
+export interface ElementReading {
+  value?: InstrumentTerms[InstrumentElement];   // Undefined when the text does not decide it
+  spans: TextSpan[];                             // The words the value rests on
+  reason: string;
+}
+
+// Article 3 carve-outs: terms that look like they defeat an element of 3-104 but that the Code
+// expressly permits. Each one found becomes its own sub-rule step.
+export const ARTICLE_3_CARVE_OUTS = {
+  UCC_3_104_a_3_i: { citation: 'UCC 3-104(a)(3)(i)', element: 'other_undertakings', label: 'An undertaking to give, maintain or protect collateral' },
+  UCC_3_104_a_3_ii: { citation: 'UCC 3-104(a)(3)(ii)', element: 'other_undertakings', label: 'A power to confess judgment or realize on collateral' },
+  UCC_3_104_a_3_iii: { citation: 'UCC 3-104(a)(3)(iii)', element: 'other_undertakings', label: 'A waiver of laws protecting the obligor' },
+  UCC_3_106_a: { citation: 'UCC 3-106(a)', element: 'promise_type', label: 'A mere reference to another writing' },
+  UCC_3_106_b_i: { citation: 'UCC 3-106(b)(i)', element: 'promise_type', label: 'A reference to another writing for rights as to collateral, prepayment or acceleration' },
+  UCC_3_106_b_ii: { citation: 'UCC 3-106(b)(ii)', element: 'promise_type', label: 'Payment limited to a particular fund or source' },
+  UCC_3_106_d: { citation: 'UCC 3-106(d)', element: 'promise_type', label: 'A statutory notice preserving claims and defenses (no holder in due course is possible)' },
+  UCC_3_108_b_i: { citation: 'UCC 3-108(b)(i)', element: 'timing', label: 'A right of prepayment' },
+  UCC_3_108_b_ii: { citation: 'UCC 3-108(b)(ii)', element: 'timing', label: 'A right of acceleration' },
+  UCC_3_108_b_iii: { citation: 'UCC 3-108(b)(iii)', element: 'timing', label: 'Extension at the option of the holder' },
+  UCC_3_108_b_iv: { citation: 'UCC 3-108(b)(iv)', element: 'timing', label: 'Extension to a further definite time' },
+  UCC_3_108_c: { citation: 'UCC 3-108(c)', element: 'timing', label: 'Payable on demand until a fixed date' },
+  UCC_3_112_b: { citation: 'UCC 3-112(b)', element: 'amount_type', label: 'Interest at a fixed or variable rate' },
+} as const satisfies Record<string, { citation: string; element: InstrumentElement; label: string }>;
+
+export type CarveOutId = keyof typeof ARTICLE_3_CARVE_OUTS;
+
+export interface InstrumentException {
+  rule_id: CarveOutId;
+  element: InstrumentElement;
+  citation: string;                              // Pinpoint that permits the term
+  spans: TextSpan[];
+  reason: string;
+}
+
+// UCC 3-113: the instrument's own date, which may be antedated, postdated or missing
+export interface InstrumentDateReading {
+  date?: string;                                 // YYYY-MM-DD; undefined when undated
+  after_date: boolean;                           // Payable a period "after date"
+  spans: TextSpan[];
+  reason: string;
+}
+
+export interface InstrumentExtraction {
+  elements: Record<InstrumentElement, ElementReading>;
+  currency?: string;
+  terms: Partial<InstrumentTerms>;               // The decided values only
+  exceptions: InstrumentException[];             // Carve-outs found, one per rule
+  dated: InstrumentDateReading;
+}
+
+// A pattern's matches, skipping any whose preceding words negate it ("is not subject to")
+export const findSpans = (text: string, pattern: RegExp): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  for (const match of text.matchAll(new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`))) {
+    const start = match.index || 0;
+    if (/\b(not|nor|never|without being)\s+$/i.test(text.slice(Math.max(0, start - 16), start))) continue;
+    spans.push({ start, end: start + match[0].length, text: match[0].trim() });
+  }
+  return spans;
+};
+
+export const findAnySpans = (text: string, patterns: RegExp[]): TextSpan[] =>
+  patterns.flatMap(pattern => findSpans(text, pattern)).sort((a, b) => a.start - b.start);
+
+export const quoteSpans = (spans: TextSpan[]): string => spans.map(span => `"${span.text}"`).join(', ');
+
+const overlaps = (span: TextSpan, others: TextSpan[]): boolean =>
+  others.some(other => span.start < other.end && other.start < span.end);
+
+// Spans a carve-out test excuses, and those left to defeat the element
+const partition = (spans: TextSpan[], test: RegExp): [TextSpan[], TextSpan[]] =>
+  [spans.filter(span => test.test(span.text)), spans.filter(span => !test.test(span.text))];
+
+// Collects carve-outs, merging repeat findings of the same rule into one
+const permit = (exceptions: InstrumentException[], rule_id: CarveOutId, spans: TextSpan[]) => {
+  if (spans.length === 0) return;
+  const existing = exceptions.find(e => e.rule_id === rule_id);
+  const merged = [...(existing?.spans || []), ...spans.filter(span => !overlaps(span, existing?.spans || []))].sort((a, b) => a.start - b.start);
+  const { citation, element, label } = ARTICLE_3_CARVE_OUTS[rule_id];
+  const exception: InstrumentException = { rule_id, element, citation, spans: merged, reason: `${label}: ${quoteSpans(merged)}` };
+  if (existing) exceptions.splice(exceptions.indexOf(existing), 1, exception);
+  else exceptions.push(exception);
+};
+
+// Clause tail: the rest of the phrase up to the next sentence or clause break (a decimal point
+// such as "2.5%" does not end it)
+const TAIL = "(?:[^.;:\\n]|\\.(?=\\d))*";
+// One clause: the same run, not empty
+const CLAUSE = /(?:[^.;:\n]|\.(?=\d))+/;
+
+const PAYMENT_LANGUAGE = [/\b(promises?|agrees?|undertakes?) to pay\b/i, /\b(shall|will) pay\b/i, /\bpay to the order of\b/i, /\bpay to\b/i, /\bpayable to\b/i];
+
+// UCC 3-106(a): an express condition, or a promise subject to or governed by another record
+const CONDITION_LANGUAGE = [
+  new RegExp(`\\bsubject to\\b${TAIL}`, 'i'),
+  new RegExp(`\\b(provided that|provided, however|on condition that|conditioned (up)?on|contingent (up)?on|only if|if and only if|in the event that|unless)\\b${TAIL}`, 'i'),
+  new RegExp(`\\b(up)?on (the )?(satisfactory )?(completion|delivery|approval|acceptance|receipt|performance) of\\b${TAIL}`, 'i'),
+  new RegExp(`\\bgoverned by (the|that|a|an) [\\w\\s-]*?(agreement|contract|lease|record)\\b${TAIL}`, 'i'),
+  new RegExp(`\\b(rights|obligations) [\\w\\s-]*?(are|is) (stated|set forth) in (the|that|a|an) [\\w\\s-]*?(agreement|contract|record)\\b${TAIL}`, 'i'),
+];
+// Bare conditions ("if I win the lottery", "provided the goods are delivered", "as long as",
+// "after the house is sold"). These count only in the sentence that holds the promise or order,
+// so a separate late-charge or default sentence is not read as a condition on the duty to pay.
+const EXPRESS_CONDITION = [
+  new RegExp(`\\b(if|as long as|so long as)\\b${TAIL}`, 'i'),
+  new RegExp(`(?<!\\bas )\\bprovided\\b(?! (in|for|by|herein|hereunder|below|above)\\b)${TAIL}`, 'i'),
+  new RegExp(`\\bafter (?!(the )?(date|sight|issue|maturity|demand|default|acceleration)\\b)(I|we|he|she|they|it|my|our|his|her|their|the|a|an)\\b${TAIL}`, 'i'),
+];
+
+// UCC 3-106(b), (d): references and notices that do not make the promise conditional
+const PERMITTED_REFERENCE = /\b(subject to|with respect to|as to|regarding|concerning|relating to|governing|(rights|terms|provisions) (of|for|on))\s+(the\s+)?(\w+\s+)?(collateral|security|prepayment|acceleration)\b/i;
+const RIGHTS_REFERENCE = new RegExp(`\\b(reference is made|as (stated|set forth|provided) in)\\b${TAIL}\\b(collateral|prepayment|acceleration)\\b${TAIL}`, 'i');
+const CLAIMS_AND_DEFENSES = /\bclaims and defenses\b/i;
+const MERE_REFERENCE = new RegExp(`\\b(pursuant to|in accordance with|in connection with|as contemplated by|evidences? (a|the) loan made under) (the|that|a|an) [\\w\\s-]*?(agreement|contract|lease|writing|record)\\b${TAIL}`, 'i');
+const PARTICULAR_FUND = [
+  new RegExp(`\\b(payable|paid) (solely |only )?(out of|from) (the )?(proceeds|revenues?|income|resources|assets) of\\b${TAIL}`, 'i'),
+  new RegExp(`\\blimited to (the )?(proceeds|revenues?|income|resources|assets) of\\b${TAIL}`, 'i'),
+];
+
+const MONEY = [
+  /(\$|US\$|USD\s?|€|EUR\s?|£|GBP\s?)\s?\d[\d,]*(\.\d{1,2})?/i,
+  /\b\d[\d,]*(\.\d{1,2})?\s?(dollars|euros|pounds)\b/i,
+  /\b(sum|amount) of [a-z\s-]+ (dollars|euros|pounds)\b/i,
+  /\b(one|two|three|four|five|six|seven|eight|nine|ten|twenty|thirty|forty|fifty|hundred|thousand|million)\b[a-z\s-]* (dollars|euros|pounds)\b/i,
+];
+
+// UCC 3-104(a): principal that cannot be computed from the instrument itself. Interest and
+// charges described in the promise do not make the amount variable.
+const VARIABLE_AMOUNT = [
+  new RegExp(`\\b(not to exceed|up to (a maximum of )?|approximately|an amount to be determined|to be determined|such (sums?|amounts?) as|as may be (advanced|agreed)|from time to time|estimated)\\b${TAIL}`, 'i'),
+  new RegExp(`\\bplus (all )?(such )?(other|additional) (sums|amounts)\\b${TAIL}`, 'i'),
+];
+
+// UCC 3-112(b): interest may be variable and may refer to information outside the instrument
+const INTEREST_CLAUSE = new RegExp(`(?<!security )\\binterest\\b${TAIL}`, 'i');
+const VARIABLE_RATE = /\b(prime rate|prime|index|LIBOR|SOFR|variable|adjustable|floating|federal funds|treasury|adjusted)\b/i;
+
+const CURRENCIES: Array<[RegExp, string]> = [[/€|\bEUR\b|\beuros?\b/i, 'EUR'], [/£|\bGBP\b|\bpounds\b/i, 'GBP'], [/\$|\bUSD\b|\bdollars\b/i, 'USD']];
+
+// UCC 3-109: bearer (including "cash"), order, or an identified person only
+const BEARER = [/\b(to|or) (the )?bearer\b/i, /\bpay(able)? to (the order of )?cash\b/i];
+const ORDER = [/\b(to the order of|or (his|her|its|their) order|or order)\b/i];
+const NAMED_PAYEE = /\b(pay|payable)( to)? (?!the order|order|bearer|cash|USD|EUR|GBP|US\$)(the )?[A-Z][\w.&,'-]*( [A-Z][\w.&,'-]*)*/;
+
+// UCC 3-108: demand, a definite time, or an event of uncertain timing
+const MONTHS = '(January|February|March|April|May|June|July|August|September|October|November|December)';
+const DEMAND = [/\b(on|upon) demand\b/i, /\bat sight\b/i, /\b(on|upon) presentation\b/i];
+const DEFINITE = [
+  new RegExp(`\\b${MONTHS} \\d{1,2},? \\d{4}\\b`),
+  /\b\d{4}-\d{2}-\d{2}\b/,
+  /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/,
+  /\b(\d+|[a-z-]+)( \(\d+\))? (days|months|years) (after|from) (the )?(date|issue|sight)\b/i,
+  /\b(in|by) (\d+|[a-z-]+)( \(\d+\))? (equal )?(monthly|quarterly|annual|weekly) (installments|payments)\b/i,
+];
+const INDEFINITE = [
+  new RegExp(`\\b(up)?on (the )?(death|marriage|sale|closing|occurrence|happening|refinancing)\\b${TAIL}`, 'i'),
+  new RegExp(`\\b(at such time as|when(ever)? (funds|money) (are|become|is) available|when convenient|at the (maker|borrower|obligor)'s (discretion|convenience))\\b${TAIL}`, 'i'),
+  new RegExp(`\\bwhen (the )?[\\w\\s-]+ (is|are) (completed|sold|delivered|finished|refinanced)\\b${TAIL}`, 'i'),
+  // "when I sell my house", "upon my graduation": any event named after when or upon
+  new RegExp(`\\b(when(ever)?|upon) (?!(the )?(demand|presentation|presentment|sight|maturity|terms)\\b)(I|we|he|she|they|my|our|his|her|their|the|a|an)\\b${TAIL}`, 'i'),
+];
+// Wording that may state a time of payment the patterns above do not read; with any of it left
+// over, a note is not presumed payable on demand
+const TIME_WORDING = new RegExp(`\\b(when(ever)?|upon|after|on or before|if)\\b${TAIL}`, 'i');
+// An event that can only bring a fixed date forward is acceleration, which 3-108(b) allows
+const ACCELERATION = /\bwhichever (is|occurs|comes) (earlier|first|sooner)\b/i;
+
+// UCC 3-108(b): prepayment, acceleration and extension leave a definite time definite
+const PREPAYMENT = new RegExp(`\\bprepa(y|id|yment)\\b${TAIL}`, 'i');
+const ACCELERATION_RIGHT = /\b(accelerat\w*|immediately due|due and payable|event of default|upon default)\b/i;
+const ACCELERATION_CLAUSE = new RegExp(`\\b(declare|accelerate|become immediately due)\\b${TAIL}`, 'i');
+const EXTENSION = new RegExp(`\\b(extend(ed)?|extension of) (the )?(maturity|time|due date|payment)\\b${TAIL}`, 'i');
+const HOLDER_OPTION = /\b(option of the (holder|lender|payee)|(holder|lender|payee) may)\b/i;
+
+// UCC 3-113: the date of the instrument, distinct from any payment date
+// A heading ("Dated: March 1, 2024") or a date on its own line; "the Loan Agreement dated ..." is
+// another writing's date
+const WRITTEN_DATE = `(${MONTHS} \\d{1,2},? \\d{4}|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}/\\d{4})`;
+const DATE_LINE = [
+  new RegExp(`(?<=^|[\\n.]\\s*)(Dated|DATED|Date|DATE|Date of Issue)\\s*:?\\s*${WRITTEN_DATE}`),
+  new RegExp(`\\b(this (note|instrument|check|draft) is dated|date of this (note|instrument))\\s*:?\\s*${WRITTEN_DATE}`, 'i'),
+  new RegExp(`(?<=^|\\n)[ \\t]*${WRITTEN_DATE}[ \\t]*(?=\\n|$)`),
+];
+const AFTER_DATE = /\b(days|months|years) after (the )?date\b/i;
+
+// UCC 3-104(a)(3): any promise beyond paying money
+const OTHER_UNDERTAKING = [
+  new RegExp(`\\b(agrees?|promises?|undertakes?|shall|will) (also )?(to )?(deliver|perform|provide|render|build|construct|repair|ship|supply|sell|transfer|convey|work|maintain|furnish)\\b${TAIL}`, 'i'),
+  new RegExp(`\\bin addition to (the )?(payment|paying)\\b${TAIL}`, 'i'),
+];
+// The three kinds of term 3-104(a)(3) lets the promise contain
+const COLLATERAL_UNDERTAKING = /\b(collateral|insur\w*|secur(ed|ity)|mortgaged|pledged)\b/i;
+const CONFESSION = [
+  new RegExp(`\\b(confess(es|ion of)? judgment|cognovit)\\b${TAIL}`, 'i'),
+  new RegExp(`\\b(sell|dispose of|realize (up)?on) (the |any )?collateral\\b${TAIL}`, 'i'),
+];
+const CONFESSION_UNDERTAKING = /\b(confess\w*|cognovit|judgment)\b/i;
+const WAIVER = new RegExp(`\\bwaives?\\b${TAIL}`, 'i');
+
+// Conditions the Code treats as no condition at all, checked in this order
+const CONDITION_CARVE_OUTS: Array<[CarveOutId, RegExp]> = [
+  ['UCC_3_106_d', CLAIMS_AND_DEFENSES],
+  ['UCC_3_106_b_i', PERMITTED_REFERENCE],
+  ['UCC_3_108_b_ii', ACCELERATION_RIGHT],
+  ['UCC_3_108_b_i', /\bprepa(y|id|yment)\b/i],
+];
+
+// Removes the spans each carve-out excuses, recording the carve-out; returns what is left
+const excuse = (spans: TextSpan[], carveOuts: Array<[CarveOutId, RegExp]>, exceptions: InstrumentException[]): TextSpan[] =>
+  carveOuts.reduce((remaining, [rule_id, test]) => {
+    const [excused, rest] = partition(remaining, test);
+    permit(exceptions, rule_id, excused);
+    return rest;
+  }, spans);
+
+const readPromise = (text: string, exceptions: InstrumentException[]): ElementReading => {
+  const payment = findAnySpans(text, PAYMENT_LANGUAGE);
+  if (payment.length === 0) return { spans: [], reason: 'No promise or order to pay was found in the text.' };
+  const stated = findAnySpans(text, CONDITION_LANGUAGE);
+  const clauses = findSpans(text, CLAUSE);
+  const express = findAnySpans(text, EXPRESS_CONDITION).filter(span =>
+    !overlaps(span, stated) && clauses.some(clause => overlaps(clause, [span]) && overlaps(clause, payment)));
+  const conditions = excuse([...stated, ...express].sort((a, b) => a.start - b.start), CONDITION_CARVE_OUTS, exceptions);
+  permit(exceptions, 'UCC_3_106_a', findSpans(text, MERE_REFERENCE));
+  permit(exceptions, 'UCC_3_106_b_i', findSpans(text, RIGHTS_REFERENCE));
+  permit(exceptions, 'UCC_3_106_b_ii', findAnySpans(text, PARTICULAR_FUND));
+  return conditions.length > 0
+    ? { value: 'conditional', spans: conditions, reason: `Conditional: ${quoteSpans(conditions)} (UCC 3-106(a)).` }
+    : { value: 'unconditional', spans: payment.slice(0, 1), reason: `Unconditional: ${quoteSpans(payment.slice(0, 1))} with no express condition or reference making it subject to another record.` };
+};
+
+const readAmount = (text: string, exceptions: InstrumentException[]): ElementReading => {
+  // Variable wording inside the interest clause describes the rate, not the principal
+  const interest = findSpans(text, INTEREST_CLAUSE);
+  const [rateTerms, variable] = findAnySpans(text, VARIABLE_AMOUNT).reduce<[TextSpan[], TextSpan[]]>(
+    ([inInterest, rest], span) => (overlaps(span, interest) ? [[...inInterest, span], rest] : [inInterest, [...rest, span]]),
+    [[], []]
+  );
+  const variableRate = interest.filter(span => VARIABLE_RATE.test(span.text) || overlaps(span, rateTerms));
+  permit(exceptions, 'UCC_3_112_b', variableRate);
+
+  if (variable.length > 0) return { value: 'variable', spans: variable, reason: `Variable: ${quoteSpans(variable)}.` };
+  const money = findAnySpans(text, MONEY);
+  return money.length > 0
+    ? { value: 'fixed', spans: money.slice(0, 1), reason: `Fixed: ${quoteSpans(money.slice(0, 1))}.` }
+    : { spans: [], reason: 'No sum of money was found in the text.' };
+};
+
+const readPayee = (text: string): ElementReading => {
+  const bearer = findAnySpans(text, BEARER);
+  if (bearer.length > 0) return { value: 'bearer', spans: bearer, reason: `Bearer: ${quoteSpans(bearer)} (UCC 3-109(a)).` };
+  const order = findAnySpans(text, ORDER);
+  if (order.length > 0) return { value: 'order', spans: order, reason: `Order: ${quoteSpans(order)} (UCC 3-109(b)).` };
+  const named = findSpans(text, NAMED_PAYEE);
+  return named.length > 0
+    ? { value: 'specific_person', spans: named.slice(0, 1), reason: `Payable to an identified person without words of order: ${quoteSpans(named.slice(0, 1))}.` }
+    : { spans: [], reason: 'No payee was found in the text.' };
+};
+
+const readTiming = (text: string, hasPromise: boolean, dated: InstrumentDateReading, exceptions: InstrumentException[]): ElementReading => {
+  permit(exceptions, 'UCC_3_108_b_i', findSpans(text, PREPAYMENT));
+  permit(exceptions, 'UCC_3_108_b_ii', findSpans(text, ACCELERATION_CLAUSE));
+  const extensions = findSpans(text, EXTENSION);
+  permit(exceptions, 'UCC_3_108_b_iii', extensions.filter(span => HOLDER_OPTION.test(span.text)));
+  permit(exceptions, 'UCC_3_108_b_iv', extensions.filter(span => !HOLDER_OPTION.test(span.text)));
+
+  const demand = findAnySpans(text, DEMAND);
+  // Neither the instrument's own date nor a date naming another writing is a time of payment
+  const definite = findAnySpans(text, DEFINITE)
+    .filter(span => !overlaps(span, dated.spans) && !/\bdated:?\s*$/i.test(text.slice(Math.max(0, span.start - 8), span.start)));
+  // An event that can only accelerate or extend payment leaves the time definite
+  const indefinite = excuse(findAnySpans(text, INDEFINITE), [['UCC_3_108_b_ii', ACCELERATION_RIGHT], ['UCC_3_108_b_iv', /\bextend\w*|extension\b/i]], exceptions);
+  if (demand.length > 0 && definite.length > 0) permit(exceptions, 'UCC_3_108_c', [...demand, ...definite]);
+  const fixed: ElementReading | undefined = demand.length > 0
+    ? { value: 'demand', spans: demand, reason: `On demand: ${quoteSpans(demand)} (UCC 3-108(a)).` }
+    : definite.length > 0
+      ? { value: 'definite', spans: definite, reason: `At a definite time: ${quoteSpans(definite)} (UCC 3-108(b)).` }
+      : undefined;
+
+  if (indefinite.length === 0) {
+    if (fixed) return fixed;
+    if (!hasPromise) return { spans: [], reason: 'No time of payment was found in the text.' };
+    const wording = findSpans(text, TIME_WORDING).filter(span => !exceptions.some(e => overlaps(span, e.spans)));
+    return wording.length > 0
+      ? { spans: wording, reason: `No demand or fixed time is stated, and ${quoteSpans(wording)} may state a time of payment; it is not presumed payable on demand.` }
+      : { value: 'demand', spans: [], reason: 'No time of payment is stated, so it is payable on demand (UCC 3-108(a)).' };
+  }
+  if (!fixed) return { value: 'indefinite', spans: indefinite, reason: `Payable on an event of uncertain timing: ${quoteSpans(indefinite)}.` };
+
+  const acceleration = findSpans(text, ACCELERATION);
+  if (acceleration.length === 0) {
+    return { spans: [...fixed.spans, ...indefinite], reason: `Both a fixed time (${quoteSpans(fixed.spans)}) and an uncertain event (${quoteSpans(indefinite)}) are stated; the text does not say which controls.` };
+  }
+  permit(exceptions, 'UCC_3_108_b_ii', [...indefinite, ...acceleration]);
+  return { ...fixed, spans: [...fixed.spans, ...indefinite, ...acceleration], reason: `${fixed.reason} The event ${quoteSpans(indefinite)} only accelerates it (${quoteSpans(acceleration)}).` };
+};
+
+const readUndertakings = (text: string, hasPromise: boolean, exceptions: InstrumentException[]): ElementReading => {
+  const other = excuse(findAnySpans(text, OTHER_UNDERTAKING), [['UCC_3_104_a_3_ii', CONFESSION_UNDERTAKING], ['UCC_3_104_a_3_i', COLLATERAL_UNDERTAKING]], exceptions);
+  permit(exceptions, 'UCC_3_104_a_3_ii', findAnySpans(text, CONFESSION));
+  permit(exceptions, 'UCC_3_104_a_3_iii', findSpans(text, WAIVER));
+  if (other.length > 0) return { value: true, spans: other, reason: `Other undertaking: ${quoteSpans(other)}.` };
+  return hasPromise
+    ? { value: false, spans: [], reason: 'No undertaking other than payment was found.' }
+    : { spans: [], reason: 'No promise was found to test for other undertakings.' };
+};
+
+const MONTH_NUMBERS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// "March 1, 2024", "2024-03-01" or "3/1/2024" as YYYY-MM-DD
+const isoDate = (written: string): string | undefined => {
+  const pad = (n: number | string) => String(n).padStart(2, '0');
+  const iso = written.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return iso[0];
+  const us = written.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) return `${us[3]}-${pad(us[1])}-${pad(us[2])}`;
+  const long = written.match(new RegExp(`${MONTHS} (\\d{1,2}),? (\\d{4})`));
+  return long ? `${long[3]}-${pad(MONTH_NUMBERS.indexOf(long[1].toLowerCase()) + 1)}-${pad(long[2])}` : undefined;
+};
+
+const readDate = (text: string): InstrumentDateReading => {
+  const after_date = AFTER_DATE.test(text);
+  const line = findAnySpans(text, DATE_LINE)[0];
+  const date = line && isoDate(line.text);
+  return line && date
+    ? { date, after_date, spans: [line], reason: `Dated ${date}: ${quoteSpans([line])}.` }
+    : { after_date, spans: [], reason: 'No date of the instrument was found in the text.' };
+};
+
+/**
+ * Reads the five UCC 3-104 elements from an instrument's text. An element the text does not
+ * decide is left undefined rather than guessed. Terms that fall within an Article 3 carve-out
+ * (3-104(a)(3), 3-106, 3-108(b), 3-112(b)) are excused from the element and listed as exceptions.
+ */
+export const extractInstrumentTerms = (text: string): InstrumentExtraction => {
+  const exceptions: InstrumentException[] = [];
+  const dated = readDate(text);
+  const promise = readPromise(text, exceptions);
+  const hasPromise = promise.value !== undefined;
+  const elements: Record<InstrumentElement, ElementReading> = {
+    promise_type: promise,
+    amount_type: readAmount(text, exceptions),
+    payable_to: readPayee(text),
+    timing: readTiming(text, hasPromise, dated, exceptions),
+    other_undertakings: readUndertakings(text, hasPromise, exceptions),
+  };
+  const currency = CURRENCIES.find(([pattern]) => pattern.test(text))?.[1];
+
+  const terms: Partial<InstrumentTerms> = currency ? { currency } : {};
+  for (const element of INSTRUMENT_ELEMENTS) {
+    if (elements[element].value !== undefined) Object.assign(terms, { [element]: elements[element].value });
+  }
+  return { elements, ...(currency ? { currency } : {}), terms, exceptions, dated };
+};
@@ -0,0 +1,117 @@
+// Keyword expansion for the Statute Corpus. This is not a learned embedding: each text becomes a
+// hashed vector of its terms, their character trigrams, and the concepts a hand-written synonym
+// table (CONCEPTS) files them under, compared by cosine. A question matches a section only through
+// shared words, shared spellings, or a synonym listed below; a paraphrase using none of them does
+// not match, and keyword search answers instead. Section vectors are precomputed into
+// corpus/index/keyword-vectors.json (npm run build:keyword-vectors); only the query is expanded at run time.
+
+import { z } from 'zod';
+import { StatuteCorpus, StatuteSection } from './statuteCorpus';
+import { tokenize } from './statuteIndex';
+
+// Bump when the expansion (terms, weights or CONCEPTS) changes; vectors built by another version are never compared.
+export const EXPANSION_MODEL = 'hashed-concepts-v1';
+export const EXPANSION_DIMENSIONS = 512;
+
+// Plain-language words and statutory terms that mean the same thing, grouped under one concept,
+// so "can they make me pay if they sue me" meets "confession of judgment" and "enforceable".
+// Keys are index terms (already stemmed by `tokenize`).
+const CONCEPTS: Record<string, string[]> = {
+  litigation: ['sue', 'suit', 'lawsuit', 'court', 'action', 'judgment', 'defense', 'enforce', 'enforceable', 'enforcement', 'executory', 'process'],
+  payment: ['pay', 'payable', 'payment', 'paid', 'owe', 'debt', 'money', 'amount', 'sum', 'obligation', 'loan', 'lend', 'credit'],
+  consent_judgment: ['cognovit', 'confession', 'confess', 'waive', 'waiver', 'judgment'],
+  consumer: ['consumer', 'personal', 'household', 'family', 'individual', 'natural', 'me'],
+  creditor: ['lender', 'creditor', 'seller', 'bank', 'collector'],
+  writing: ['writing', 'written', 'signed', 'sign', 'signature', 'authenticate', 'authenticated', 'record', 'paper'],
+  collateral: ['collateral', 'security', 'secured', 'lien', 'repossess', 'seize', 'possession', 'property'],
+  instrument: ['note', 'check', 'draft', 'instrument', 'negotiable', 'bearer', 'order', 'promise'],
+  sale: ['sale', 'sell', 'buy', 'buyer', 'purchase', 'goods', 'price'],
+  business: ['business', 'trade', 'work', 'expense', 'deduction', 'deduct', 'tax', 'salary', 'rent', 'rental', 'travel', 'tool', 'truck', 'equipment'],
+  definition: ['mean', 'means', 'definition', 'define', 'term', 'includes'],
+};
+
+const CONCEPT_INDEX = new Map<string, string[]>();
+Object.entries(CONCEPTS).forEach(([concept, words]) => {
+  words.forEach(word => tokenize(word).forEach(term => CONCEPT_INDEX.set(term, [...(CONCEPT_INDEX.get(term) || []), concept])));
+});
+
+// Feature weights: the exact term, the concepts it belongs to, and its spelling (for unseen inflections)
+const WEIGHTS = { term: 1, concept: 1, trigram: 0.1 };
+
+/**
+ * FNV-1a, used both to place features in the vector and to fingerprint the expanded text.
+ */
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Expands text into a normalized hashed bag of terms, concepts and character trigrams.
+ * Repeats count sublinearly, so a long section that says "pay" ten times does not
+ * drown out a short one on point.
+ */
+export const keywordVector = (text: string): number[] => {
+  const counts = new Map<string, number>();
+  const count = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+  tokenize(text).forEach(term => {
+    count(`t:${term}`, WEIGHTS.term);
+    (CONCEPT_INDEX.get(term) || []).forEach(concept => count(`c:${concept}`, WEIGHTS.concept));
+    const padded = `^${term}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) count(`g:${padded.slice(i, i + 3)}`, WEIGHTS.trigram);
+  });
+
+  const vector = new Array<number>(EXPANSION_DIMENSIONS).fill(0);
+  counts.forEach((weight, feature) => {
+    const hash = parseInt(hashText(feature), 16);
+    // The top bit chooses the sign so unrelated features cancel out rather than pile up
+    vector[hash % EXPANSION_DIMENSIONS] += (hash & 0x80000000 ? -1 : 1) * Math.log1p(weight);
+  });
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+  return vector.map(x => x / norm);
+};
+
+/**
+ * What gets expanded for a section. Its hash is stored alongside the vector so stale vectors are caught.
+ */
+export const sectionDocument = (section: StatuteSection): string =>
+  [section.title, section.source, ...(section.aliases || []), section.text].join('\n');
+
+export const cosine = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export const KeywordVectorFileZod = z.object({
+  format_version: z.literal(1),
+  model: z.string().min(1),
+  dimensions: z.number().int().positive(),
+  sections: z.record(z.string(), z.object({
+    text_hash: z.string().min(1),
+    vector: z.array(z.number()),
+  })),
+});
+
+export type KeywordVectorFile = z.infer<typeof KeywordVectorFileZod>;
+
+/**
+ * Precomputes vectors for every section in the corpus (run by scripts/build-keyword-vectors.mjs).
+ */
+export const buildKeywordVectorFile = (corpus: StatuteCorpus): KeywordVectorFile => ({
+  format_version: 1,
+  model: EXPANSION_MODEL,
+  dimensions: EXPANSION_DIMENSIONS,
+  sections: Object.fromEntries(corpus.sections.map(section => {
+    const document = sectionDocument(section);
+    return [section.citation, { text_hash: hashText(document), vector: keywordVector(document).map(x => Number(x.toFixed(5))) }];
+  })),
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { auditLedgerFile } from './ledgerAudit';
+import { TaxpayerProfile } from './taxpayerProfile';
+
+const options = { business_revenue: 500000, naics: '541110' };
+
+describe('auditLedgerFile special rules', () => {
+  it('totals a business meal at the 50% the meals limit allows', async () => {
+    const report = await auditLedgerFile('expenses.csv', 'Date,Item,Amount,Business Purpose\n2024-05-01,Meals,100.00,Lunch with Acme re: bid\n2024-05-02,Office supplies,40.00,\n', options);
+    const [meal] = report.lines;
+    expect(meal.outcome).toBe('passed');
+    expect(meal.steps.map(step => step.rule_id)).toContain('rule_meals_limit');
+    expect(meal.deductible_amount).toBe(50);
+    expect(report.totals).toMatchObject({ total_spend: 140, deductible: 90, disallowed: 50, needs_review: 0 });
+  });
+
+  it('sends a meal with no business purpose to review', async () => {
+    const report = await auditLedgerFile('expenses.csv', 'Date,Item,Amount\n2024-05-01,Meals,80.00\n', options);
+    expect(report.lines[0].outcome).toBe('indeterminate');
+    expect(report.totals).toMatchObject({ deductible: 0, disallowed: 0, needs_review: 80 });
+  });
+
+  it('sends vehicle and home-office lines to review, since a row has no mileage log or floor areas', async () => {
+    const report = await auditLedgerFile('expenses.csv', 'Date,Item,Amount\n2024-05-01,Mileage,300.00\n2024-05-02,Home office,500.00\n', { business_revenue: 500000, naics: '238350' });
+    expect(report.lines.map(line => [line.outcome, line.steps.at(-1)?.rule_id])).toEqual([
+      ['indeterminate', 'rule_vehicle_use'],
+      ['indeterminate', 'rule_home_office'],
+    ]);
+    expect(report.totals.deductible).toBe(0);
+  });
+});
+
+describe('auditLedgerFile with a taxpayer profile', () => {
+  const profile: TaxpayerProfile = {
+    id: 'p1', name: 'Acme Law', entity_type: 'single_member_llc', naics: '541110', fiscal_year_end: '12-31', state: 'CA',
+    gross_revenue: { '2024': 400000, '2023': 350000 }, updated_at: '2024-01-01T00:00:00.000Z',
+  };
+
+  it('audits every line under the profile NAICS and logs the row codes it overrode', async () => {
+    const log: string[] = [];
+    const report = await auditLedgerFile('expenses.csv', 'Date,Item,Amount,NAICS\n2024-05-01,Office supplies,40.00,238350\n', { profile },
+      (action, details) => log.push(`${action}: ${details}`));
+    expect(report.lines[0].naics).toBe('541110');
+    expect(log).toContain("Profile Override: Ignored NAICS 238350 from the rows; the profile's 541110 applies");
+  });
+
+  it('takes the revenue history for each line\'s fiscal year and sends years with none on file to review', async () => {
+    const log: string[] = [];
+    const report = await auditLedgerFile('expenses.csv', 'Date,Item,Amount\n2024-05-01,Office supplies,40.00\n2025-02-01,Office supplies,40.00\n', { profile },
+      (action, details) => log.push(`${action}: ${details}`));
+    const necessity = report.lines.map(line => line.steps.find(step => step.rule_id === 'rule_is_necessary'));
+    expect(necessity[0]?.outcome).toBe('passed');
+    expect(necessity[0]?.details).toContain('average gross revenue of $375,000 over 2 years');
+    expect(necessity[1]?.outcome).toBe('indeterminate');
+    expect(log).toContain('Profile Gap: Acme Law has no gross revenue on file for fiscal 2025');
+  });
+});
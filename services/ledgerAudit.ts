@@ -0,0 +1,186 @@
+// Bulk audit of an imported expense ledger: runs the deterministic IRC 162(a) and 263(a) checks, and
+// the special-rule limits (IRC 274, 280A) where they apply, over every transaction with no model in the loop, and records each batch in the Governance Ledger.
+
+import { AuditEntry } from '../types';
+import { ValidationOutcome, ValidationStep, verifyCapitalization, verifyHomeOffice, verifyMeals, verifyNecessary, verifyOrdinary, verifyVehicleUse } from './legalEngine';
+import { ColumnMapping, ImportIssue, LedgerFormat, LedgerTransaction, parseLedgerFile } from './ledgerImport';
+import { sha256 } from './sha256';
+import { TaxpayerProfile, profileRevenue } from './taxpayerProfile';
+
+export interface LedgerAuditOptions {
+  profile?: TaxpayerProfile;         // Active taxpayer: its NAICS and revenue history replace the next three
+  business_revenue?: number;         // Gross revenue for the necessity ratio (0 in a start-up year)
+  prior_year_revenue?: number[];     // Most recent first, for multi-year averaging
+  naics?: string;                    // Default industry for rows without their own NAICS column
+  mapping?: Partial<ColumnMapping>;  // CSV column overrides
+  signed_amounts?: boolean;          // CSV is a bank export with debits negative; otherwise negatives are refunds
+}
+
+export interface LedgerLineResult {
+  transaction: LedgerTransaction;
+  outcome: ValidationOutcome;
+  steps: ValidationStep[];           // Ordinary, then necessary, capitalization and any special rule if ordinary passed
+  capitalize: boolean;               // Failed only because it is a capital asset; see the step's schedule
+  deductible_amount: number;         // Allowed after a special-rule limit (50% of a meal); the full amount otherwise
+  naics?: string;                    // Industry code the line was audited under (its own or the batch default)
+}
+
+export interface LedgerTotals {
+  transactions: number;
+  total_spend: number;
+  deductible: number;                // Passed every check, after any special-rule limit
+  disallowed: number;                // Passed, but over a special-rule limit (the other 50% of a meal)
+  capitalized: number;               // Ordinary and necessary, but recovered through depreciation
+  flagged: number;                   // Failed a check
+  needs_review: number;              // Indeterminate: no data to decide
+}
+
+export interface LedgerAuditReport {
+  batch_id: string;                  // First 12 hex digits of the file's SHA-256
+  file_name: string;
+  format: LedgerFormat;
+  lines: LedgerLineResult[];
+  skipped: ImportIssue[];
+  totals: LedgerTotals;
+}
+
+type LogAudit = (action: string, details: string, source: AuditEntry['source'], status?: AuditEntry['status']) => void;
+
+const cents = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * The special-rule check for a category it limits, from what a ledger row records. A row carries
+ * no mileage log or floor areas, so vehicle and home-office lines come back for review with the
+ * records the rule needs; a meal is decided once the row gives its business purpose.
+ */
+const specialRuleStep = (transaction: LedgerTransaction, category: string | undefined): Promise<ValidationStep> | undefined => {
+  const { amount, date } = transaction;
+  switch (category) {
+    case 'meals':
+      return verifyMeals({ amount, date, kind: 'business_meal', business_purpose: transaction.business_purpose });
+    case 'vehicle_expenses':
+      return verifyVehicleUse({ date, business_miles: 0, actual_expenses: amount });
+    case 'home_office':
+      return verifyHomeOffice({ date, office_sq_ft: 0, home_sq_ft: 0, regular_exclusive_use: true, use: 'principal_place', home_expenses: amount });
+    default:
+      return undefined;
+  }
+};
+
+// With a profile active its NAICS code applies to every line, whatever the row says, and the
+// revenue is its history back from the fiscal year the line falls in
+const naicsFor = (transaction: LedgerTransaction, options: LedgerAuditOptions): string =>
+  options.profile?.naics || transaction.naics || options.naics || '';
+
+const revenueFor = (transaction: LedgerTransaction, options: LedgerAuditOptions): number[] => {
+  if (options.profile) return profileRevenue(options.profile, transaction.date).revenue;
+  return options.business_revenue === undefined ? [] : [options.business_revenue, ...(options.prior_year_revenue || [])];
+};
+
+/**
+ * Logs what the active profile changed or could not supply for a batch: per-row NAICS codes it
+ * overrode, and fiscal years it has no gross revenue for (those lines go to review).
+ */
+export const logProfileBinding = (transactions: LedgerTransaction[], options: LedgerAuditOptions, logAudit: LogAudit): void => {
+  const { profile } = options;
+  if (!profile) return;
+  const overridden = [...new Set(transactions.map(t => t.naics).filter(code => code && code !== profile.naics))];
+  if (overridden.length > 0) {
+    logAudit('Profile Override', `Ignored NAICS ${overridden.join(', ')} from the rows; the profile's ${profile.naics} applies`, 'System', 'Review');
+  }
+  const missing = [...new Set(transactions
+    .map(t => profileRevenue(profile, t.date))
+    .filter(onFile => onFile.revenue.length === 0)
+    .map(onFile => onFile.fiscal_year))].sort();
+  if (missing.length > 0) {
+    logAudit('Profile Gap', `${profile.name} has no gross revenue on file for fiscal ${missing.join(', ')}`, 'System', 'Review');
+  }
+};
+
+/**
+ * One transaction through the same sequence the advisor's tools enforce: necessity and
+ * capitalization are only asked once the item is ordinary. A line passes only if every check it
+ * reached passed; one that fails only the capitalization check is a capital asset, not a flag.
+ * A special rule's deductible amount (half of a meal) replaces the spend as the amount allowed.
+ */
+export const auditTransaction = async (transaction: LedgerTransaction, options: LedgerAuditOptions): Promise<LedgerLineResult> => {
+  const naics = naicsFor(transaction, options);
+  const ordinary = await verifyOrdinary(naics, transaction.category, transaction.date);
+  const steps = [ordinary];
+  if (ordinary.outcome === 'passed') {
+    steps.push(await verifyNecessary(transaction.amount, revenueFor(transaction, options), transaction.date, { naics, category: transaction.category }));
+    // Each unit is its own unit of property: ten $1,500 laptops are each within the de minimis limit
+    const units = transaction.quantity && transaction.quantity !== 1 ? transaction.quantity : 1;
+    const unitCost = cents(transaction.amount / units);
+    const capitalization = await verifyCapitalization(unitCost, transaction.category, transaction.date, { naics });
+    steps.push(units === 1 ? capitalization : {
+      ...capitalization,
+      details: `${capitalization.details} Tested${capitalization.depreciation ? ' and scheduled' : ''} per unit: ${units} units at $${unitCost.toLocaleString('en-US', { minimumFractionDigits: 2 })} each.`,
+    });
+    const special = specialRuleStep(transaction, ordinary.expense_category);
+    if (special) steps.push(await special);
+  }
+  const failed = steps.filter(step => step.outcome === 'failed');
+  const flagged = failed.some(step => step.rule_id !== 'rule_current_expense');
+  const outcome: ValidationOutcome = flagged ? 'failed'
+    : steps.some(step => step.outcome === 'indeterminate') ? 'indeterminate'
+    : failed.length > 0 ? 'failed'
+    : 'passed';
+  const limited = steps.find(step => step.deductible_amount !== undefined);
+  return {
+    transaction,
+    outcome,
+    steps,
+    capitalize: outcome === 'failed' && !flagged,
+    deductible_amount: limited?.deductible_amount ?? transaction.amount,
+    ...(naics ? { naics } : {}),
+  };
+};
+
+export const summarizeLedger = (lines: LedgerLineResult[]): LedgerTotals => {
+  const sum = (include: (line: LedgerLineResult) => boolean, amount = (line: LedgerLineResult) => line.transaction.amount) => cents(lines
+    .filter(include)
+    .reduce((total, line) => total + amount(line), 0));
+  const passed = (line: LedgerLineResult) => line.outcome === 'passed';
+  return {
+    transactions: lines.length,
+    total_spend: sum(() => true),
+    deductible: sum(passed, line => line.deductible_amount),
+    disallowed: sum(passed, line => line.transaction.amount - line.deductible_amount),
+    capitalized: sum(line => line.capitalize),
+    flagged: sum(line => line.outcome === 'failed' && !line.capitalize),
+    needs_review: sum(line => line.outcome === 'indeterminate'),
+  };
+};
+
+/**
+ * Parses an export, audits every transaction, and logs the batch (not each line) to the ledger.
+ * A batch with flagged spend is logged as an error; one with only review items as Review.
+ */
+export const auditLedgerFile = async (fileName: string, text: string, options: LedgerAuditOptions, logAudit?: LogAudit): Promise<LedgerAuditReport> => {
+  const batch_id = sha256(text).slice(0, 12);
+  const parsed = parseLedgerFile(fileName, text, options.mapping, options.signed_amounts);
+  if (logAudit) {
+    logAudit('Ledger Import', `${fileName} (${parsed.format.toUpperCase()}, batch ${batch_id}): ${parsed.transactions.length} transactions, ${parsed.skipped.length} skipped`, 'Arbiter', 'Pending');
+    logProfileBinding(parsed.transactions, options, logAudit);
+  }
+
+  const lines: LedgerLineResult[] = [];
+  for (const transaction of parsed.transactions) lines.push(await auditTransaction(transaction, options));
+  const totals = summarizeLedger(lines);
+
+  if (logAudit) {
+    const count = (outcome: ValidationOutcome) => lines.filter(line => line.outcome === outcome && !line.capitalize).length;
+    logAudit(
+      'Result: ledger batch',
+      `Batch ${batch_id}: $${totals.deductible.toFixed(2)} deductible (${count('passed')}), ` +
+        `$${totals.capitalized.toFixed(2)} capitalized (${lines.filter(line => line.capitalize).length}), ` +
+        `$${totals.flagged.toFixed(2)} flagged (${count('failed')}), ` +
+        `$${totals.needs_review.toFixed(2)} needs review (${count('indeterminate')}) of $${totals.total_spend.toFixed(2)}`,
+      'Arbiter',
+      totals.flagged > 0 ? 'Error' : totals.needs_review > 0 ? 'Review' : 'Verified'
+    );
+  }
+
+  return { batch_id, file_name: fileName, format: parsed.format, lines, skipped: parsed.skipped, totals };
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { parseLedgerFile } from './ledgerImport';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('parseLedgerFile (CSV)', () => {
+  it('skips deposits, refunds and transfers in a bank export marked as signed', () => {
+    const ledger = parseLedgerFile('bank-statement.csv', fixture('bank-statement.csv'), undefined, true);
+    expect(ledger.transactions.map(t => [t.category, t.amount])).toEqual([['Circular Saw', 189.99], ['Work Boots', 124.5]]);
+    expect(ledger.skipped.map(issue => issue.line)).toEqual([3, 5, 6]);
+    expect(ledger.skipped[0].reason).toBe('credit of 4500.00, not an expense');
+  });
+
+  it('skips credit-only rows when debits and credits are in separate columns', () => {
+    const ledger = parseLedgerFile('split-columns.csv', fixture('split-columns.csv'));
+    expect(ledger.transactions.map(t => [t.category, t.amount])).toEqual([['Safety Glasses', 42.1], ['Nail Gun', 139.99]]);
+    expect(ledger.skipped).toEqual([{ line: 3, reason: 'credit of 2750.00, not an expense' }]);
+  });
+
+  it('skips a refund row in a bookkeeping export instead of inverting the file', () => {
+    const ledger = parseLedgerFile('expenses.csv', 'Date,Item,Amount\n2024-05-01,Hammer,25.00\n2024-05-02,Work Boots,110.00\n2024-05-03,Hammer refund,-25.00\n');
+    expect(ledger.transactions.map(t => [t.category, t.amount])).toEqual([['Hammer', 25], ['Work Boots', 110]]);
+    expect(ledger.skipped).toEqual([{ line: 4, reason: 'refund of 25.00, not an expense' }]);
+  });
+
+  it('reads an accounting-format negative as a refund', () => {
+    const ledger = parseLedgerFile('expenses.csv', 'Date,Item,Amount\n2024-05-01,Laptop,"1,200.00"\n2024-05-02,Hammer,(25.00)\n');
+    expect(ledger.transactions.map(t => t.amount)).toEqual([1200]);
+    expect(ledger.skipped).toEqual([{ line: 3, reason: 'refund of 25.00, not an expense' }]);
+  });
+
+  it('reads an all-positive bookkeeping export as spend', () => {
+    const ledger = parseLedgerFile('expenses.csv', 'Date,Item,Amount\n2024-05-01,Hammer,25.00\n2024-05-02,Work Boots,110.00\n');
+    expect(ledger.transactions.map(t => t.amount)).toEqual([25, 110]);
+    expect(ledger.skipped).toEqual([]);
+  });
+});
@@ -0,0 +1,269 @@
+// Reads bookkeeping exports (CSV, OFX/QFX bank statements, QuickBooks IIF) into a flat list of
+// expense transactions for the bulk audit. Parsing only; the checks run in ledgerAudit.ts.
+
+export type LedgerFormat = 'csv' | 'ofx' | 'iif';
+
+export interface LedgerTransaction {
+  line: number;              // 1-based line (CSV, IIF) or statement entry (OFX) in the source file
+  date: string;              // YYYY-MM-DD
+  amount: number;            // Spend, always positive
+  quantity?: number;         // Units the amount covers (receipt lines); capitalization is tested per unit
+  category: string;          // Free-text item or account name, classified by the expense taxonomy
+  naics?: string;            // Per-row industry code; falls back to the batch default
+  description?: string;
+  business_purpose?: string; // Who was met and why; a meal without one goes to review
+}
+
+export interface ImportIssue {
+  line: number;
+  reason: string;
+}
+
+export interface ParsedLedger {
+  format: LedgerFormat;
+  transactions: LedgerTransaction[];
+  skipped: ImportIssue[];    // Rows that were read but are not auditable expenses
+}
+
+// CSV header -> field. Only needed when a file's headers are not in the alias lists below.
+export interface ColumnMapping {
+  date: string;
+  amount: string;
+  category: string;
+  naics?: string;
+  description?: string;
+  credit?: string;           // Money-in column, when an export splits debits and credits
+  purpose?: string;          // Business purpose column
+}
+
+export class LedgerImportError extends Error {
+  constructor(message: string) {
+    super(`[ArbiterOS]: ${message}`);
+    this.name = 'LedgerImportError';
+  }
+}
+
+// Header spellings seen in common exports, most specific first
+const COLUMN_ALIASES: Record<keyof ColumnMapping, string[]> = {
+  date: ['date', 'transaction date', 'txn date', 'posted date', 'posting date', 'posted'],
+  amount: ['amount', 'expense amount', 'debit', 'withdrawal', 'withdrawals', 'money out', 'total', 'spend'],
+  category: ['category', 'expense category', 'expense item', 'item', 'account', 'description', 'memo'],
+  naics: ['naics', 'naics code', 'industry code'],
+  description: ['description', 'memo', 'payee', 'name', 'vendor'],
+  credit: ['credit', 'deposit', 'deposits', 'money in'],
+  purpose: ['business purpose', 'purpose'],
+};
+
+const headerKey = (header: string): string => header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+/**
+ * Guesses the format from the file name, then from the content.
+ */
+export const detectLedgerFormat = (fileName: string, text: string): LedgerFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx' || /OFXHEADER|<OFX>/i.test(text.slice(0, 2000))) return 'ofx';
+  if (extension === 'iif' || /^!TRNS\t/m.test(text)) return 'iif';
+  return 'csv';
+};
+
+/**
+ * Normalizes the date spellings exports use (2024-03-15, 03/15/2024, 3/15/24, 20240315) to YYYY-MM-DD.
+ */
+export const normalizeLedgerDate = (raw: string): string | undefined => {
+  const value = raw.trim();
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+  match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) return toIsoDate(match[3].length === 2 ? 2000 + +match[3] : +match[3], +match[1], +match[2]);
+  match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+  return undefined;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | undefined => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+};
+
+// "$1,234.50", "(45.00)" (accounting negative), "-45"
+const parseAmount = (raw: string): number | undefined => {
+  const value = raw.trim();
+  const negative = /^\(.*\)$/.test(value) || value.startsWith('-');
+  const number = Number(value.replace(/[()$,\s-]/g, ''));
+  if (value === '' || !Number.isFinite(number)) return undefined;
+  return negative ? -number : number;
+};
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks.
+ * Returns rows with the 1-based line each starts on.
+ */
+export const parseCsvRows = (text: string): Array<{ line: number; cells: string[] }> => {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else { if (c === '\n') line++; cell += c; }
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { cells.push(cell); cell = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some(v => v.trim() !== '')) rows.push({ line: rowLine, cells });
+      cells = []; cell = '';
+      rowLine = ++line;
+    } else cell += c;
+  }
+  cells.push(cell);
+  if (cells.some(v => v.trim() !== '')) rows.push({ line: rowLine, cells });
+  return rows;
+};
+
+/**
+ * Resolves which column holds each field: explicit mapping first, then header aliases.
+ */
+const resolveColumns = (headers: string[], mapping: Partial<ColumnMapping> = {}): Record<keyof ColumnMapping, number> => {
+  const keys = headers.map(headerKey);
+  const used = new Set<number>();
+  const find = (field: keyof ColumnMapping): number => {
+    const explicit = mapping[field];
+    if (explicit) {
+      const index = keys.indexOf(headerKey(explicit));
+      if (index < 0) throw new LedgerImportError(`Mapped column '${explicit}' for ${field} is not in the CSV header.`);
+      used.add(index);
+      return index;
+    }
+    for (const alias of COLUMN_ALIASES[field]) {
+      const index = keys.indexOf(alias);
+      if (index >= 0 && !used.has(index)) { used.add(index); return index; }
+    }
+    return -1;
+  };
+  // Category before description, so a lone "Description" column is read as the item
+  const columns = { date: find('date'), amount: find('amount'), category: find('category'), naics: find('naics'), description: find('description'), credit: find('credit'), purpose: find('purpose') };
+  const missing = (['date', 'amount', 'category'] as const).filter(field => columns[field] < 0);
+  if (missing.length > 0) {
+    throw new LedgerImportError(`CSV header has no column for ${missing.join(', ')} (found: ${headers.join(', ')}). Supply a column mapping.`);
+  }
+  return columns;
+};
+
+/**
+ * A bookkeeping export lists spend as positive; a negative row there is a refund. A bank export
+ * (`signedAmounts`) signs debits negative, so its positive rows are deposits and transfers in.
+ * The convention is the caller's to state, never inferred from the rows: one refund would invert
+ * a whole file.
+ */
+const parseCsvLedger = (text: string, mapping?: Partial<ColumnMapping>, signedAmounts = false): ParsedLedger => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new LedgerImportError('CSV file is empty.');
+  const columns = resolveColumns(header.cells, mapping);
+  const cell = (cells: string[], index: number) => (index >= 0 ? (cells[index] || '').trim() : '');
+
+  const transactions: LedgerTransaction[] = [];
+  const skipped: ImportIssue[] = [];
+  const skip = (line: number, reason: string) => { skipped.push({ line, reason }); };
+  rows.forEach(({ line, cells }) => {
+    const credit = parseAmount(cell(cells, columns.credit));
+    if (credit && !cell(cells, columns.amount)) return skip(line, `credit of ${Math.abs(credit).toFixed(2)}, not an expense`);
+    const amount = parseAmount(cell(cells, columns.amount));
+    const date = normalizeLedgerDate(cell(cells, columns.date));
+    const category = cell(cells, columns.category);
+    if (amount === undefined) return skip(line, `unreadable amount '${cell(cells, columns.amount)}'`);
+    if (!date) return skip(line, `unreadable date '${cell(cells, columns.date)}'`);
+    if (!category) return skip(line, 'no category or item');
+    if (amount === 0) return skip(line, 'zero amount');
+    if (signedAmounts && amount > 0) return skip(line, `credit of ${amount.toFixed(2)}, not an expense`);
+    if (!signedAmounts && amount < 0) return skip(line, `refund of ${(-amount).toFixed(2)}, not an expense`);
+    transactions.push({
+      line, date, category,
+      amount: Math.abs(amount),
+      ...(cell(cells, columns.naics) ? { naics: cell(cells, columns.naics) } : {}),
+      ...(cell(cells, columns.description) ? { description: cell(cells, columns.description) } : {}),
+      ...(cell(cells, columns.purpose) ? { business_purpose: cell(cells, columns.purpose) } : {}),
+    });
+  });
+  return { format: 'csv', transactions, skipped };
+};
+
+/**
+ * OFX 1.x (SGML, unclosed tags) and 2.x (XML) bank statements; QFX is OFX with Quicken headers.
+ * Statements carry no category, so the payee/memo is classified instead. Credits are not spend.
+ */
+const parseOfxLedger = (text: string): ParsedLedger => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  if (blocks.length === 0) throw new LedgerImportError('OFX file has no <STMTTRN> transactions.');
+  const field = (block: string, tag: string) => block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim() || '';
+
+  const transactions: LedgerTransaction[] = [];
+  const skipped: ImportIssue[] = [];
+  const skip = (line: number, reason: string) => { skipped.push({ line, reason }); };
+  blocks.forEach((block, index) => {
+    const line = index + 1;
+    const amount = parseAmount(field(block, 'TRNAMT'));
+    const date = normalizeLedgerDate(field(block, 'DTPOSTED'));
+    const name = field(block, 'NAME');
+    const memo = field(block, 'MEMO');
+    if (amount === undefined) return skip(line, `unreadable amount '${field(block, 'TRNAMT')}'`);
+    if (!date) return skip(line, `unreadable date '${field(block, 'DTPOSTED')}'`);
+    if (amount >= 0) return skip(line, `credit of ${amount.toFixed(2)} (${field(block, 'TRNTYPE') || 'deposit'}), not an expense`);
+    if (!memo && !name) return skip(line, 'no payee or memo to classify');
+    transactions.push({ line, date, amount: -amount, category: memo || name, description: [name, memo].filter(Boolean).join(' - ') });
+  });
+  return { format: 'ofx', transactions, skipped };
+};
+
+/**
+ * QuickBooks IIF: tab-separated, "!TRNS"/"!SPL" header rows name the columns of the "TRNS"/"SPL"
+ * rows that follow. The SPL (split) rows carry the expense accounts; "Tools:Hand Tools" is read
+ * as its last segment.
+ */
+const parseIifLedger = (text: string): ParsedLedger => {
+  const headers: Record<string, string[]> = {};
+  const transactions: LedgerTransaction[] = [];
+  const skipped: ImportIssue[] = [];
+  const skip = (line: number, reason: string) => { skipped.push({ line, reason }); };
+  let trns: Record<string, string> = {};
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const cells = raw.split('\t');
+    const kind = cells[0]?.trim();
+    if (!kind) return;
+    if (kind.startsWith('!')) { headers[kind.slice(1)] = cells.map(c => c.trim().toUpperCase()); return; }
+    const columns = headers[kind];
+    if (!columns) return;
+    const row = Object.fromEntries(columns.map((name, i) => [name, (cells[i] || '').trim()]));
+    if (kind === 'TRNS') { trns = row; return; }
+    if (kind !== 'SPL') return;
+
+    const amount = parseAmount(row.AMOUNT || '');
+    const date = normalizeLedgerDate(row.DATE || trns.DATE || '');
+    const account = (row.ACCNT || '').split(':').pop()!.trim();
+    if (amount === undefined) return skip(line, `unreadable amount '${row.AMOUNT || ''}'`);
+    if (!date) return skip(line, `unreadable date '${row.DATE || trns.DATE || ''}'`);
+    if (amount <= 0) return skip(line, `credit split to '${row.ACCNT}', not an expense`);
+    if (!account) return skip(line, 'no account on split');
+    transactions.push({
+      line, date, amount, category: account,
+      description: [trns.NAME || row.NAME, row.MEMO || trns.MEMO].filter(Boolean).join(' - ') || undefined,
+    });
+  });
+  if (Object.keys(headers).length === 0) throw new LedgerImportError('IIF file has no !TRNS/!SPL header rows.');
+  return { format: 'iif', transactions, skipped };
+};
+
+export const parseLedgerFile = (fileName: string, text: string, mapping?: Partial<ColumnMapping>, signedAmounts?: boolean): ParsedLedger => {
+  const format = detectLedgerFormat(fileName, text);
+  if (format === 'ofx') return parseOfxLedger(text);
+  if (format === 'iif') return parseIifLedger(text);
+  return parseCsvLedger(text, mapping, signedAmounts);
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { consultStatute, verifyInstrumentText, verifyOrdinary } from './legalEngine';
+
+describe('consultStatute', () => {
+  it('returns the cited section itself', async () => {
+    const result = await consultStatute('UCC 2-201');
+    expect(result.found).toBe(true);
+    expect(result.citation).toBe('Uniform Commercial Code § 2-201');
+  });
+
+  it('does not substitute the nearest section for a citation the library lacks', async () => {
+    for (const query of ['UCC 2-207', 'UCC 9-999']) {
+      const result = await consultStatute(query);
+      expect(result.found).toBe(false);
+      expect(result.text).toBeUndefined();
+      expect(result.note).toContain('not in the Law Library');
+    }
+  });
+
+  it('does not fall back to retrieval for a pinpoint in a missing section', async () => {
+    const result = await consultStatute('UCC 2-207(b)(2)');
+    expect(result.found).toBe(false);
+  });
+});
+
+describe('consultStatute with alternate citation spellings', () => {
+  it('resolves every spelling of a section in the library', async () => {
+    for (const query of ['UCC § 2-201', 'UCC Sec. 2-201', 'Uniform Commercial Code Section 2-201', 'U.C.C. 2-201', '§ 2-201']) {
+      const result = await consultStatute(query);
+      expect(result.found, query).toBe(true);
+      expect(result.citation, query).toBe('Uniform Commercial Code § 2-201');
+    }
+  });
+
+  it('returns not-found for an unknown section in every spelling', async () => {
+    for (const query of ['§ 2-207', '§§ 9-999', 'Sec. 9-999', 'UCC § 2-207', 'UCC Sec. 9-999', 'Uniform Commercial Code Section 9-999', 'U.C.C. 2-207', '16 C.F.R. § 999.1', '26 U.S.C. § 9999', 'IRC § 9999']) {
+      const result = await consultStatute(query);
+      expect(result.found, query).toBe(false);
+      expect(result.text, query).toBeUndefined();
+    }
+  });
+});
+
+describe('verifyOrdinary', () => {
+  it('passes a confidently classified item the industry allows', async () => {
+    const step = await verifyOrdinary('238350', 'Work Boots');
+    expect(step.outcome).toBe('passed');
+  });
+
+  it('routes a low-confidence category match to review instead of passing it', async () => {
+    for (const item of ['boots for my wife', 'see saw', 'sea saw']) {
+      const step = await verifyOrdinary('238350', item);
+      expect(step.outcome, item).toBe('indeterminate');
+      expect(step.passed, item).toBe(false);
+      expect(step.details, item).toMatch(/^INDETERMINATE: .* below the 0\.80 confidence/);
+    }
+  });
+});
+
+describe('verifyInstrumentText', () => {
+  it('does not pass a note payable when the maker sells a house', async () => {
+    const step = await verifyInstrumentText('I promise to pay $5,000 when I sell my house');
+    expect(step.outcome).not.toBe('passed');
+    expect(step.details).toContain('"when I sell my house"');
+  });
+
+  it('leaves unread time wording to review rather than presuming demand', async () => {
+    const step = await verifyInstrumentText('I promise to pay to the order of Jane Doe $5,000 on or before the closing. /s/ John Doe');
+    expect(step.outcome).toBe('indeterminate');
+  });
+
+  it('fails a dated note payable only if the maker wins the lottery', async () => {
+    const step = await verifyInstrumentText('I promise to pay to the order of Jane Doe $5,000 on March 1, 2025 if I win the lottery. /s/ John Doe');
+    expect(step.outcome).toBe('failed');
+    expect(step.details).toContain('"if I win the lottery"');
+  });
+});
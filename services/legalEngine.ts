@@ -2,125 +2,442 @@
 // Ported from LegalPackages/auditor.ts.tsx
 // Implements the "Faith-Less" Verifiable Law Database Logic and UCC/USC "Contracts in Code"
 
+import { STATUTE_CORPUS, StatuteSection, VersionInfo, findSection, findOverlay, resolveJurisdiction, adoptedSection, sectionAsOf, versionId } from './statuteCorpus';
+import { StatuteHit, buildSnippet } from './statuteIndex';
+import { retrieveStatutes } from './retrieval';
+import { resolveSubsection } from './statuteSubsections';
+import { parseBareSection, parseCitation, normalizeCitation } from './citations';
+import { CrossReference, getCrossReferences } from './statuteGraph';
+import { DefinedTerm, lookupTerm } from './statuteDefinitions';
+import { NAICS_RULES, NaicsRulesTable, OrdinaryRuleMatch, matchOrdinaryRule } from './naicsRules';
+import { REVIEW_CATEGORY_CONFIDENCE } from './expenseTaxonomy';
+import { evaluateNecessity } from './necessityPolicy';
+import { DepreciationSchedule, evaluateCapitalization } from './capitalization';
+import { HomeOfficeInput, MealInput, SpecialRuleDecision, VehicleInput, evaluateHomeOffice, evaluateMeals, evaluateVehicle } from './specialRules';
+import { INSTRUMENT_ELEMENTS, InstrumentDateReading, InstrumentElement, InstrumentException, InstrumentExtraction, TextSpan, extractInstrumentTerms } from './instrumentExtractor';
+import { INSTRUMENT_TYPE_LABELS, InstrumentClassification, PartyCapacity, readInstrumentClass } from './instrumentClassifier';
+import { ChainInput, IndorsementChain, sameName, traceIndorsements } from './indorsementChain';
+import { DEFENSE_LABELS, HolderAnalysis, HolderInput, evaluateHolderInDueCourse } from './holderInDueCourse';
+import { CORPUS_SIGNATURE_VERIFIED, overlayHash, sectionHash, withContentHash } from './corpusIntegrity';
+
+// "indeterminate" means the engine has no data to decide on (unknown industry, unclassifiable item,
+// no statute version in force): route to human review rather than deny.
+export type ValidationOutcome = 'passed' | 'failed' | 'indeterminate';
+
 export interface ValidationStep {
   rule_id: string;
-  passed: boolean;
+  passed: boolean;            // True only when outcome is 'passed'
+  outcome: ValidationOutcome;
   details: string;
   evidence_source: string;
   timestamp: string;
   generated_content?: string; // Optional field for generated forms
+  as_of?: string;             // Date the rule was evaluated under (YYYY-MM-DD)
+  statute_version?: string;   // Version id of the statute text applied, e.g. "UCC 3-104@1990-01-01"
+  expense_category?: string;  // Canonical category a free-text line item was classified as
+  category_confidence?: number; // 0-1 confidence of that classification
+  depreciation?: DepreciationSchedule; // Recovery schedules when an item must be capitalized
+  deductible_amount?: number;  // Dollar amount allowed after a special-rule limit (meals, vehicle, home office)
+  instrument_findings?: InstrumentFinding[]; // Per-element reading of an instrument's text (UCC 3-104)
+  sub_rules?: ValidationStep[]; // Carve-outs and provisions a rule was decided under, one step each
+  instrument_class?: InstrumentClassification; // Type and party capacities of a negotiable instrument (UCC 3-104(e)-(j))
+  holder_analysis?: HolderAnalysis; // Transfer chain and surviving defenses (UCC 3-302, 3-305)
+  indorsement_chain?: IndorsementChain; // Indorsements and the person entitled to enforce (UCC 3-204 to 3-206, 3-301)
+}
+
+// --- 0. THE SOURCE OF TRUTH (Local RAG / Keyword Index) ---
+// Retrieval is pluggable (services/retrieval.ts): in-process keyword expansion and BM25 by default
+// so it works air-gapped; a hosted Pinecone/Weaviate backend can be chained in front of it.
+// The "Truth" ships as versioned corpus files (corpus/*.json) so the AI cannot hallucinate it
+// and new sections can be added without touching this engine.
+
+export interface StatuteReference {
+  title: string;
+  citation: string;
+  score: number;
+  snippet: string;
+}
+
+export interface JurisdictionNote {
+  code: string;            // Postal code, or the raw input when no overlay file exists
+  name?: string;
+  status: 'model' | 'modified' | 'not_adopted';
+  adopted_as?: string;     // State citation when the state text differs
+  note: string;            // How the state version differs from the model text
+}
+
+export interface StatuteLookupResult {
+  found: boolean;
+  title?: string;
+  text?: string;
+  citation?: string;
+  score?: number;
+  snippet?: string;
+  related?: StatuteReference[]; // Runners-up from the ranked index, best first
+  retrieval?: string;           // Backend that ranked the hits, e.g. "keyword-expansion" or "keyword-bm25"
+  subsection?: {
+    label: string;                            // e.g. "(a)(2)"
+    path: string[];
+    parents: { label: string; text: string }[]; // Enclosing paragraphs, outermost first
+  };
+  jurisdiction?: JurisdictionNote;
+  version?: VersionInfo & { as_of?: string }; // Which text of the section was returned
+  references?: CrossReference[];              // Sections this one cites
+  referenced_by?: CrossReference[];           // Sections in the corpus that cite this one
+  sha256?: string;                            // Manifest hash of the corpus entry the text came from
+  note?: string;                              // Why nothing was returned, when found is false
 }
 
-// --- 0. THE SOURCE OF TRUTH (Simulated RAG / Vector DB) ---
-// In production, this connects to Pinecone/Weaviate containing the full USC/UCC.
-// Here, we hardcode the "Truth" so the AI cannot hallucinate it.
-
-const LAW_LIBRARY: Record<string, { title: string; text: string; source: string }> = {
-  'UCC 3-104': {
-    title: 'Negotiable Instrument',
-    source: 'Uniform Commercial Code § 3-104',
-    text: `(a) ...means an unconditional promise or order to pay a fixed amount of money, with or without interest or other charges described in the promise or order, if it: (1) is payable to bearer or to order at the time it is issued or first comes into possession of a holder; (2) is payable on demand or at a definite time; and (3) does not state any other undertaking or instruction...`
-  },
-  'UCC 9-203': {
-    title: 'Attachment and Enforceability of Security Interest',
-    source: 'Uniform Commercial Code § 9-203',
-    text: `(b) ...a security interest is enforceable against the debtor and third parties with respect to the collateral only if: (1) value has been given; (2) the debtor has rights in the collateral... and (3) one of the following conditions is met: (A) the debtor has authenticated a security agreement that provides a description of the collateral...`
-  },
-  'UCC 2-201': {
-    title: 'Formal Requirements; Statute of Frauds',
-    source: 'Uniform Commercial Code § 2-201',
-    text: `(1) a contract for the sale of goods for the price of $500 or more is not enforceable by way of action or defense unless there is some writing sufficient to indicate that a contract for sale has been made between the parties and signed by the party against whom enforcement is sought...`
-  },
-  'FTC Credit Rule': {
-    title: 'Unfair Credit Practices',
-    source: '16 CFR § 444.2',
-    text: `(a) In connection with the extension of credit... it is an unfair act or practice... for a lender or retail installment seller... to take or receive from a consumer an obligation that: (1) Constitutes or contains a cognovit or confession of judgment (for other than purposes of executory process in the State of Louisiana)...`
+export interface ConsultStatuteOptions {
+  jurisdiction?: string; // "NY" or "New York": return the state-adopted version
+  asOf?: string;         // "YYYY-MM-DD": return the text in force on that date
+}
+
+const toReference = (hit: StatuteHit): StatuteReference => ({
+  title: hit.section.title,
+  citation: hit.section.source,
+  score: hit.score,
+  snippet: hit.snippet,
+});
+
+// Swaps in the state-enacted text where the jurisdiction departs from the model act.
+// A state text only applies once the state enacted it; before that the model version stands.
+const adoptInJurisdiction = (model: StatuteSection, dated: StatuteSection, jurisdiction: string, asOf?: string): { section: StatuteSection; note: JurisdictionNote; version?: VersionInfo } => {
+  const code = resolveJurisdiction(jurisdiction);
+  if (!code) {
+    return {
+      section: dated,
+      note: { code: jurisdiction, status: 'model', note: `No jurisdiction overlay on file for '${jurisdiction}'. Model text returned; confirm against the enacted state code.` }
+    };
+  }
+
+  const name = STATUTE_CORPUS.jurisdictions.get(code)!.jurisdiction_name;
+  const overlay = findOverlay(model.citation, code);
+  if (!overlay || (asOf && asOf < overlay.effective_date)) {
+    return {
+      section: dated,
+      note: {
+        code, name, status: 'model',
+        note: overlay
+          ? `${name}'s amendment to ${model.citation} (${overlay.adopted_as}) took effect ${overlay.effective_date}; the model text applies on ${asOf}.`
+          : `${name} has no recorded non-uniform amendment to ${model.citation}; the model text applies.`
+      }
+    };
   }
+  return {
+    section: adoptedSection(model, overlay),
+    note: { code, name, status: overlay.status, adopted_as: overlay.adopted_as, note: overlay.differences },
+    version: { id: versionId(overlay.adopted_as, overlay.effective_date), effective_date: overlay.effective_date }
+  };
+};
+
+// "§ 2-207" has no code; it resolves only when exactly one section in the library has that number
+const findBareSection = (section: string): StatuteSection | undefined => {
+  const matches = STATUTE_CORPUS.sections.filter(s => parseCitation(s.citation)?.section.toLowerCase() === section.toLowerCase());
+  return matches.length === 1 ? matches[0] : undefined;
 };
 
 // The "RAG" Tool - strictly retrieves text, does not interpret.
-export const consultStatute = async (query: string): Promise<{ found: boolean; title?: string; text?: string; citation?: string }> => {
-  // Simple keyword matching to simulate vector search
-  const key = Object.keys(LAW_LIBRARY).find(k => query.toLowerCase().includes(k.toLowerCase()) || k.toLowerCase().includes(query.toLowerCase()));
-  
-  if (key) {
-    return { 
-      found: true, 
-      title: LAW_LIBRARY[key].title, 
-      text: LAW_LIBRARY[key].text, 
-      citation: LAW_LIBRARY[key].source 
+export const consultStatute = async (query: string, options: ConsultStatuteOptions = {}): Promise<StatuteLookupResult> => {
+  // No text leaves the library until the manifest signature has been verified
+  await CORPUS_SIGNATURE_VERIFIED;
+
+  // A query that names a section gets that section or nothing; the nearest-ranked one is never
+  // substituted for a citation the library does not hold.
+  const parsed = parseCitation(query);
+  const bare = parsed ? undefined : parseBareSection(query);
+  const named = parsed ? findSection(query) : bare ? findBareSection(bare.section) : undefined;
+  if ((parsed || bare) && !named) {
+    return { found: false, note: `${parsed ? normalizeCitation(query) : query.trim()} is not in the Law Library${bare ? ', or the section number belongs to more than one code in it' : ''}.` };
+  }
+
+  // Pinpoint citations ("UCC 3-104(a)(2)") return exactly that paragraph, never the whole section.
+  const subsections = parsed?.subsections || bare?.subsections || [];
+  const pinpointed = subsections.length > 0 ? named : undefined;
+  const retrieval = pinpointed ? undefined : retrieveStatutes(named ? named.citation : query, 4);
+  const hits = retrieval ? retrieval.hits : [];
+
+  const model = pinpointed || named || hits[0]?.section;
+  if (!model) {
+    return { found: false };
+  }
+
+  // Point-in-time: judge past transactions by the text in force on their date
+  const dated = sectionAsOf(model, options.asOf);
+  if (!dated) {
+    return {
+      found: false,
+      title: model.title,
+      citation: model.source,
+      note: `No version of ${model.citation} in force on ${options.asOf} is on file (current text effective ${model.effective_date}${model.sunset_date ? `, repealed ${model.sunset_date}` : ''}).`
+    };
+  }
+
+  const adoption = options.jurisdiction ? adoptInJurisdiction(model, dated.section, options.jurisdiction, options.asOf) : undefined;
+  const section = adoption ? adoption.section : dated.section;
+  // State text is hashed as its overlay entry, model text (any version) as its section entry
+  const sha256 = adoption?.version ? overlayHash(adoption.note.code, model.citation) : sectionHash(model.citation);
+  const result: StatuteLookupResult = {
+    found: true,
+    title: section.title,
+    text: section.text,
+    citation: section.source,
+    version: { ...(adoption?.version || dated.version), ...(options.asOf ? { as_of: options.asOf } : {}) },
+    ...(adoption ? { jurisdiction: adoption.note } : {}),
+    ...getCrossReferences(model.citation),
+    ...(sha256 ? { sha256 } : {})
+  };
+
+  if (pinpointed) {
+    const sub = resolveSubsection(section, subsections);
+    if (!sub) return { found: false, version: result.version, ...(adoption ? { jurisdiction: adoption.note } : {}) };
+    return {
+      ...result,
+      text: sub.text,
+      citation: `${section.source}${sub.label}`,
+      subsection: { label: sub.label, path: sub.path, parents: sub.parents }
     };
   }
-  return { found: false };
+
+  const [best, ...runnersUp] = hits;
+  return { 
+    ...result,
+    score: best.score,
+    snippet: section === best.section ? best.snippet : buildSnippet(section.text, query),
+    related: runnersUp.map(toReference),
+    retrieval: retrieval!.backend
+  };
 };
 
+export interface TermLookupResult {
+  found: boolean;
+  term: string;
+  definitions: DefinedTerm[]; // Narrowest scope first
+  note?: string;
+}
+
+// The Definitions Tool - returns the statutory definition(s) verbatim, with their scope.
+// `context` (a citation) limits the answer to definitions that govern that section.
+export const defineTerm = async (term: string, context?: string): Promise<TermLookupResult> => {
+  const section = context ? findSection(context) : undefined;
+  const definitions = lookupTerm(term, section);
+  if (definitions.length === 0) {
+    return {
+      found: false,
+      term,
+      definitions,
+      note: context && !section
+        ? `'${context}' is not in the Law Library; no scope could be applied.`
+        : `No statutory definition of '${term}' ${section ? `governs ${section.citation}` : 'is indexed'}. Use the ordinary meaning and say so.`
+    };
+  }
+  return { found: true, term, definitions };
+};
 
 // 1. The "Chastity Belt" Database Client
+// Answers from the NAICS rules table (rules/naics/*.json), never from the model.
 class VerifiableLawDatabaseClient {
-  constructor(private endpoint: string) {
-    console.log(`[ArbiterOS]: Connected to Verifiable Law DB at ${endpoint}`);
+  constructor(private rules: NaicsRulesTable) {
+    console.log(`[ArbiterOS]: Loaded NAICS ordinary-expense rules for ${rules.rules.size} industry codes`);
   }
 
-  // Deterministic query mimicking the provided logic
-  async query(naics: string, expense: string): Promise<{ is_ordinary: boolean; source: string }> {
-    // Logic from your provided package:
-    // Carpenters (238350) + Specific Tools = Ordinary
-    if (naics === '238350' && ['truck', 'hammer', 'saw', 'toolbox', 'work_boots'].includes(expense.toLowerCase())) {
-      return { 
-        is_ordinary: true, 
-        source: `LIVE_QUERY: ${this.endpoint}/section/162a/precedent?naics=${naics}` 
-      };
-    }
-    
-    // Default fail state for "Faith-Less" strictness
-    return { 
-      is_ordinary: false, 
-      source: `LIVE_QUERY: ${this.endpoint}/section/162a/precedent?naics=${naics}` 
-    };
+  // Deterministic query: the category must be allowed by the code's rule or an ancestor's
+  async query(naics: string, expense: string): Promise<{ is_ordinary: boolean; tentative: boolean; outcome: ValidationOutcome; source: string; match: OrdinaryRuleMatch }> {
+    const match = matchOrdinaryRule(naics, expense, this.rules);
+    // A category below REVIEW_CATEGORY_CONFIDENCE is a guess: neither allowed nor denied on it
+    const tentative = !!match.category && match.category.confidence < REVIEW_CATEGORY_CONFIDENCE;
+    const is_ordinary = match.is_ordinary && !tentative;
+    const source = match.rule
+      ? `NAICS_RULES: ${match.rule.naics} (${match.rule.title}) / ${match.allowed_as!.id}: ${match.precedent.join('; ')}`
+      : `NAICS_RULES: ${match.inherited_from.join(' > ') || `no rule for ${naics}`}`;
+
+    // Never passes without a rule, but missing data (unknown industry or item) is not a denial
+    const outcome: ValidationOutcome = is_ordinary ? 'passed' : match.industry_known && match.category && !tentative ? 'failed' : 'indeterminate';
+    return { is_ordinary, tentative, outcome, source, match };
   }
 }
 
-const ircDatabase = new VerifiableLawDatabaseClient('https://api.law.gov/rac/irc');
+const ircDatabase = new VerifiableLawDatabaseClient(NAICS_RULES);
 
 // 2. Rule Checkers
 
+// Records which statute text a rule was evaluated under, for audits of prior tax years.
+const versionStamp = (statute: StatuteLookupResult, asOf?: string): Pick<ValidationStep, 'as_of' | 'statute_version'> => ({
+  ...(asOf ? { as_of: asOf } : {}),
+  ...(statute.version ? { statute_version: statute.version.id } : {})
+});
+
+// Evidence names the law relied on together with the hash of its exact text.
+const hashedSource = (statute: StatuteLookupResult, fallback: string): string =>
+  withContentHash(statute.citation || fallback, statute.sha256);
+
+// Strict: no rule passes under a statute that was not in force on the transaction date,
+// and none fails either; without the governing text the question goes to a human.
+const notInForce = (rule_id: string, statute: StatuteLookupResult, asOf?: string): ValidationStep => ({
+  rule_id,
+  passed: false,
+  outcome: 'indeterminate',
+  details: `INDETERMINATE: ${statute.note || 'No version of the governing statute is on file for this date.'}`,
+  evidence_source: statute.citation || 'Statute Corpus',
+  timestamp: new Date().toISOString(),
+  ...versionStamp(statute, asOf)
+});
+
 /**
  * Checks if an expense is "ordinary" for a given industry (NAICS).
+ * `asOf` (YYYY-MM-DD) evaluates the expense under IRC 162(a) as it read on that date.
  */
-export const verifyOrdinary = async (naics_code: string, expense_item_category: string): Promise<ValidationStep> => {
-  const { is_ordinary, source } = await ircDatabase.query(naics_code, expense_item_category);
+export const verifyOrdinary = async (naics_code: string, expense_item_category: string, asOf?: string): Promise<ValidationStep> => {
+  const statute = await consultStatute('IRC 162(a)', { asOf });
+  if (!statute.found) return notInForce('rule_is_ordinary', statute, asOf);
+
+  const { is_ordinary, tentative, outcome, source, match } = await ircDatabase.query(naics_code, expense_item_category);
+  const category = match.category;
+  const item = category
+    ? `'${expense_item_category}' (matched category '${category.category.id}', ${category.category.label}, via ${category.matched.map(m => `'${m}'`).join(' + ')}; ${category.method}, confidence ${category.confidence.toFixed(2)})`
+    : `'${expense_item_category}'`;
+
+  let details: string;
+  if (!match.industry_known) {
+    details = `INDETERMINATE: NAICS code ${naics_code} has no ordinary-expense rule (nor does any parent code). Route to human review.`;
+  } else if (!category) {
+    details = `INDETERMINATE: '${expense_item_category}' does not map to a known expense category. Route to human review.`;
+  } else if (tentative) {
+    details = `INDETERMINATE: ${item} is below the ${REVIEW_CATEGORY_CONFIDENCE.toFixed(2)} confidence needed to decide on the category. Route to human review.`;
+  } else if (is_ordinary) {
+    const inherited = match.rule!.naics !== naics_code ? `rule inherited from NAICS ${match.rule!.naics}, ${match.rule!.title}` : '';
+    const viaParent = match.allowed_as!.id !== category.category.id ? `allowed as ${match.allowed_as!.label}` : '';
+    const notes = [inherited, viaParent].filter(Boolean).join('; ');
+    details = `PASSED: ${item} is a verifiable "ordinary" expense under IRC Sec 162(a) for NAICS code ${naics_code}${notes ? ` (${notes})` : ''}.`;
+  } else {
+    details = `FAILED: ${item} is NOT a verifiable "ordinary" expense under IRC Sec 162(a) for NAICS code ${naics_code}.`;
+  }
 
   return {
     rule_id: 'rule_is_ordinary',
     passed: is_ordinary,
-    details: is_ordinary
-      ? `PASSED: '${expense_item_category}' is a verifiable "ordinary" expense under IRC Sec 162(a) for NAICS code ${naics_code}.`
-      : `FAILED: '${expense_item_category}' is NOT a verifiable "ordinary" expense under IRC Sec 162(a) for NAICS code ${naics_code}.`,
-    evidence_source: source,
+    outcome,
+    details,
+    evidence_source: `${source}; ${hashedSource(statute, 'IRC 162(a)')}`,
     timestamp: new Date().toISOString(),
+    ...versionStamp(statute, asOf),
+    ...(category ? { expense_category: category.category.id, category_confidence: category.confidence } : {})
   };
 };
 
 /**
- * Checks if an expense is "necessary" (appropriate amount/ratio).
+ * Checks if an expense is "necessary" (appropriate amount) under the necessity policy for the
+ * industry (rules/necessity.json). Revenue may be a single year or several, current year first.
  */
-export const verifyNecessary = async (expense_amount: number, business_revenue: number): Promise<ValidationStep> => {
-  // Logic: Expense must be <= 50% of gross revenue to be auto-verified as necessary
-  const ratio = expense_amount / business_revenue;
-  const is_necessary = ratio <= 0.5;
-  const source = `Business Logic (Ratio Analysis)`;
+export const verifyNecessary = async (
+  expense_amount: number,
+  business_revenue: number | number[],
+  asOf?: string,
+  context: { naics?: string; category?: string } = {}
+): Promise<ValidationStep> => {
+  const statute = await consultStatute('IRC 162(a)', { asOf });
+  if (!statute.found) return notInForce('rule_is_necessary', statute, asOf);
+
+  const decision = evaluateNecessity({
+    expense_amount,
+    revenue: Array.isArray(business_revenue) ? business_revenue : [business_revenue],
+    ...context
+  });
 
   return {
     rule_id: 'rule_is_necessary',
-    passed: is_necessary,
-    details: is_necessary
-      ? `PASSED: Expense-to-Revenue ratio is ${(ratio * 100).toFixed(1)}% (within 50% threshold).`
-      : `FAILED: Expense-to-Revenue ratio is ${(ratio * 100).toFixed(1)}% (exceeds 50% threshold).`,
-    evidence_source: source,
+    passed: decision.outcome === 'passed',
+    outcome: decision.outcome,
+    details: `${decision.details} [policy: ${decision.policy}]`,
+    evidence_source: [...decision.sources, hashedSource(statute, 'IRC 162(a)')].join('; '),
     timestamp: new Date().toISOString(),
+    ...versionStamp(statute, asOf)
   };
 };
 
+/**
+ * Checks if an expense is deductible now or must be capitalized under IRC 263(a) (rules/depreciation.json).
+ * Fails for a capital asset and attaches its MACRS, bonus and Section 179 recovery schedules.
+ * `asOf` is the placed-in-service date; it picks the bonus rate and Section 179 limit.
+ */
+export const verifyCapitalization = async (
+  expense_amount: number,
+  expense_item: string,
+  asOf?: string,
+  context: { naics?: string; useful_life_months?: number; has_afs?: boolean } = {}
+): Promise<ValidationStep> => {
+  const statute = await consultStatute('IRC 263(a)', { asOf });
+  if (!statute.found) return notInForce('rule_current_expense', statute, asOf);
+
+  const decision = evaluateCapitalization({
+    expense_amount,
+    category: expense_item,
+    placed_in_service: asOf || new Date().toISOString().slice(0, 10),
+    ...context
+  });
+
+  // A capitalized item also cites the recovery sections its schedule was built under
+  const recoveryCitations = decision.schedule
+    ? ['IRC 168', ...(decision.schedule.plans.some(plan => plan.method === 'section_179') ? ['IRC 179'] : [])]
+    : [];
+  const recovery = await Promise.all(recoveryCitations.map(async citation => hashedSource(await consultStatute(citation, { asOf }), citation)));
+
+  return {
+    rule_id: 'rule_current_expense',
+    passed: decision.outcome === 'passed',
+    outcome: decision.outcome,
+    details: `${decision.details} [rule: ${decision.rule}]`,
+    evidence_source: [...decision.sources, hashedSource(statute, 'IRC 263(a)'), ...recovery].join('; '),
+    timestamp: new Date().toISOString(),
+    ...versionStamp(statute, asOf),
+    ...(decision.category ? { expense_category: decision.category.category.id, category_confidence: decision.category.confidence } : {}),
+    ...(decision.schedule ? { depreciation: decision.schedule } : {})
+  };
+};
+
+// Special rules (rules/special-rules.json). Each applies after the ordinary check, under the
+// statute text in force on the expense date.
+const specialRuleStep = async (
+  rule_id: string,
+  citation: string,
+  date: string,
+  evaluate: () => SpecialRuleDecision
+): Promise<ValidationStep> => {
+  const statute = await consultStatute(citation, { asOf: date });
+  if (!statute.found) return notInForce(rule_id, statute, date);
+
+  const decision = evaluate();
+  return {
+    rule_id,
+    passed: decision.outcome === 'passed',
+    outcome: decision.outcome,
+    details: decision.details,
+    evidence_source: [...decision.sources, hashedSource(statute, citation)].join('; '),
+    timestamp: new Date().toISOString(),
+    ...versionStamp(statute, date),
+    ...(decision.deductible_amount !== undefined ? { deductible_amount: decision.deductible_amount } : {})
+  };
+};
+
+/**
+ * IRC 274 meals and entertainment: the 50% limit, its exceptions, and the 274(k) attendance rule.
+ */
+export const verifyMeals = async (input: MealInput): Promise<ValidationStep> =>
+  specialRuleStep('rule_meals_limit', 'IRC 274(n)', input.date, () => evaluateMeals(input));
+
+/**
+ * Vehicle use: standard mileage rate versus the business share of actual expenses.
+ */
+export const verifyVehicleUse = async (input: VehicleInput): Promise<ValidationStep> =>
+  specialRuleStep('rule_vehicle_use', 'IRC 274(d)', input.date, () => evaluateVehicle(input));
+
+/**
+ * IRC 280A home office: regular and exclusive use, the qualifying uses, and the deduction under the
+ * simplified or regular method.
+ */
+export const verifyHomeOffice = async (input: HomeOfficeInput): Promise<ValidationStep> =>
+  specialRuleStep('rule_home_office', 'IRC 280A(c)', input.date, () => evaluateHomeOffice(input));
+
 // --- NEW: UCC & NEGOTIABLE INSTRUMENTS LOGIC (The "Wrapped" Law) ---
 
 // UCC 3-104 Definition of Negotiable Instrument
@@ -145,28 +462,382 @@ export interface InstrumentTerms {
   other_undertakings: boolean;
 }
 
-export const verifyNegotiability = async (terms: InstrumentTerms): Promise<ValidationStep> => {
+// One UCC 3-104 element as read from the instrument's text, next to the model's reading of it
+export interface InstrumentFinding {
+  element: InstrumentElement;
+  extracted?: InstrumentTerms[InstrumentElement]; // Undefined when the text does not decide it
+  model?: InstrumentTerms[InstrumentElement];
+  agrees: boolean;                                // False only when both read it and they differ
+  spans: TextSpan[];
+  reason: string;
+}
+
+const quoteSpans = (finding?: InstrumentFinding): string =>
+  finding && finding.spans.length > 0 ? `: ${finding.spans.map(span => `"${span.text}"`).join(', ')}` : '';
+
+/**
+ * Checks terms against UCC 3-104. With `findings` (from verifyInstrumentText) each violation quotes
+ * the words that cause it, an element the text leaves undecided is routed to human review, and any
+ * disagreement between the text and the model's reading is flagged. `subRules` are the carve-out
+ * steps the terms were read under; one that cannot be applied on `asOf` leaves the result open.
+ */
+export const verifyNegotiability = async (
+  terms: Partial<InstrumentTerms>,
+  jurisdiction?: string,
+  asOf?: string,
+  findings?: InstrumentFinding[],
+  subRules: ValidationStep[] = []
+): Promise<ValidationStep> => {
   const failures: string[] = [];
+  const failedClauses: string[] = [];
+  const findingFor = (element: InstrumentElement) => findings?.find(f => f.element === element);
   
   // Retrieve the "Truth" to bind the logic
-  const statute = await consultStatute('UCC 3-104');
+  const statute = await consultStatute('UCC 3-104', { jurisdiction, asOf });
+  if (!statute.found) return notInForce('UCC_3_104', statute, asOf);
 
-  if (terms.promise_type !== 'unconditional') failures.push('Must be an unconditional promise (UCC 3-104(a))');
-  if (terms.amount_type !== 'fixed') failures.push('Must specify a fixed amount of money (UCC 3-104(a))');
-  if (terms.payable_to === 'specific_person') failures.push('Must be payable to bearer or to order (UCC 3-104(a)(1))');
-  if (terms.timing === 'indefinite') failures.push('Must be payable on demand or at a definite time (UCC 3-104(a)(2))');
-  if (terms.other_undertakings) failures.push('Must not state any other undertaking (UCC 3-104(a)(3))');
+  const fail = (message: string, clause: string, element: InstrumentElement) => {
+    failures.push(`${message} (${clause})${quoteSpans(findingFor(element))}`);
+    if (!failedClauses.includes(clause)) failedClauses.push(clause);
+  };
+
+  if (terms.promise_type === 'conditional') fail('Must be an unconditional promise', 'UCC 3-104(a)', 'promise_type');
+  if (terms.amount_type === 'variable') fail('Must specify a fixed amount of money', 'UCC 3-104(a)', 'amount_type');
+  if (terms.payable_to === 'specific_person') fail('Must be payable to bearer or to order', 'UCC 3-104(a)(1)', 'payable_to');
+  if (terms.timing === 'indefinite') fail('Must be payable on demand or at a definite time', 'UCC 3-104(a)(2)', 'timing');
+  if (terms.other_undertakings === true) fail('Must not state any other undertaking', 'UCC 3-104(a)(3)', 'other_undertakings');
+
+  // Nothing is presumed: an element missing from the terms cannot pass
+  const undecided = INSTRUMENT_ELEMENTS.filter(element => terms[element] === undefined);
+  const disagreements = (findings || []).filter(f => !f.agrees);
+  const unresolved = subRules.filter(step => step.outcome !== 'passed');
+  const outcome: ValidationOutcome = failures.length > 0 ? 'failed'
+    : undecided.length > 0 || disagreements.length > 0 || unresolved.length > 0 ? 'indeterminate'
+    : 'passed';
+
+  // Point the evidence at the precise clause(s) that caused the failure
+  const clauseSources = await Promise.all(failedClauses.map(async clause => hashedSource(await consultStatute(clause, { asOf }), clause)));
+
+  // Flag state departures from the model text the checks are written against
+  const stateNote = statute.jurisdiction && statute.jurisdiction.status !== 'model'
+    ? ` NOTE (${statute.jurisdiction.name}): ${statute.jurisdiction.note}`
+    : '';
+  // The checks track the current text; say so when an earlier version governed
+  const versionNote = statute.version?.note ? ` NOTE: Evaluated as of ${asOf} under the ${statute.version.note}.` : '';
+  const undecidedNote = undecided.length > 0
+    ? ` UNDECIDED: ${undecided.map(element => `${element} (${findingFor(element)?.reason || 'not stated'})`).join('; ')}.`
+    : '';
+  const disagreementNote = disagreements.length > 0
+    ? ` FLAGGED: The model's reading disagrees with the text on ${disagreements.map(f => `${f.element} (text: ${f.extracted}${quoteSpans(f)}; model: ${f.model})`).join('; ')}.`
+    : '';
+  const permitted = subRules.filter(step => step.outcome === 'passed' && step.rule_id !== 'UCC_3_113');
+  const subRuleNote = (permitted.length > 0 ? ` PERMITTED: ${permitted.map(step => step.rule_id).join(', ')}.` : '')
+    + (unresolved.length > 0 ? ` UNRESOLVED: ${unresolved.map(step => step.rule_id).join(', ')} cannot be applied on this date.` : '');
+
+  const verdict = outcome === 'passed'
+    ? 'PASSED: Instrument meets all UCC 3-104 requirements for negotiability.'
+    : outcome === 'failed'
+      ? `FAILED: Non-negotiable. Violations: ${failures.join(', ')}`
+      : 'INDETERMINATE: Negotiability cannot be decided from the terms as read. Route to human review.';
 
-  const passed = failures.length === 0;
-  
   return {
     rule_id: 'UCC_3_104',
-    passed,
-    details: passed 
-      ? 'PASSED: Instrument meets all UCC 3-104 requirements for negotiability.' 
-      : `FAILED: Non-negotiable. Violations: ${failures.join(', ')}`,
-    evidence_source: statute.citation || 'UCC 3-104', // Binding the code to the RAG result
-    timestamp: new Date().toISOString()
+    passed: outcome === 'passed',
+    outcome,
+    details: verdict + undecidedNote + disagreementNote + subRuleNote + stateNote + versionNote,
+    evidence_source: outcome === 'failed'
+      ? clauseSources.join('; ')
+      : hashedSource(statute, 'UCC 3-104'), // Binding the code to the RAG result
+    timestamp: new Date().toISOString(),
+    ...versionStamp(statute, asOf),
+    ...(findings ? { instrument_findings: findings } : {}),
+    ...(subRules.length > 0 ? { sub_rules: subRules } : {})
+  };
+};
+
+// A term the extractor excused under an Article 3 carve-out, checked against the carve-out's text
+const carveOutStep = async (exception: InstrumentException, asOf?: string): Promise<ValidationStep> => {
+  const statute = await consultStatute(exception.citation, { asOf });
+  if (!statute.found) return notInForce(exception.rule_id, statute, asOf);
+  return {
+    rule_id: exception.rule_id,
+    passed: true,
+    outcome: 'passed',
+    details: `PERMITTED: ${exception.reason} does not defeat ${exception.element} (${exception.citation}).`,
+    evidence_source: hashedSource(statute, exception.citation),
+    timestamp: new Date().toISOString(),
+    ...versionStamp(statute, asOf)
+  };
+};
+
+// UCC 3-113: antedating, postdating and a missing date never defeat negotiability, but they move
+// the time of payment, so the step says how
+const instrumentDateStep = async (dated: InstrumentDateReading, timing: InstrumentTerms['timing'] | undefined, asOf?: string): Promise<ValidationStep> => {
+  const citation = dated.date ? 'UCC 3-113(a)' : 'UCC 3-113(b)';
+  const statute = await consultStatute(citation, { asOf });
+  if (!statute.found) return notInForce('UCC_3_113', statute, asOf);
+
+  const issued = asOf || new Date().toISOString().slice(0, 10);
+  const effects: string[] = [];
+  if (dated.date && dated.date > issued) {
+    effects.push(timing === 'demand' ? `Postdated: payable on demand, but not before ${dated.date}.` : `Postdated after ${issued}.`);
+  }
+  if (dated.after_date) {
+    effects.push(dated.date ? `The period "after date" runs from ${dated.date}, whatever the actual date of issue.` : 'The period "after date" runs from the date of issue.');
+  }
+  return {
+    rule_id: 'UCC_3_113',
+    passed: true,
+    outcome: 'passed',
+    details: `PASSED: ${dated.date ? `${dated.reason} An instrument may be antedated or postdated` : 'Undated. Its date is the date of issue'} (${citation}).${effects.length > 0 ? ` NOTE: ${effects.join(' ')}` : ''}`,
+    evidence_source: hashedSource(statute, citation),
+    timestamp: new Date().toISOString(),
+    ...versionStamp(statute, asOf)
+  };
+};
+
+/**
+ * Negotiability from the instrument's own words. The clause extractor derives each element with
+ * its supporting span; the model's reading (`modelTerms`) is compared against it, never relied on.
+ * Each Article 3 carve-out the text relies on, and the instrument's date, gets its own sub-rule step.
+ * When the indorsements are given (`chain`), a negotiable instrument's chain is traced from the
+ * payee the text names to the person entitled to enforce it, as one more sub-rule.
+ */
+export const verifyInstrumentText = async (
+  text: string,
+  modelTerms: Partial<InstrumentTerms> = {},
+  jurisdiction?: string,
+  asOf?: string,
+  chain?: ChainInput
+): Promise<ValidationStep> => {
+  const extraction = extractInstrumentTerms(text);
+  const findings: InstrumentFinding[] = INSTRUMENT_ELEMENTS.map(element => {
+    const reading = extraction.elements[element];
+    const model = modelTerms[element];
+    return {
+      element,
+      ...(reading.value !== undefined ? { extracted: reading.value } : {}),
+      ...(model !== undefined ? { model } : {}),
+      agrees: reading.value === undefined || model === undefined || reading.value === model,
+      spans: reading.spans,
+      reason: reading.reason,
+    };
+  });
+  const subRules = await Promise.all(extraction.exceptions.map(exception => carveOutStep(exception, asOf)));
+  if (extraction.terms.promise_type) subRules.push(await instrumentDateStep(extraction.dated, extraction.terms.timing, asOf));
+  const negotiability = await verifyNegotiability(extraction.terms, jurisdiction, asOf, findings, subRules);
+  if (negotiability.outcome !== 'passed') return negotiability;
+
+  // Only a negotiable instrument has an Article 3 type, so classification follows the pass
+  const classification = await instrumentClassStep(text, extraction, asOf);
+  const indorsements = chain ? await indorsementChainStep(extraction, classification.instrument_class, chain, asOf) : undefined;
+  return {
+    ...negotiability,
+    sub_rules: [...subRules, classification, ...(indorsements ? [indorsements] : [])],
+    ...(classification.instrument_class ? { instrument_class: classification.instrument_class } : {}),
+    ...(indorsements?.indorsement_chain ? { indorsement_chain: indorsements.indorsement_chain } : {})
+  };
+};
+
+// Definitions of the capacities a classification assigns (UCC 3-103(a))
+const CAPACITY_DEFINITIONS: Partial<Record<PartyCapacity, string>> = {
+  maker: 'UCC 3-103(a)(5)',
+  drawer: 'UCC 3-103(a)(3)',
+  drawee: 'UCC 3-103(a)(2)',
+};
+
+const instrumentClassStep = async (text: string, extraction: InstrumentExtraction, asOf?: string): Promise<ValidationStep> => {
+  const classification = readInstrumentClass(text, extraction);
+  const statute = await consultStatute(classification.citation, { asOf });
+  if (!statute.found) return notInForce('UCC_3_104_CLASS', statute, asOf);
+  if (!classification.type) {
+    return {
+      rule_id: 'UCC_3_104_CLASS',
+      passed: false,
+      outcome: 'indeterminate',
+      details: `INDETERMINATE: ${classification.reason} Route to human review.`,
+      evidence_source: hashedSource(statute, classification.citation),
+      timestamp: new Date().toISOString(),
+      ...versionStamp(statute, asOf),
+      instrument_class: classification
+    };
+  }
+
+  const capacities = [...new Set(classification.parties.map(p => p.capacity))];
+  const definitions = await Promise.all(capacities.flatMap(capacity => CAPACITY_DEFINITIONS[capacity] ? [CAPACITY_DEFINITIONS[capacity]!] : [])
+    .map(async citation => hashedSource(await consultStatute(citation, { asOf }), citation)));
+  // A note needs its maker and a draft its drawer and drawee before liability can be traced
+  const expected: PartyCapacity[] = classification.form === 'note' ? ['maker', 'payee'] : ['drawer', 'drawee', 'payee'];
+  const missing = expected.filter(capacity => !capacities.includes(capacity));
+  const parties = classification.parties.map(p => `${p.capacity} ${p.name}`).join('; ');
+
+  return {
+    rule_id: 'UCC_3_104_CLASS',
+    passed: true,
+    outcome: 'passed',
+    details: `CLASSIFIED: ${INSTRUMENT_TYPE_LABELS[classification.type]} (${classification.citation}). ${classification.reason}` +
+      (parties ? ` PARTIES: ${parties.replace(/\.?$/, '.')}` : '') +
+      (missing.length > 0 ? ` NOTE: No ${missing.join(' or ')} is named in the text.` : ''),
+    evidence_source: [hashedSource(statute, classification.citation), ...definitions].join('; '),
+    timestamp: new Date().toISOString(),
+    ...versionStamp(statute, asOf),
+    instrument_class: classification
+  };
+};
+
+/**
+ * Classifies an instrument as a note, draft, check, cashier's, teller's or traveler's check, or
+ * certificate of deposit, with the capacity of each party. The instrument is checked for
+ * negotiability first; one that is not negotiable is not classified, and that check is returned
+ * as the only sub-rule.
+ */
+export const classifyInstrument = async (text: string, jurisdiction?: string, asOf?: string): Promise<ValidationStep> => {
+  const negotiability = await verifyInstrumentText(text, {}, jurisdiction, asOf);
+  const classification = negotiability.sub_rules?.find(step => step.rule_id === 'UCC_3_104_CLASS');
+  if (classification) return classification;
+  return {
+    rule_id: 'UCC_3_104_CLASS',
+    passed: false,
+    outcome: negotiability.outcome,
+    details: `NOT CLASSIFIED: Only a negotiable instrument is a note, draft or check (UCC 3-104(b), (e)). ${negotiability.details}`,
+    evidence_source: negotiability.evidence_source,
+    timestamp: new Date().toISOString(),
+    ...(negotiability.as_of ? { as_of: negotiability.as_of } : {}),
+    ...(negotiability.statute_version ? { statute_version: negotiability.statute_version } : {}),
+    sub_rules: [negotiability]
+  };
+};
+
+// A transferee, defense or indorsement decision, with the evidence bound to each pinpoint it cites
+const decisionStep = async (
+  rule_id: string,
+  decision: { outcome: ValidationOutcome; details: string; sources: string[] },
+  asOf?: string
+): Promise<ValidationStep> => {
+  const evidence = await Promise.all([...new Set(decision.sources)].map(async citation => hashedSource(await consultStatute(citation, { asOf }), citation)));
+  return {
+    rule_id,
+    passed: decision.outcome === 'passed',
+    outcome: decision.outcome,
+    details: decision.details,
+    evidence_source: evidence.join('; '),
+    timestamp: new Date().toISOString(),
+    ...(asOf ? { as_of: asOf } : {})
+  };
+};
+
+/**
+ * The indorsement chain, traced from the payee the instrument names (or from bearer), with one
+ * sub-rule per indorsement. The step's outcome is whether a person entitled to enforce (UCC 3-301)
+ * is established.
+ */
+const indorsementChainStep = async (
+  extraction: InstrumentExtraction,
+  classification: InstrumentClassification | undefined,
+  chain: ChainInput,
+  asOf?: string
+): Promise<ValidationStep> => {
+  const bearer = extraction.terms.payable_to === 'bearer';
+  const payee = bearer ? undefined : classification?.parties.find(p => p.capacity === 'payee')?.name;
+  const traced = traceIndorsements({ payee, bearer }, { ...chain, indorsements: chain.indorsements || [] });
+  const links = await Promise.all(traced.links.map(link => decisionStep('UCC_3_204_INDORSEMENT', link, asOf)));
+  const step = await decisionStep('UCC_3_301', traced, asOf);
+  const brokenAt = traced.links.find(link => link.outcome === 'failed');
+  const state = traced.links.length === 0 ? 'no indorsements.'
+    : traced.unbroken === true ? `${traced.links.length} indorsement(s), unbroken.`
+    : brokenAt ? `${traced.links.length} indorsement(s), broken at indorsement ${brokenAt.index} (${brokenAt.indorser}).`
+    : `${traced.links.length} indorsement(s); a link is undecided.`;
+  return {
+    ...step,
+    details: `${traced.details} CHAIN: From ${bearer ? 'bearer' : payee ?? 'an unnamed payee'}; ${state}`,
+    sub_rules: links,
+    indorsement_chain: traced
+  };
+};
+
+/**
+ * Holder in due course analysis of an instrument's transfer chain (UCC 3-302, 3-203(b)) and the
+ * defenses that survive against the final holder (UCC 3-305). Negotiability is read from the text
+ * first: a non-negotiable writing, or one carrying a UCC 3-106(d) notice, has no holder in due
+ * course. On a consumer credit contract the FTC Holder Rule (16 CFR 433.2) overrides the result.
+ * When the indorsements are given, the final transferee must also be shown entitled to enforce
+ * (UCC 3-301), and as the holder unless it relies on shelter. Sub-rules: the negotiability check, one step per transferee, one per defense, and the Holder Rule.
+ */
+export const verifyHolderInDueCourse = async (
+  text: string,
+  input: HolderInput,
+  jurisdiction?: string,
+  asOf?: string
+): Promise<ValidationStep> => {
+  const statute = await consultStatute('UCC 3-302', { jurisdiction, asOf });
+  if (!statute.found) return notInForce('UCC_3_302', statute, asOf);
+
+  const negotiability = await verifyInstrumentText(text, {}, jurisdiction, asOf, input.chain);
+  const claimsNotice = negotiability.sub_rules?.some(step => step.rule_id === 'UCC_3_106_d' && step.outcome === 'passed') || false;
+  const holderRule = input.consumer_credit ? await consultStatute('16 CFR 433.2', { asOf }) : undefined;
+  const analysis = evaluateHolderInDueCourse(input, {
+    negotiability: negotiability.outcome,
+    claims_preserved: claimsNotice,
+    holder_rule_in_force: holderRule?.found === true,
+  });
+
+  const transferSteps = await Promise.all(analysis.transferees.map(decision => decisionStep('UCC_3_302_TRANSFER', decision, asOf)));
+  const defenseSteps = await Promise.all(analysis.defenses.map(decision => decisionStep('UCC_3_305', decision, asOf)));
+  const chain = negotiability.indorsement_chain;
+  const notes: string[] = chain ? [`Indorsement chain: ${chain.details}`] : ['Each transferee is taken to be a holder; the indorsement chain is not read.'];
+  if (holderRule && !holderRule.found) notes.push(`The FTC Holder Rule was not in force on ${asOf}, so it does not apply.`);
+  if (analysis.holder_rule && !claimsNotice) notes.push('The contract omits the notice 16 CFR 433.2 requires; the rule is applied as if it were included.');
+  const ftcSteps: ValidationStep[] = analysis.holder_rule && holderRule ? [{
+    rule_id: 'FTC_433_2',
+    passed: false,
+    outcome: 'failed',
+    details: 'OVERRIDDEN: On a consumer credit contract any holder is subject to all claims and defenses the debtor could assert against the seller (16 CFR 433.2)' +
+      (analysis.recovery_cap !== undefined ? `; recovery by the debtor may not exceed the $${analysis.recovery_cap.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} paid.` : '; recovery by the debtor may not exceed the amounts paid.'),
+    evidence_source: hashedSource(holderRule, '16 CFR 433.2'),
+    timestamp: new Date().toISOString(),
+    ...versionStamp(holderRule, asOf)
+  }] : [];
+
+  // HDC rights in its own right need a holder; sheltered rights pass to a nonholder by transfer
+  const enforces = !!chain?.entitled && !!analysis.holder && sameName(chain.entitled, analysis.holder);
+  const chainOutcome: ValidationOutcome | undefined = !chain ? undefined
+    : chain.outcome === 'failed' ? 'failed'
+    : chain.outcome === 'passed' && enforces && (analysis.status !== 'holder_in_due_course' || chain.entitlement !== 'nonholder_in_possession') ? 'passed'
+    : 'indeterminate';
+  const holderOutcome: ValidationOutcome = analysis.transferees.length === 0 ? 'indeterminate'
+    : analysis.holder_rule ? 'failed'
+    : analysis.status === 'indeterminate' ? 'indeterminate'
+    : analysis.status === 'not_holder_in_due_course' ? 'failed' : 'passed';
+  const outcome: ValidationOutcome = holderOutcome === 'passed' && chainOutcome && chainOutcome !== 'passed' ? chainOutcome : holderOutcome;
+  const verdict = analysis.transferees.length === 0
+    ? 'INDETERMINATE: No transfer of the instrument was given. Route to human review.'
+    : outcome !== holderOutcome
+      ? outcome === 'failed'
+        ? `FAILED: ${analysis.holder} would take free of personal defenses, but the indorsement chain does not make it a person entitled to enforce the instrument (UCC 3-301).`
+        : `INDETERMINATE: ${analysis.holder} meets UCC 3-302, but the indorsement chain does not show it is the holder entitled to enforce the instrument, and only a holder is a holder in due course in its own right (UCC 3-302(a), 3-301). Route to human review.`
+    : analysis.holder_rule
+      ? `FAILED: ${analysis.holder} takes subject to every claim and defense against the seller under the FTC Holder Rule (16 CFR 433.2), whatever its status under UCC 3-302.`
+      : analysis.status === 'holder_in_due_course' ? `PASSED: ${analysis.holder} is a holder in due course (UCC 3-302(a)).`
+      : analysis.status === 'sheltered' ? `PASSED: ${analysis.holder} has the rights of a holder in due course by transfer (UCC 3-203(b)).`
+      : analysis.status === 'not_holder_in_due_course' ? `FAILED: ${analysis.holder} is not a holder in due course and takes subject to all defenses (UCC 3-305(a)).`
+      : `INDETERMINATE: Whether ${analysis.holder} has holder in due course rights cannot be decided from the facts given. Route to human review.`;
+  const defensesBy = (result: ValidationOutcome) => analysis.defenses.filter(d => d.outcome === result).map(d => d.description || DEFENSE_LABELS[d.kind]).join(', ');
+  const defenseNote = (defensesBy('passed') ? ` SURVIVING: ${defensesBy('passed')}.` : '')
+    + (defensesBy('failed') ? ` CUT OFF: ${defensesBy('failed')}.` : '')
+    + (defensesBy('indeterminate') ? ` UNDECIDED: ${defensesBy('indeterminate')}.` : '');
+  const defenseLaw = analysis.defenses.length > 0 ? [hashedSource(await consultStatute('UCC 3-305', { asOf }), 'UCC 3-305')] : [];
+
+  return {
+    rule_id: 'UCC_3_302',
+    passed: outcome === 'passed',
+    outcome,
+    details: `${verdict}${defenseNote} NOTE: ${notes.join(' ')}`,
+    evidence_source: [hashedSource(statute, 'UCC 3-302'), ...defenseLaw, ...ftcSteps.map(step => step.evidence_source)].join('; '),
+    timestamp: new Date().toISOString(),
+    ...versionStamp(statute, asOf),
+    sub_rules: [negotiability, ...transferSteps, ...defenseSteps, ...ftcSteps],
+    holder_analysis: analysis,
+    ...(chain ? { indorsement_chain: chain } : {})
   };
 };
 
@@ -176,11 +847,12 @@ export const analyzeContractRisks = async (clauseText: string, docType: string):
   // Simulating analysis against USC Title 15 (Commerce and Trade) and common law
   const risks: string[] = [];
   const lowerText = clauseText.toLowerCase();
+  const consulted: StatuteLookupResult[] = [];
 
   // Heuristic checks (The "Code" around the law)
   // These represent the "Contracts" in the code wrapping the Source Material
   if (lowerText.includes('waive all rights') || lowerText.includes('waive jury trial') || lowerText.includes('arbitration')) {
-    risks.push('CRITICAL: Mandatory arbitration/waiver clauses require scrutiny under Federal Arbitration Act (9 U.S.C. § 1 et seq).');
+    risks.push(`CRITICAL: Mandatory arbitration/waiver clauses require scrutiny under Federal Arbitration Act (${normalizeCitation('9 USC 1')} et seq).`);
   }
   if ((lowerText.includes('indemnify') || lowerText.includes('hold harmless')) && lowerText.includes('gross negligence')) {
     risks.push('HIGH: Indemnification for gross negligence is often void against public policy per Restatement (Second) of Contracts.');
@@ -189,17 +861,18 @@ export const analyzeContractRisks = async (clauseText: string, docType: string):
     risks.push('MEDIUM: Perpetual terms in service contracts are generally disfavored in common law.');
   }
   if (lowerText.includes('penalty') && !lowerText.includes('liquidated damages')) {
-    risks.push('HIGH: Punitive penalties are generally unenforceable (UCC § 2-718 requires reasonableness).');
+    risks.push(`HIGH: Punitive penalties are generally unenforceable (${normalizeCitation('UCC 2-718')} requires reasonableness).`);
   }
   
   // Confession of Judgment (FTC Act)
   // Check against the Library (RAG)
   if (lowerText.includes('confession of judgment') || lowerText.includes('cognovit')) {
-    const ftcRule = await consultStatute('FTC Credit Rule');
+    const ftcRule = await consultStatute('16 CFR 444.2(a)(1)');
     if (ftcRule.found) {
+        consulted.push(ftcRule);
         risks.push(`CRITICAL: Prohibited in consumer contracts. Source: ${ftcRule.citation}`);
     } else {
-        risks.push('CRITICAL: Confession of Judgment clauses are prohibited in consumer contracts (16 CFR 444.2).');
+        risks.push(`CRITICAL: Confession of Judgment clauses are prohibited in consumer contracts (${normalizeCitation('16 CFR 444.2')}).`);
     }
   }
 
@@ -208,10 +881,11 @@ export const analyzeContractRisks = async (clauseText: string, docType: string):
   return {
     rule_id: 'RISK_SCAN_USC_UCC',
     passed, // "Passed" means no critical risks found
+    outcome: passed ? 'passed' : 'failed',
     details: passed 
       ? 'CLEAN: No critical statutory risks identified in extracted clause.' 
       : `RISK ALERT: ${risks.join(' | ')}`,
-    evidence_source: 'USC Title 15, UCC & CFR Title 16',
+    evidence_source: ['USC Title 15, UCC & CFR Title 16', ...consulted.map(law => hashedSource(law, 'CFR Title 16'))].join('; '),
     timestamp: new Date().toISOString()
   };
 };
@@ -222,7 +896,7 @@ export const analyzeContractRisks = async (clauseText: string, docType: string):
 export const generateVerifiedForm = async (type: string, data: any): Promise<{ markdown: string, validation: ValidationStep }> => {
   let markdown = '';
   let validation: ValidationStep = {
-    rule_id: 'FORM_GEN', passed: false, details: 'Unknown form type', evidence_source: 'System', timestamp: new Date().toISOString()
+    rule_id: 'FORM_GEN', passed: false, outcome: 'failed', details: 'Unknown form type', evidence_source: 'System', timestamp: new Date().toISOString()
   };
 
   // 1. UCC PROMISSORY NOTE
@@ -235,7 +909,7 @@ export const generateVerifiedForm = async (type: string, data: any): Promise<{ m
       payable_to: 'order',
       timing: data.date ? 'definite' : 'demand',
       other_undertakings: false
-    });
+    }, data.state);
 
     if (check.passed) {
       markdown = `
@@ -267,7 +941,14 @@ The parties hereby execute this Note as of the date first written above.
 [SIGNATURE_FIELD:Lender Signature]
 **${data.lender || 'Lender'}**
 `;
-      validation = check;
+      // Record who is liable on the note as drafted: the borrower as maker, the lender as payee
+      const drafted = markdown.replace(/\*\*/g, '');
+      const classification = await instrumentClassStep(drafted, extractInstrumentTerms(drafted));
+      validation = {
+        ...check,
+        sub_rules: [...(check.sub_rules || []), classification],
+        ...(classification.instrument_class ? { instrument_class: classification.instrument_class } : {})
+      };
     } else {
       validation = check;
       markdown = `> **GENERATION BLOCKED**: Protocol Violation.\n> Reason: ${check.details}`;
@@ -281,13 +962,14 @@ The parties hereby execute this Note as of the date first written above.
     
     if (hasCollateral) {
         // Retrieve the Binding Text
-        const law = await consultStatute('UCC 9-203');
+        const law = await consultStatute('UCC 9-203', { jurisdiction: data.state });
         
         validation = {
             rule_id: 'UCC_9_203',
             passed: true,
+            outcome: 'passed',
             details: 'PASSED: Contains granting clause and collateral description (UCC 9-203).',
-            evidence_source: law.citation || 'UCC Article 9',
+            evidence_source: hashedSource(law, 'UCC Article 9'),
             timestamp: new Date().toISOString()
         };
         markdown = `
@@ -312,11 +994,15 @@ Upon default, Secured Party shall have all rights and remedies of a secured part
 **${data.debtor || 'Debtor'}**
 `;
     } else {
+        const clause = await consultStatute('UCC 9-203(b)(3)(A)');
+        const description = await consultStatute('UCC 9-108(b)');
+
         validation = {
             rule_id: 'UCC_9_203',
             passed: false,
+            outcome: 'failed',
             details: 'FAILED: Missing sufficient description of Collateral (UCC 9-108).',
-            evidence_source: 'UCC Article 9',
+            evidence_source: [clause, description].filter(law => law.found).map(law => hashedSource(law, 'UCC Article 9')).join('; ') || 'UCC Article 9',
             timestamp: new Date().toISOString()
         };
         markdown = `> **GENERATION BLOCKED**: UCC 9-203 violation. Security Agreement must reasonably identify the collateral.`;
@@ -348,11 +1034,18 @@ Seller warrants that they have good and marketable title to the Goods, free of a
 [SIGNATURE_FIELD:Buyer]
 **${data.buyer || 'Buyer'}**
 `;
+    // Some states never enacted Article 2 (e.g. Louisiana); cite the law that actually governs
+    const law = await consultStatute('UCC 2-201', { jurisdiction: data.state });
+    const stateRule = law.jurisdiction && law.jurisdiction.status !== 'model' ? law.jurisdiction : undefined;
+
     validation = {
         rule_id: 'UCC_2_201',
         passed: true,
-        details: 'PASSED: Written memorandum of sale (UCC 2-201).',
-        evidence_source: 'UCC Article 2',
+        outcome: 'passed',
+        details: stateRule
+          ? `PASSED: Written memorandum of sale. NOTE (${stateRule.name}): ${stateRule.note}`
+          : 'PASSED: Written memorandum of sale (UCC 2-201).',
+        evidence_source: withContentHash(stateRule?.adopted_as || 'UCC Article 2', law.sha256),
         timestamp: new Date().toISOString()
     };
   }
@@ -386,6 +1079,7 @@ Contractor acknowledges access to confidential information and agrees not to dis
      validation = {
         rule_id: 'COMMON_LAW_AGENCY',
         passed: true,
+        outcome: 'passed',
         details: 'PASSED: Explicitly defines Independent Contractor relationship.',
         evidence_source: 'IRS Common Law Rules',
         timestamp: new Date().toISOString()
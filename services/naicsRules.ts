@@ -0,0 +1,127 @@
+// The ordinary-expense rules table: which expense categories are "ordinary" (IRC 162(a)) for an
+// industry, keyed by NAICS code and shipped as data (rules/naics/*.json). Codes inherit down the
+// NAICS hierarchy, so a rule written for 2383 (Building Finishing Contractors) also covers 238350.
+
+import { z } from 'zod';
+import { CategoryFileZod, CategoryMatch, ExpenseCategory, ExpenseTaxonomy, buildTaxonomy, categoryLineage, classifyExpense } from './expenseTaxonomy';
+
+const NaicsCodeZod = z.string().regex(/^\d{2,6}$/, 'must be a 2-6 digit NAICS code');
+
+export const NaicsRuleZod = z.object({
+  naics: NaicsCodeZod,
+  title: z.string().min(1),                 // Official NAICS title for the code
+  ordinary: z.array(z.object({
+    category: z.string().min(1),
+    precedent: z.array(z.string().min(1)).min(1), // Authority establishing the category as ordinary
+  })).min(1),
+});
+
+export const RulesFileZod = z.object({
+  format_version: z.literal(1),
+  sector: z.string().regex(/^\d{2}$/, 'must be a 2-digit NAICS sector'),
+  title: z.string().min(1),
+  rules: z.array(NaicsRuleZod).min(1),
+});
+
+export type NaicsRule = z.infer<typeof NaicsRuleZod>;
+export type RulesFile = z.infer<typeof RulesFileZod>;
+
+export interface NaicsRulesTable {
+  taxonomy: ExpenseTaxonomy;
+  rules: Map<string, NaicsRule>;             // NAICS code (2-6 digits) -> rule
+}
+
+export interface OrdinaryRuleMatch {
+  is_ordinary: boolean;
+  industry_known: boolean;                   // Some rule exists for the code or one of its ancestors
+  category?: CategoryMatch;                  // What the free-text item was classified as
+  allowed_as?: ExpenseCategory;              // The category the rule names (the item's own or a parent)
+  rule?: NaicsRule;                          // The most specific rule allowing the category
+  precedent: string[];
+  inherited_from: string[];                  // Codes consulted, most specific first
+}
+
+export class RulesTableValidationError extends Error {
+  constructor(public readonly file: string, public readonly issues: string[]) {
+    super(`[ArbiterOS]: Malformed rules table file '${file}':\n  - ${issues.join('\n  - ')}`);
+    this.name = 'RulesTableValidationError';
+  }
+}
+
+export const parseWithSchema = <T>(schema: z.ZodType<T>, file: string, raw: unknown): T => {
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new RulesTableValidationError(
+      file,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+};
+
+/**
+ * Builds the table from the category file and the per-sector rule files (keyed by file name).
+ * Every rule must sit inside its file's sector, appear once, and name a known category.
+ */
+export const loadNaicsRules = (categoryFile: { name: string; raw: unknown }, rawRuleFiles: Record<string, unknown>): NaicsRulesTable => {
+  const categoryData = parseWithSchema(CategoryFileZod, categoryFile.name, categoryFile.raw);
+  const { taxonomy, issues: taxonomyIssues } = buildTaxonomy(categoryData.categories);
+  if (taxonomyIssues.length > 0) throw new RulesTableValidationError(categoryFile.name, taxonomyIssues);
+  const categories = taxonomy.categories;
+
+  const rules = new Map<string, NaicsRule>();
+  Object.keys(rawRuleFiles).sort().forEach(name => {
+    const file = parseWithSchema(RulesFileZod, name, rawRuleFiles[name]);
+    file.rules.forEach((rule, index) => {
+      const issues: string[] = [];
+      if (!rule.naics.startsWith(file.sector)) issues.push(`rules.${index}.naics: '${rule.naics}' is outside sector ${file.sector}`);
+      if (rules.has(rule.naics)) issues.push(`rules.${index}.naics: '${rule.naics}' is defined twice`);
+      rule.ordinary.forEach((entry, i) => {
+        if (!categories.has(entry.category)) issues.push(`rules.${index}.ordinary.${i}.category: unknown category '${entry.category}'`);
+      });
+      if (issues.length > 0) throw new RulesTableValidationError(name, issues);
+      rules.set(rule.naics, rule);
+    });
+  });
+
+  return { taxonomy, rules };
+};
+
+// Bundled at build time like the statute corpus; adding a sector file needs no code change.
+const categoryModules = import.meta.glob('../rules/expense-categories.json', { eager: true, import: 'default' });
+const ruleModules = import.meta.glob('../rules/naics/*.json', { eager: true, import: 'default' });
+
+export const NAICS_RULES: NaicsRulesTable = loadNaicsRules(
+  { name: 'expense-categories.json', raw: Object.values(categoryModules)[0] },
+  ruleModules
+);
+
+/**
+ * Ancestors of a NAICS code from most to least specific: "238350" -> 238350, 23835, 2383, 238, 23.
+ */
+export const naicsLineage = (naics: string): string[] => {
+  const code = naics.replace(/\D/g, '').slice(0, 6);
+  const lineage: string[] = [];
+  for (let length = code.length; length >= 2; length--) lineage.push(code.slice(0, length));
+  return lineage;
+};
+
+/**
+ * Classifies the line item, then walks up the NAICS hierarchy until a rule allows its
+ * category or one of that category's parents.
+ */
+export const matchOrdinaryRule = (naics: string, item: string, table: NaicsRulesTable = NAICS_RULES): OrdinaryRuleMatch => {
+  const lineage = naicsLineage(naics).filter(code => table.rules.has(code));
+  const category = classifyExpense(item, table.taxonomy);
+  const base = { industry_known: lineage.length > 0, ...(category ? { category } : {}), inherited_from: lineage };
+  const allowable = category ? categoryLineage(category.category, table.taxonomy) : [];
+
+  for (const code of lineage) {
+    const rule = table.rules.get(code)!;
+    for (const candidate of allowable) {
+      const entry = rule.ordinary.find(o => o.category === candidate.id);
+      if (entry) return { ...base, is_ordinary: true, allowed_as: candidate, rule, precedent: entry.precedent };
+    }
+  }
+  return { ...base, is_ordinary: false, precedent: [] };
+};
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateNecessity } from './necessityPolicy';
+
+// NAICS 236220 (commercial building construction) falls under the 60% construction threshold
+const evaluate = (revenue: number[]) => evaluateNecessity({ expense_amount: 60000, revenue, naics: '236220' });
+
+describe('evaluateNecessity', () => {
+  it('compares a single trading year against its revenue', () => {
+    const decision = evaluate([100000]);
+    expect(decision.outcome).toBe('passed');
+    expect(decision.ratio).toBeCloseTo(0.6);
+  });
+
+  it('leaves zero years from before the business out of the average', () => {
+    const decision = evaluate([100000, 0, 0]);
+    expect(decision.outcome).toBe('passed');
+    expect(decision.ratio).toBeCloseTo(0.6);
+    expect(decision.years_averaged).toBe(1);
+    expect(decision.details).toContain('2 earlier year(s) with no revenue predate the business');
+  });
+
+  it('still averages a zero year after revenue began', () => {
+    const decision = evaluate([100000, 0, 50000]);
+    expect(decision.outcome).toBe('failed');
+    expect(decision.revenue_basis).toBe(50000);
+  });
+
+  it('treats a record with no revenue at all as a start-up year', () => {
+    expect(evaluate([0, 0, 0])).toMatchObject({ outcome: 'indeterminate', policy: 'startup' });
+  });
+});
@@ -0,0 +1,174 @@
+// The necessity (amount) test as policy data (rules/necessity.json): an expense-to-revenue
+// threshold per NAICS code, industry benchmark ratios per expense category, how many years of
+// revenue to average, and what to do in a start-up year with no revenue. Codes inherit down
+// the NAICS hierarchy exactly like the ordinary-expense rules.
+
+import { z } from 'zod';
+import { ValidationOutcome } from './legalEngine';
+import { NAICS_RULES, RulesTableValidationError, naicsLineage, parseWithSchema } from './naicsRules';
+import { categoryLineage, classifyExpense } from './expenseTaxonomy';
+
+const RatioZod = z.number().positive().max(1);
+
+export const BenchmarkZod = z.object({
+  category: z.string().min(1).optional(),   // Expense category id (or a parent); omitted = any expense
+  ratio: RatioZod,                          // Typical ceiling of this spend relative to revenue
+  source: z.string().min(1),                // Where the benchmark comes from
+});
+
+export const NecessityPolicyZod = z.object({
+  naics: z.string().regex(/^\d{2,6}$/, 'must be a 2-6 digit NAICS code'),
+  title: z.string().min(1),
+  max_ratio: RatioZod.optional(),           // Above this share of revenue the expense fails
+  averaging_years: z.number().int().min(1).max(10).optional(),
+  source: z.string().min(1),                // Why this industry's threshold differs from the default
+  benchmarks: z.array(BenchmarkZod).optional(),
+}).refine(policy => policy.max_ratio !== undefined || (policy.benchmarks || []).length > 0, {
+  message: 'a policy must set max_ratio or list benchmarks',
+});
+
+export const NecessityFileZod = z.object({
+  format_version: z.literal(1),
+  title: z.string().min(1),
+  note: z.string().optional(),
+  default: z.object({
+    max_ratio: RatioZod,
+    averaging_years: z.number().int().min(1).max(10),
+    source: z.string().min(1),
+  }),
+  startup: z.object({
+    deduction_limit: z.number().nonnegative(),
+    phase_out_threshold: z.number().nonnegative(),
+    amortization_months: z.number().int().positive(),
+    source: z.string().min(1),
+  }),
+  policies: z.array(NecessityPolicyZod),
+});
+
+export type NecessityPolicy = z.infer<typeof NecessityPolicyZod>;
+export type Benchmark = z.infer<typeof BenchmarkZod>;
+export type NecessityFile = z.infer<typeof NecessityFileZod>;
+
+export interface NecessityPolicies {
+  file: NecessityFile;
+  byNaics: Map<string, NecessityPolicy>;
+}
+
+export interface NecessityInput {
+  expense_amount: number;
+  revenue: number[];                        // Gross receipts, current year first, then prior years
+  naics?: string;
+  category?: string;                        // Free-text item; classified to pick a benchmark
+}
+
+export type NecessityPolicyKind = 'industry_threshold' | 'default_threshold' | 'startup' | 'invalid_input';
+
+export interface NecessityDecision {
+  outcome: ValidationOutcome;
+  policy: NecessityPolicyKind;
+  details: string;
+  sources: string[];                        // Policy and benchmark sources relied on
+  ratio?: number;
+  revenue_basis?: number;                   // Averaged revenue the ratio was taken against
+  years_averaged?: number;
+  threshold?: number;
+  benchmark?: Benchmark;
+}
+
+export const loadNecessityPolicies = (name: string, raw: unknown): NecessityPolicies => {
+  const file = parseWithSchema(NecessityFileZod, name, raw);
+  const byNaics = new Map<string, NecessityPolicy>();
+  const issues: string[] = [];
+  file.policies.forEach((policy, index) => {
+    if (byNaics.has(policy.naics)) issues.push(`policies.${index}.naics: '${policy.naics}' is defined twice`);
+    (policy.benchmarks || []).forEach((benchmark, i) => {
+      if (benchmark.category && !NAICS_RULES.taxonomy.categories.has(benchmark.category)) {
+        issues.push(`policies.${index}.benchmarks.${i}.category: unknown category '${benchmark.category}'`);
+      }
+    });
+    byNaics.set(policy.naics, policy);
+  });
+  if (issues.length > 0) throw new RulesTableValidationError(name, issues);
+  return { file, byNaics };
+};
+
+const policyModules = import.meta.glob('../rules/necessity.json', { eager: true, import: 'default' });
+
+export const NECESSITY_POLICIES: NecessityPolicies = loadNecessityPolicies('necessity.json', Object.values(policyModules)[0]);
+
+const percent = (ratio: number): string => `${(ratio * 100).toFixed(1)}%`;
+const dollars = (amount: number): string => `$${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Applies the necessity policy for the industry, in order:
+ *  1. Unusable input (non-finite or negative amount or revenue) is indeterminate, never a NaN ratio.
+ *  2. No revenue in any year averaged is a start-up year: the ratio test cannot apply, and
+ *     pre-opening costs belong under IRC 195, so the item goes to review with the 195 limits.
+ *     Zero years before the first revenue year are start-up years too and are left out of the
+ *     average: [100000, 0, 0] is one trading year, not a $33,333 average.
+ *  3. Otherwise the expense is compared with the averaged revenue against the most specific
+ *     threshold on the NAICS lineage (or the default); exceeding it fails. Exceeding only the
+ *     industry benchmark for the category passes with a note citing the benchmark.
+ */
+export const evaluateNecessity = (input: NecessityInput, policies: NecessityPolicies = NECESSITY_POLICIES): NecessityDecision => {
+  const { expense_amount, revenue } = input;
+  const lineage = naicsLineage(input.naics || '').map(code => policies.byNaics.get(code)).filter((p): p is NecessityPolicy => !!p);
+  const thresholdPolicy = lineage.find(policy => policy.max_ratio !== undefined);
+  const averaging_years = lineage.find(policy => policy.averaging_years !== undefined)?.averaging_years ?? policies.file.default.averaging_years;
+
+  if (!Number.isFinite(expense_amount) || expense_amount < 0) {
+    return { outcome: 'indeterminate', policy: 'invalid_input', sources: [], details: `INDETERMINATE: Expense amount '${expense_amount}' is not a usable dollar figure. Route to human review.` };
+  }
+  const years = revenue.slice(0, averaging_years);
+  if (years.length === 0 || years.some(value => !Number.isFinite(value) || value < 0)) {
+    return { outcome: 'indeterminate', policy: 'invalid_input', sources: [], details: `INDETERMINATE: Gross revenue [${revenue.join(', ')}] is missing or not a usable dollar figure (it cannot be negative). Route to human review.` };
+  }
+
+  // Revenue runs current year first, so pre-revenue years are the trailing zeros
+  const lastTrading = years.reduce((last, value, index) => (value > 0 ? index : last), -1);
+  const trading = lastTrading >= 0 ? years.slice(0, lastTrading + 1) : years;
+  const startupYears = years.length - trading.length;
+  const revenue_basis = trading.reduce((sum, value) => sum + value, 0) / trading.length;
+  if (revenue_basis === 0) {
+    const { deduction_limit, phase_out_threshold, amortization_months, source } = policies.file.startup;
+    return {
+      outcome: 'indeterminate',
+      policy: 'startup',
+      sources: [source],
+      revenue_basis,
+      years_averaged: years.length,
+      details: `INDETERMINATE: No revenue in the ${years.length} year(s) on record, so the revenue-ratio test cannot apply (start-up year). ` +
+        `Costs incurred before the business began are start-up expenditures under ${source}: up to ${dollars(deduction_limit)} deductible in the first year ` +
+        `(reduced dollar-for-dollar once total start-up costs pass ${dollars(phase_out_threshold)}), the rest amortized over ${amortization_months} months. Route to human review.`,
+    };
+  }
+
+  const ratio = expense_amount / revenue_basis;
+  const threshold = thresholdPolicy?.max_ratio ?? policies.file.default.max_ratio;
+  const thresholdSource = thresholdPolicy
+    ? `Necessity policy NAICS ${thresholdPolicy.naics} (${thresholdPolicy.title}): ${thresholdPolicy.source}`
+    : policies.file.default.source;
+
+  // The most specific benchmark for the item's category (or a parent), then a general one
+  const match = input.category ? classifyExpense(input.category, NAICS_RULES.taxonomy) : undefined;
+  const categoryIds = match ? categoryLineage(match.category, NAICS_RULES.taxonomy).map(category => category.id) : [];
+  const benchmarks = lineage.flatMap(policy => policy.benchmarks || []);
+  const benchmark = benchmarks.find(b => b.category && categoryIds.includes(b.category)) || benchmarks.find(b => !b.category);
+
+  const basis = trading.length > 1
+    ? `average gross revenue of ${dollars(revenue_basis)} over ${trading.length} years`
+    : `gross revenue of ${dollars(revenue_basis)}`;
+  const startupNote = startupYears > 0 ? ` ${startupYears} earlier year(s) with no revenue predate the business and are not averaged.` : '';
+  const policy: NecessityPolicyKind = thresholdPolicy ? 'industry_threshold' : 'default_threshold';
+  const policyLabel = thresholdPolicy ? `NAICS ${thresholdPolicy.naics} threshold` : 'default threshold';
+  const sources = [thresholdSource, ...(benchmark ? [benchmark.source] : [])];
+  const base = { policy, sources, ratio, revenue_basis, years_averaged: trading.length, threshold, ...(benchmark ? { benchmark } : {}) };
+
+  if (ratio > threshold) {
+    return { ...base, outcome: 'failed', details: `FAILED: Expense-to-revenue ratio is ${percent(ratio)} of ${basis} (exceeds the ${percent(threshold)} ${policyLabel}).${startupNote}` };
+  }
+  const benchmarkNote = benchmark && ratio > benchmark.ratio
+    ? ` NOTE: Above the ${percent(benchmark.ratio)} industry benchmark${benchmark.category ? ` for ${benchmark.category}` : ''} (${benchmark.source}); keep support for the amount.`
+    : '';
+  return { ...base, outcome: 'passed', details: `PASSED: Expense-to-revenue ratio is ${percent(ratio)} of ${basis} (within the ${percent(threshold)} ${policyLabel}).${startupNote}${benchmarkNote}` };
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { Receipt, allocateTax, auditReceipt, parseReceipt } from './receipts';
+
+const options = { business_revenue: 500000, naics: '541110' };
+
+const receiptOf = (amounts: number[], tax: number): Receipt => parseReceipt({
+  vendor: 'Hardware Depot', date: '2024-05-01', tax,
+  total: amounts.reduce((sum, amount) => sum + amount, 0) + tax,
+  line_items: amounts.map(amount => ({ description: 'Hammer', amount })),
+}).receipt;
+
+const inCents = (amounts: number[]) => Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100);
+
+describe('allocateTax', () => {
+  it('gives the last line the rounding remainder so the lines add up to items plus tax', () => {
+    expect(allocateTax(receiptOf([10, 10, 10], 1))).toEqual([10.33, 10.33, 10.34]);
+    const receipt = receiptOf([33.33, 33.33, 33.34], 8.25);
+    const lines = allocateTax(receipt);
+    expect(lines).toEqual([36.08, 36.08, 36.09]);
+    expect(inCents(lines)).toBe(10825);
+  });
+
+  it('shares tax in proportion to each line, down to a line too small for a cent', () => {
+    expect(allocateTax(receiptOf([25, 75], 8))).toEqual([27, 81]);
+    expect(allocateTax(receiptOf([0.01, 99.99], 0.07))).toEqual([0.01, 100.06]);
+  });
+
+  it('leaves the amounts as they are with no tax', () => {
+    expect(allocateTax(receiptOf([19.99, 5.01], 0))).toEqual([19.99, 5.01]);
+  });
+});
+
+describe('auditReceipt', () => {
+  it('limits a meal receipt with a business purpose to 50%, tax included', async () => {
+    const { receipt } = parseReceipt({
+      vendor: 'Corner Bistro', date: '2024-05-01', tax: 8, total: 108,
+      line_items: [{ description: 'Meals', amount: 100 }],
+      business_purpose: 'Lunch with Acme re: bid',
+    });
+    const report = await auditReceipt(receipt, options);
+    expect(report.lines[0].deductible_amount).toBe(54);
+    expect(report.totals).toMatchObject({ deductible: 54, disallowed: 54 });
+  });
+
+  it('tests capitalization on the unit cost of a multi-unit line', async () => {
+    const { receipt } = parseReceipt({
+      vendor: 'Best Buy', date: '2024-05-01', tax: 0, total: 45000,
+      line_items: [{ description: 'Laptop', quantity: 10, amount: 15000 }, { description: 'Laptop', quantity: 10, amount: 30000 }],
+    });
+    const report = await auditReceipt(receipt, { business_revenue: 5000000, naics: '541110' });
+    const capitalization = report.lines.map(line => line.steps.find(step => step.rule_id === 'rule_current_expense'));
+    expect(capitalization[0]?.outcome).toBe('passed');
+    expect(capitalization[0]?.details).toContain('$1,500.00, within the $2,500.00 de minimis safe harbor');
+    expect(capitalization[1]?.outcome).toBe('failed');
+    expect(capitalization[1]?.details).toContain('10 units at $3,000.00 each');
+    expect(report.totals).toMatchObject({ deductible: 15000, capitalized: 30000 });
+  });
+});
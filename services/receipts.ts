@@ -0,0 +1,129 @@
+// Receipts and invoices as typed data: the model's extraction is validated here, confirmed by the
+// user, and then each line item runs the same deterministic checks as a ledger transaction.
+
+import { z } from 'zod';
+import { AuditEntry } from '../types';
+import { LedgerAuditOptions, LedgerLineResult, LedgerTotals, auditTransaction, logProfileBinding, summarizeLedger } from './ledgerAudit';
+import { LedgerTransaction, normalizeLedgerDate } from './ledgerImport';
+import { sha256 } from './sha256';
+
+const MoneyZod = z.number().finite();
+
+export const ReceiptLineItemZod = z.object({
+  description: z.string().trim().min(1),
+  quantity: z.number().positive().optional(),
+  amount: MoneyZod.positive(),               // Extended price for the line, before tax
+});
+
+export const ReceiptZod = z.object({
+  vendor: z.string().trim().min(1),
+  // Any spelling the ledger import reads (03/15/2024, 20240315) is normalized first
+  date: z.preprocess(
+    value => (typeof value === 'string' ? normalizeLedgerDate(value) ?? value : value),
+    z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a date (YYYY-MM-DD)')
+  ),
+  line_items: z.array(ReceiptLineItemZod).min(1),
+  tax: MoneyZod.nonnegative(),
+  total: MoneyZod.positive(),
+  business_purpose: z.string().trim().min(1).optional(), // Entered on confirmation; a meal needs one
+});
+
+export type ReceiptLineItem = z.infer<typeof ReceiptLineItemZod>;
+export type Receipt = z.infer<typeof ReceiptZod>;
+
+export interface ParsedReceipt {
+  receipt: Receipt;
+  warnings: string[];                        // Readable but inconsistent, e.g. items + tax != total
+}
+
+export interface ReceiptAuditReport {
+  receipt_id: string;                        // First 12 hex digits of the SHA-256 of the confirmed receipt
+  receipt: Receipt;
+  lines: LedgerLineResult[];                 // One per line item, tax included
+  totals: LedgerTotals;
+}
+
+export class ReceiptExtractionError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(`[ArbiterOS]: ${message}${issues.length > 0 ? `:\n  - ${issues.join('\n  - ')}` : ''}`);
+    this.name = 'ReceiptExtractionError';
+  }
+}
+
+type LogAudit = (action: string, details: string, source: AuditEntry['source'], status?: AuditEntry['status']) => void;
+
+const cents = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Validates an extracted (or user-edited) receipt. Items plus tax that do not add up to the total
+ * (a discount, a tip, a misread digit) are a warning for the user to resolve, not a rejection.
+ */
+export const parseReceipt = (raw: unknown): ParsedReceipt => {
+  const result = ReceiptZod.safeParse(raw);
+  if (!result.success) {
+    throw new ReceiptExtractionError(
+      'Receipt could not be read',
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  const receipt = result.data;
+  const warnings: string[] = [];
+  const computed = cents(receipt.line_items.reduce((sum, item) => sum + item.amount, 0) + receipt.tax);
+  if (Math.abs(computed - receipt.total) > 0.01) {
+    warnings.push(`Line items plus tax come to $${computed.toFixed(2)}, but the total reads $${receipt.total.toFixed(2)}.`);
+  }
+  return { receipt, warnings };
+};
+
+/**
+ * Each line's share of the sales tax, in proportion to its amount. Tax paid on a purchase is part
+ * of its cost, so it is audited with the item. The last line takes the rounding remainder.
+ */
+export const allocateTax = (receipt: Receipt): number[] => {
+  const subtotal = receipt.line_items.reduce((sum, item) => sum + item.amount, 0);
+  let remaining = receipt.tax;
+  return receipt.line_items.map((item, index) => {
+    const share = index === receipt.line_items.length - 1 ? cents(remaining) : cents(receipt.tax * item.amount / subtotal);
+    remaining -= share;
+    return cents(item.amount + share);
+  });
+};
+
+/**
+ * Runs every line item of a confirmed receipt through the ledger checks (ordinary, then necessary,
+ * capitalization and any special-rule limit), dated the receipt date, and logs the result to the
+ * Governance Ledger.
+ */
+export const auditReceipt = async (receipt: Receipt, options: LedgerAuditOptions, logAudit?: LogAudit): Promise<ReceiptAuditReport> => {
+  const receipt_id = sha256(JSON.stringify(receipt)).slice(0, 12);
+  const amounts = allocateTax(receipt);
+
+  const transactions: LedgerTransaction[] = receipt.line_items.map((item, index) => ({
+    line: index + 1,
+    date: receipt.date,
+    amount: amounts[index],
+    category: item.description,
+    ...(item.quantity ? { quantity: item.quantity } : {}),
+    description: receipt.vendor,
+    ...(receipt.business_purpose ? { business_purpose: receipt.business_purpose } : {}),
+  }));
+  if (logAudit) logProfileBinding(transactions, options, logAudit);
+
+  const lines: LedgerLineResult[] = [];
+  for (const transaction of transactions) lines.push(await auditTransaction(transaction, options));
+  const totals = summarizeLedger(lines);
+
+  if (logAudit) {
+    logAudit(
+      'Result: receipt',
+      `${receipt.vendor} ${receipt.date} (receipt ${receipt_id}): $${totals.deductible.toFixed(2)} deductible, ` +
+        `$${totals.capitalized.toFixed(2)} capitalized, $${totals.flagged.toFixed(2)} flagged, ` +
+        `$${totals.needs_review.toFixed(2)} needs review of $${totals.total_spend.toFixed(2)}`,
+      'Arbiter',
+      totals.flagged > 0 ? 'Error' : totals.needs_review > 0 ? 'Review' : 'Verified'
+    );
+  }
+
+  return { receipt_id, receipt, lines, totals };
+};
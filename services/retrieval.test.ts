@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { MIN_EXPANSION_SCORE, createExpansionBackend, retrieveStatutes, expansionBackend } from './retrieval';
+import { consultStatute } from './legalEngine';
+import { buildKeywordVectorFile } from './keywordExpansion';
+import { STATUTE_CORPUS } from './statuteCorpus';
+
+describe('keyword-expansion retrieval', () => {
+  it('drops hits below the minimum similarity', () => {
+    expect(expansionBackend.unavailableReason()).toBeUndefined();
+    expect(expansionBackend.search('pizza recipe', 3)).toEqual([]);
+    const hits = expansionBackend.search('statute of frauds sale of goods', 3);
+    expect(hits[0].section.citation).toBe('UCC 2-201');
+    expect(hits.every(hit => hit.score >= MIN_EXPANSION_SCORE)).toBe(true);
+  });
+
+  it('returns found: false for an off-topic query', async () => {
+    for (const query of ['pizza recipe', 'xyzzy']) {
+      expect(retrieveStatutes(query, 3).hits, query).toEqual([]);
+      const result = await consultStatute(query);
+      expect(result.found, query).toBe(false);
+    }
+  });
+
+  it('reports vectors of the wrong dimensions as unavailable', () => {
+    const file = buildKeywordVectorFile(STATUTE_CORPUS);
+    expect(createExpansionBackend({ ...file, dimensions: 256 }).unavailableReason()).toContain('256 dimensions');
+    const [citation] = Object.keys(file.sections);
+    const short = { ...file, sections: { ...file.sections, [citation]: { ...file.sections[citation], vector: file.sections[citation].vector.slice(0, 10) } } };
+    expect(createExpansionBackend(short).unavailableReason()).toContain(citation);
+    expect(createExpansionBackend(short).search('statute of frauds', 3)).toEqual([]);
+  });
+});
+
+// Queries whose words are not in the CONCEPTS synonym table
+describe('keyword expansion outside its synonym table', () => {
+  it('matches an inflection through its stem and spelling', () => {
+    const hits = expansionBackend.search('indorsements', 3);
+    expect(hits.map(hit => hit.section.citation).sort()).toEqual(['UCC 3-204', 'UCC 3-205', 'UCC 3-206']);
+  });
+
+  it('does not match a paraphrase that shares no word with the section', () => {
+    expect(expansionBackend.search('verbal agreement for a car', 3)).toEqual([]);
+    expect(expansionBackend.search('tricked into it', 3)).toEqual([]);
+    const fallback = retrieveStatutes('verbal agreement for a car', 3);
+    expect(fallback.backend).toBe('keyword-bm25');
+    expect(fallback.hits.map(hit => hit.section.citation)).not.toContain('UCC 2-201');
+  });
+});
@@ -0,0 +1,106 @@
+// Pluggable retrieval behind consultStatute. Backends are tried in order; the first one that is
+// available answers. The default order is keyword expansion (terms plus a synonym table, see
+// keywordExpansion.ts), then BM25 keyword search, so review rooms without the vectors file still
+// get ranked results. Neither backend is a semantic model.
+
+import { STATUTE_CORPUS, StatuteCorpus, findSection } from './statuteCorpus';
+import { STATUTE_INDEX, StatuteHit, buildSnippet, searchIndex } from './statuteIndex';
+import { EXPANSION_DIMENSIONS, EXPANSION_MODEL, KeywordVectorFile, KeywordVectorFileZod, cosine, hashText, keywordVector, sectionDocument } from './keywordExpansion';
+
+export interface RetrievalBackend {
+  name: string;
+  // Why the backend cannot answer, or undefined when it can
+  unavailableReason(): string | undefined;
+  search(query: string, limit: number): StatuteHit[];
+}
+
+export interface RetrievalResult {
+  backend: string;
+  hits: StatuteHit[];
+}
+
+export const keywordBackend: RetrievalBackend = {
+  name: 'keyword-bm25',
+  unavailableReason: () => undefined,
+  search: (query, limit) => searchIndex(STATUTE_INDEX, query, limit),
+};
+
+// Below this cosine a hit shares only incidental hashed terms with the query ("pizza recipe"
+// scores ~0.03 against UCC 3-203); such hits are dropped so the keyword index, or no result, answers
+export const MIN_EXPANSION_SCORE = 0.15;
+
+/**
+ * Cosine search over precomputed keyword-expansion vectors. The file must come from the same
+ * expansion version and dimensions as the query and cover every section's current text;
+ * otherwise the backend reports itself unavailable rather than silently searching part of
+ * the library.
+ */
+export const createExpansionBackend = (raw: unknown, corpus: StatuteCorpus = STATUTE_CORPUS): RetrievalBackend => {
+  const parsed = raw === undefined ? undefined : KeywordVectorFileZod.safeParse(raw);
+  const file: KeywordVectorFile | undefined = parsed?.success ? parsed.data : undefined;
+
+  let reason: string | undefined;
+  if (!parsed) reason = 'no keyword vectors file (corpus/index/keyword-vectors.json)';
+  else if (!file) reason = 'keyword vectors file is malformed';
+  else if (file.model !== EXPANSION_MODEL) reason = `keyword vectors were built with '${file.model}', queries use '${EXPANSION_MODEL}'`;
+  else if (file.dimensions !== EXPANSION_DIMENSIONS) reason = `keyword vectors have ${file.dimensions} dimensions, queries use ${EXPANSION_DIMENSIONS}`;
+  else {
+    const misshapen = Object.keys(file.sections).filter(citation => file.sections[citation].vector.length !== EXPANSION_DIMENSIONS);
+    const stale = corpus.sections.filter(s => file.sections[s.citation]?.text_hash !== hashText(sectionDocument(s)));
+    if (misshapen.length > 0) reason = `keyword vectors for ${misshapen.join(', ')} do not have ${EXPANSION_DIMENSIONS} dimensions`;
+    else if (stale.length > 0) reason = `keyword vectors are missing or stale for ${stale.map(s => s.citation).join(', ')}`;
+  }
+
+  return {
+    name: 'keyword-expansion',
+    unavailableReason: () => reason,
+    search: (query, limit) => {
+      if (!file || reason) return [];
+      const queryVector = keywordVector(query);
+      return corpus.sections
+        .map(section => ({ section, score: cosine(queryVector, file.sections[section.citation].vector) }))
+        .filter(({ score }) => score >= MIN_EXPANSION_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ section, score }) => ({ section, score: Number(score.toFixed(4)), snippet: buildSnippet(section.text, query) }));
+    },
+  };
+};
+
+const vectorModules = import.meta.glob('../corpus/index/keyword-vectors.json', { eager: true, import: 'default' });
+
+export const expansionBackend: RetrievalBackend = createExpansionBackend(Object.values(vectorModules)[0]);
+
+let backends: RetrievalBackend[] = [expansionBackend, keywordBackend];
+
+const unavailable = expansionBackend.unavailableReason();
+if (unavailable) {
+  console.warn(`[ArbiterOS]: Keyword expansion unavailable (${unavailable}); using BM25 keyword search. Run 'npm run build:keyword-vectors' to rebuild.`);
+}
+
+/**
+ * Replaces the backend chain, e.g. to put a hosted vector DB ahead of keyword expansion.
+ */
+export const setRetrievalBackends = (chain: RetrievalBackend[]) => {
+  backends = chain;
+};
+
+export const getRetrievalBackends = (): RetrievalBackend[] => backends;
+
+/**
+ * Ranked search through the first available backend, falling through when a backend finds nothing.
+ * An exact citation (in any spelling) or alias always outranks relevance.
+ */
+export const retrieveStatutes = (query: string, limit: number = 5): RetrievalResult => {
+  let result: RetrievalResult = { backend: keywordBackend.name, hits: [] };
+  for (const backend of backends) {
+    if (backend.unavailableReason()) continue;
+    result = { backend: backend.name, hits: backend.search(query, limit) };
+    if (result.hits.length > 0) break;
+  }
+
+  const exact = findSection(query);
+  if (!exact) return result;
+  const exactHit = result.hits.find(h => h.section === exact) || { section: exact, score: result.hits[0]?.score || 0, snippet: buildSnippet(exact.text, query) };
+  return { ...result, hits: [exactHit, ...result.hits.filter(h => h.section !== exact)].slice(0, limit) };
+};
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { HomeOfficeInput, evaluateHomeOffice } from './specialRules';
+
+const office: HomeOfficeInput = { date: '2024-06-30', office_sq_ft: 300, home_sq_ft: 2000, regular_exclusive_use: true, use: 'principal_place', method: 'simplified' };
+
+describe('evaluateHomeOffice', () => {
+  it('states the simplified figure and then the business-income cap', () => {
+    const decision = evaluateHomeOffice({ ...office, business_income: 1000 });
+    expect(decision.deductible_amount).toBe(1000);
+    expect(decision.details).toContain('300 sq ft at $5 (Rev. Proc. 2013-13) = $1,500.00.');
+    expect(decision.details).toContain('Limited to business income of $1,000.00 (IRC § 280A(c)(5)): $1,000.00 deductible');
+  });
+
+  it('carries forward the regular-method excess over the cap', () => {
+    const decision = evaluateHomeOffice({ ...office, method: 'regular', home_expenses: 20000, business_income: 1000 });
+    expect(decision.details).toContain('15.0% of $20,000.00 home expenses = $3,000.00.');
+    expect(decision.details).toContain('$2,000.00 carries forward');
+  });
+
+  it('reports an uncapped figure once', () => {
+    const decision = evaluateHomeOffice({ ...office, business_income: 50000 });
+    expect(decision.deductible_amount).toBe(1500);
+    expect(decision.details).not.toContain('Limited to');
+  });
+});
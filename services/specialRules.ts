@@ -0,0 +1,307 @@
+// The special rules that apply after an expense clears IRC 162(a): the IRC 274 limits on meals
+// and entertainment, standard mileage versus actual vehicle expenses, and the IRC 280A home office
+// tests. Rates, limits and effective dates ship as data in rules/special-rules.json.
+
+import { z } from 'zod';
+import { ValidationOutcome } from './legalEngine';
+import { RulesTableValidationError, parseWithSchema } from './naicsRules';
+
+const IsoDateZod = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be an ISO date (YYYY-MM-DD)');
+
+export const MEAL_EXCEPTION_KINDS = ['included_in_compensation', 'employee_social_event', 'available_to_public', 'sold_to_customers'] as const;
+
+export const SpecialRulesFileZod = z.object({
+  format_version: z.literal(1),
+  title: z.string().min(1),
+  note: z.string().optional(),
+  meals: z.object({
+    deductible_share: z.number().positive().max(1),
+    source: z.string().min(1),
+    entertainment_disallowed_from: IsoDateZod,
+    entertainment_source: z.string().min(1),
+    restaurant_full_deduction: z.object({ from: IsoDateZod, to: IsoDateZod, source: z.string().min(1) }),
+    exceptions: z.array(z.object({ kind: z.enum(MEAL_EXCEPTION_KINDS), label: z.string().min(1), source: z.string().min(1) })),
+  }),
+  vehicle: z.object({
+    max_vehicles_for_standard_rate: z.number().int().positive(),
+    method_source: z.string().min(1),
+    business_use_threshold: z.number().positive().max(1),
+    business_use_source: z.string().min(1),
+    standard_mileage: z.array(z.object({
+      from: IsoDateZod,
+      to: IsoDateZod,
+      cents_per_mile: z.number().positive(),
+      source: z.string().min(1),
+    })),
+  }),
+  home_office: z.object({
+    simplified: z.object({ from: IsoDateZod, rate_per_sq_ft: z.number().positive(), max_sq_ft: z.number().int().positive(), source: z.string().min(1) }),
+    employee_disallowed_from: IsoDateZod,
+    employee_source: z.string().min(1),
+  }),
+});
+
+export type SpecialRulesFile = z.infer<typeof SpecialRulesFileZod>;
+
+export type MealKind = 'business_meal' | 'travel_meal' | 'entertainment' | typeof MEAL_EXCEPTION_KINDS[number];
+
+export interface MealInput {
+  amount: number;
+  date: string;                              // YYYY-MM-DD the expense was paid or incurred
+  kind: MealKind;
+  from_restaurant?: boolean;
+  taxpayer_present?: boolean;                // Taxpayer or an employee attended (business meals)
+  lavish?: boolean;
+  business_purpose?: string;
+}
+
+export interface VehicleInput {
+  date: string;                              // Any date in the tax year; picks the mileage rate
+  business_miles: number;
+  total_miles?: number;                      // All miles driven in the year, from the mileage log
+  actual_expenses?: number;                  // Fuel, repairs, insurance, registration, lease or depreciation
+  parking_tolls?: number;                    // Business parking and tolls, deductible under either method
+  method?: 'standard' | 'actual';
+  vehicles_in_service?: number;              // Vehicles used in the business at the same time
+  prior_accelerated_depreciation?: boolean;  // MACRS, Section 179 or bonus already claimed on this vehicle
+}
+
+export type HomeOfficeUse = 'principal_place' | 'meets_clients' | 'separate_structure' | 'other';
+
+export interface HomeOfficeInput {
+  date: string;                              // Any date in the tax year
+  office_sq_ft: number;
+  home_sq_ft: number;
+  regular_exclusive_use: boolean;
+  use: HomeOfficeUse;
+  is_employee?: boolean;
+  home_expenses?: number;                    // Whole-home mortgage interest, taxes, insurance, utilities, repairs, depreciation
+  business_income?: number;                  // Gross income from the business less its expenses not tied to the home
+  method?: 'simplified' | 'regular';
+}
+
+export interface SpecialRuleDecision {
+  outcome: ValidationOutcome;
+  details: string;
+  sources: string[];
+  deductible_amount?: number;
+}
+
+export const loadSpecialRules = (name: string, raw: unknown): SpecialRulesFile => {
+  const file = parseWithSchema(SpecialRulesFileZod, name, raw);
+  const issues: string[] = [];
+  const rates = [...file.vehicle.standard_mileage].sort((a, b) => a.from.localeCompare(b.from));
+  rates.forEach((rate, index) => {
+    if (rate.to < rate.from) issues.push(`vehicle.standard_mileage: period from ${rate.from} ends before it starts`);
+    if (index > 0 && rate.from <= rates[index - 1].to) issues.push(`vehicle.standard_mileage: period from ${rate.from} overlaps the one before it`);
+  });
+  if (issues.length > 0) throw new RulesTableValidationError(name, issues);
+  return file;
+};
+
+const specialRuleModules = import.meta.glob('../rules/special-rules.json', { eager: true, import: 'default' });
+
+export const SPECIAL_RULES: SpecialRulesFile = loadSpecialRules('special-rules.json', Object.values(specialRuleModules)[0]);
+
+const cents = (amount: number): number => Math.round(amount * 100) / 100;
+const dollars = (amount: number): string => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const isDate = (value: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(value);
+const usable = (value: number | undefined): value is number => value !== undefined && Number.isFinite(value) && value >= 0;
+
+const indeterminate = (reason: string, sources: string[] = []): SpecialRuleDecision => ({
+  outcome: 'indeterminate',
+  sources,
+  details: `INDETERMINATE: ${reason} Route to human review.`,
+});
+
+/**
+ * IRC 274 for food, beverages and entertainment, in order:
+ *  1. Entertainment is not deductible for amounts paid after 2017 (earlier, it took the meal limit).
+ *  2. The 274(e) exceptions (compensation, employee events, public, sold to customers) are fully deductible.
+ *  3. A lavish meal, or a business meal the taxpayer did not attend, fails 274(k).
+ *  4. Without a recorded business purpose the meal cannot be substantiated and goes to review.
+ *  5. Restaurant meals in 2021-2022 are fully deductible; everything else takes the 50% limit.
+ */
+export const evaluateMeals = (input: MealInput, rules: SpecialRulesFile = SPECIAL_RULES): SpecialRuleDecision => {
+  const { meals } = rules;
+  if (!usable(input.amount) || input.amount === 0) return indeterminate(`Meal amount '${input.amount}' is not a usable dollar figure.`);
+  if (!isDate(input.date)) return indeterminate(`Date '${input.date}' is not a YYYY-MM-DD date.`);
+
+  if (input.kind === 'entertainment' && input.date >= meals.entertainment_disallowed_from) {
+    return {
+      outcome: 'failed',
+      sources: [meals.entertainment_source],
+      deductible_amount: 0,
+      details: `FAILED: Entertainment, amusement or recreation paid on ${input.date} is not deductible (${meals.entertainment_source}). Food and beverages bought separately on the invoice may qualify as a business meal.`,
+    };
+  }
+
+  const exception = meals.exceptions.find(e => e.kind === input.kind);
+  if (exception) {
+    return {
+      outcome: 'passed',
+      sources: [exception.source],
+      deductible_amount: cents(input.amount),
+      details: `PASSED: ${dollars(input.amount)} is fully deductible as food or beverages ${exception.label}; the 50% limit does not apply (${exception.source}).`,
+    };
+  }
+
+  if (input.lavish) {
+    return { outcome: 'failed', sources: ['IRC § 274(k)(1)(A)'], deductible_amount: 0, details: 'FAILED: A lavish or extravagant meal is not deductible (IRC § 274(k)(1)(A)).' };
+  }
+  if (input.kind === 'business_meal' && input.taxpayer_present === false) {
+    return { outcome: 'failed', sources: ['IRC § 274(k)(1)(B)'], deductible_amount: 0, details: 'FAILED: The taxpayer or an employee must be present when the food or beverages are furnished (IRC § 274(k)(1)(B)).' };
+  }
+  if (!input.business_purpose?.trim()) {
+    return indeterminate('No business purpose is recorded for the meal, so it cannot be substantiated (the amount, date, place, purpose and attendees\' business relationship must be kept).', ['IRC § 274(d)', 'Treas. Reg. § 1.274-12']);
+  }
+
+  const window = meals.restaurant_full_deduction;
+  if (input.from_restaurant && input.date >= window.from && input.date <= window.to) {
+    return {
+      outcome: 'passed',
+      sources: [window.source],
+      deductible_amount: cents(input.amount),
+      details: `PASSED: ${dollars(input.amount)} restaurant meal paid on ${input.date} is fully deductible under the temporary restaurant exception (${window.source}).`,
+    };
+  }
+
+  const share = meals.deductible_share;
+  const deductible_amount = cents(input.amount * share);
+  const label = input.kind === 'entertainment' ? 'Entertainment' : input.kind === 'travel_meal' ? 'Travel meal' : 'Business meal';
+  return {
+    outcome: 'passed',
+    sources: [meals.source],
+    deductible_amount,
+    details: `PASSED: ${label} of ${dollars(input.amount)} for "${input.business_purpose.trim()}" is deductible at ${share * 100}%: ${dollars(deductible_amount)} (${meals.source}).`,
+  };
+};
+
+/**
+ * Vehicle use: the standard mileage rate for the date or the business share of actual expenses,
+ * with parking and tolls added to either. The standard rate is unavailable for a fleet of five or
+ * more vehicles, or once accelerated depreciation has been claimed. Without a method, the larger
+ * available deduction is used. The mileage log (total miles) is required either way.
+ */
+export const evaluateVehicle = (input: VehicleInput, rules: SpecialRulesFile = SPECIAL_RULES): SpecialRuleDecision => {
+  const { vehicle } = rules;
+  if (!usable(input.business_miles)) return indeterminate(`Business miles '${input.business_miles}' is not a usable figure.`);
+  if (!isDate(input.date)) return indeterminate(`Date '${input.date}' is not a YYYY-MM-DD date.`);
+  if (!usable(input.total_miles) || input.total_miles === 0) {
+    return indeterminate('Total miles for the year are not recorded; vehicle expenses need a mileage log showing business and total use.', ['IRC § 274(d)(4)']);
+  }
+  if (input.business_miles > input.total_miles) {
+    return indeterminate(`Business miles (${input.business_miles}) exceed total miles (${input.total_miles}); check the mileage log.`, ['IRC § 274(d)(4)']);
+  }
+
+  const business_use = input.business_miles / input.total_miles;
+  const extras = usable(input.parking_tolls) ? input.parking_tolls : 0;
+  const rate = vehicle.standard_mileage.find(r => r.from <= input.date && input.date <= r.to);
+  const standardBar = (input.vehicles_in_service ?? 1) > vehicle.max_vehicles_for_standard_rate
+    ? `the business uses ${input.vehicles_in_service} vehicles at the same time (more than ${vehicle.max_vehicles_for_standard_rate})`
+    : input.prior_accelerated_depreciation ? 'accelerated depreciation (MACRS, Section 179 or bonus) has already been claimed on this vehicle' : undefined;
+  const standard = rate && !standardBar ? cents(input.business_miles * rate.cents_per_mile / 100 + extras) : undefined;
+  const actual = usable(input.actual_expenses) ? cents(input.actual_expenses * business_use + extras) : undefined;
+
+  const notes: string[] = [];
+  if (business_use <= vehicle.business_use_threshold) {
+    notes.push(`Business use is ${(business_use * 100).toFixed(1)}%, not more than ${vehicle.business_use_threshold * 100}%: depreciation is limited to straight line and Section 179 and bonus are unavailable (${vehicle.business_use_source}).`);
+  }
+  const standardText = rate ? `${input.business_miles} business miles at ${rate.cents_per_mile} cents (${rate.source})` : '';
+  const actualText = `${(business_use * 100).toFixed(1)}% business use of ${dollars(input.actual_expenses ?? 0)} actual expenses`;
+  const extrasText = extras > 0 ? `, plus ${dollars(extras)} parking and tolls` : '';
+  const sources = [vehicle.method_source, ...(rate ? [rate.source] : [])];
+
+  let method = input.method;
+  if (method === 'standard') {
+    if (standardBar) return { outcome: 'failed', sources: [vehicle.method_source], details: `FAILED: The standard mileage rate cannot be used because ${standardBar} (${vehicle.method_source}). Use actual expenses.` };
+    if (!rate) return indeterminate(`No standard mileage rate is on file for ${input.date}.`, [vehicle.method_source]);
+  }
+  if (method === 'actual' && actual === undefined) return indeterminate('Actual vehicle expenses for the year are not recorded.', [vehicle.method_source]);
+  if (!method) {
+    if (standard === undefined && actual === undefined) {
+      return indeterminate(standardBar
+        ? `The standard mileage rate is unavailable because ${standardBar}, and actual expenses are not recorded.`
+        : `No standard mileage rate is on file for ${input.date}, and actual expenses are not recorded.`, [vehicle.method_source]);
+    }
+    method = actual !== undefined && (standard === undefined || actual > standard) ? 'actual' : 'standard';
+    if (standard !== undefined && actual !== undefined) notes.push(`Compared: standard ${dollars(standard)} vs. actual ${dollars(actual)}.`);
+    else if (standardBar) notes.push(`The standard mileage rate is unavailable because ${standardBar}.`);
+  }
+
+  const deductible_amount = method === 'standard' ? standard! : actual!;
+  if (method === 'actual' && !input.prior_accelerated_depreciation) {
+    notes.push('Claiming accelerated depreciation on this vehicle rules out the standard mileage rate in later years.');
+  }
+  return {
+    outcome: 'passed',
+    sources,
+    deductible_amount,
+    details: `PASSED: ${method === 'standard' ? `Standard mileage: ${standardText}` : `Actual expenses: ${actualText}`}${extrasText} = ${dollars(deductible_amount)}.` +
+      (notes.length > 0 ? ` NOTE: ${notes.join(' ')}` : ''),
+  };
+};
+
+/**
+ * IRC 280A home office: the space must be used regularly and exclusively as the principal place of
+ * business, to meet clients, or as a separate structure; employees are disallowed after 2017. The
+ * deduction is the simplified $5/sq ft (up to 300 sq ft) or the office's share of actual home
+ * expenses, either capped at the business income; without a method, the larger is used.
+ */
+export const evaluateHomeOffice = (input: HomeOfficeInput, rules: SpecialRulesFile = SPECIAL_RULES): SpecialRuleDecision => {
+  const { home_office } = rules;
+  if (!isDate(input.date)) return indeterminate(`Date '${input.date}' is not a YYYY-MM-DD date.`);
+  if (!usable(input.office_sq_ft) || !usable(input.home_sq_ft) || input.office_sq_ft === 0 || input.office_sq_ft > input.home_sq_ft) {
+    return indeterminate(`Office area (${input.office_sq_ft} sq ft) and home area (${input.home_sq_ft} sq ft) are not usable figures.`);
+  }
+
+  if (!input.regular_exclusive_use) {
+    return { outcome: 'failed', sources: ['IRC § 280A(a)', 'IRC § 280A(c)(1)'], deductible_amount: 0, details: 'FAILED: The space is not used regularly and exclusively for the business, so no home office deduction is allowed (IRC § 280A(a), (c)(1)).' };
+  }
+  if (input.use === 'other') {
+    return { outcome: 'failed', sources: ['IRC § 280A(c)(1)'], deductible_amount: 0, details: 'FAILED: The space is not the principal place of business, a place to meet clients, or a separate structure (IRC § 280A(c)(1)(A)-(C)).' };
+  }
+  if (input.is_employee) {
+    if (input.date >= home_office.employee_disallowed_from) {
+      return { outcome: 'failed', sources: [home_office.employee_source], deductible_amount: 0, details: `FAILED: An employee's home office is an unreimbursed employee expense, not deductible for tax years after 2017 (${home_office.employee_source}).` };
+    }
+    return indeterminate('An employee\'s home office qualifies only if used for the convenience of the employer (IRC § 280A(c)(1)).', ['IRC § 280A(c)(1)']);
+  }
+
+  const { simplified } = home_office;
+  const share = input.office_sq_ft / input.home_sq_ft;
+  const simplifiedAmount = input.date >= simplified.from ? Math.min(input.office_sq_ft, simplified.max_sq_ft) * simplified.rate_per_sq_ft : undefined;
+  const regularAmount = usable(input.home_expenses) ? cents(input.home_expenses * share) : undefined;
+
+  let method = input.method;
+  if (method === 'simplified' && simplifiedAmount === undefined) return indeterminate(`The simplified method is not available before ${simplified.from}.`, [simplified.source]);
+  if (method === 'regular' && regularAmount === undefined) return indeterminate('Home expenses for the year are not recorded.', ['IRC § 280A(c)(1)']);
+  if (!method) {
+    if (simplifiedAmount === undefined && regularAmount === undefined) return indeterminate('Home expenses for the year are not recorded.', ['IRC § 280A(c)(1)']);
+    method = regularAmount !== undefined && (simplifiedAmount === undefined || regularAmount > simplifiedAmount) ? 'regular' : 'simplified';
+  }
+
+  const computed = method === 'simplified' ? simplifiedAmount! : regularAmount!;
+  // A business loss leaves no income to deduct against
+  const limit = input.business_income === undefined || !Number.isFinite(input.business_income) ? undefined : Math.max(0, input.business_income);
+  const deductible_amount = cents(limit !== undefined ? Math.min(computed, limit) : computed);
+  const basis = method === 'simplified'
+    ? `Simplified method: ${Math.min(input.office_sq_ft, simplified.max_sq_ft)} sq ft at $${simplified.rate_per_sq_ft} (${simplified.source})`
+    : `Regular method: ${(share * 100).toFixed(1)}% of ${dollars(input.home_expenses!)} home expenses`;
+  // The method's own figure first, then the income cap as a separate step
+  const capped = deductible_amount < computed
+    ? ` Limited to business income of ${dollars(limit!)} (IRC § 280A(c)(5)): ${dollars(deductible_amount)} deductible; ${method === 'regular' ? `${dollars(computed - deductible_amount)} carries forward to next year` : 'the simplified method has no carryover'}.`
+    : '';
+  const notes: string[] = [];
+  if (input.method === undefined && simplifiedAmount !== undefined && regularAmount !== undefined) {
+    notes.push(`Compared: simplified ${dollars(simplifiedAmount)} vs. regular ${dollars(regularAmount)}.`);
+  }
+  if (limit === undefined) notes.push('Business income was not given, so the IRC § 280A(c)(5) income limit was not applied.');
+
+  return {
+    outcome: 'passed',
+    sources: ['IRC § 280A(c)(1)', ...(method === 'simplified' ? [simplified.source] : []), ...(limit !== undefined ? ['IRC § 280A(c)(5)'] : [])],
+    deductible_amount,
+    details: `PASSED: ${basis} = ${dollars(cents(computed))}.${capped}${notes.length > 0 ? ` NOTE: ${notes.join(' ')}` : ''}`,
+  };
+};
@@ -0,0 +1,258 @@
+// The Statute Corpus: versioned law text shipped as data (corpus/*.json), not code.
+// Sections carry their version history so past transactions are judged by the law of their date.
+// Per-jurisdiction overlays (corpus/overlays/*.json) record where a state's enacted text departs
+// from the model act. Every file is schema-validated at startup. A malformed file stops the engine
+// rather than letting it answer from a partial or corrupted library.
+
+import { z } from 'zod';
+import { parseCitation, citationKey } from './citations';
+
+export const CORPUS_FORMAT_VERSION = 1;
+
+const IsoDateZod = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be an ISO date (YYYY-MM-DD)');
+
+export const StatuteVersionZod = z.object({
+  effective_date: IsoDateZod,
+  sunset_date: IsoDateZod,                   // Exclusive: the first day this text was no longer law
+  text: z.string().min(1),
+  note: z.string().min(1).optional(),        // e.g. "1972 Official Text"
+});
+
+export const StatuteSectionZod = z.object({
+  citation: z.string().min(1),               // Lookup key, e.g. "UCC 3-104"
+  title: z.string().min(1),
+  hierarchy: z.array(z.string().min(1)).min(1), // Code -> Title/Article -> Part/Chapter
+  effective_date: IsoDateZod,                // Effective date of the current text
+  sunset_date: IsoDateZod.optional(),        // Set when the section has been repealed
+  source: z.string().min(1),                 // Display citation, e.g. "Uniform Commercial Code § 3-104"
+  aliases: z.array(z.string().min(1)).optional(),
+  see_also: z.array(z.string().refine(ref => !!parseCitation(ref), 'must be a recognizable citation')).optional(), // Editorial cross-references
+  text: z.string().min(1),
+  prior_versions: z.array(StatuteVersionZod).optional(), // Superseded texts, oldest first
+}).superRefine((section, ctx) => {
+  // Versions must form a non-overlapping timeline that ends where the current text begins
+  const timeline = [
+    ...(section.prior_versions || []).map((v, i) => ({ ...v, path: ['prior_versions', i] })),
+    { effective_date: section.effective_date, sunset_date: section.sunset_date, path: [] as (string | number)[] },
+  ];
+  timeline.forEach((version, i) => {
+    if (version.sunset_date && version.sunset_date <= version.effective_date) {
+      ctx.addIssue({ code: 'custom', message: 'sunset_date must be after effective_date', path: [...version.path, 'sunset_date'] });
+    }
+    const next = timeline[i + 1];
+    if (next && version.sunset_date && version.sunset_date > next.effective_date) {
+      ctx.addIssue({ code: 'custom', message: `overlaps the version effective ${next.effective_date}`, path: [...version.path, 'sunset_date'] });
+    }
+  });
+});
+
+export const CorpusFileZod = z.object({
+  format_version: z.literal(CORPUS_FORMAT_VERSION),
+  corpus_id: z.string().min(1),
+  title: z.string().min(1),
+  sections: z.array(StatuteSectionZod).min(1),
+});
+
+export const JurisdictionOverlayZod = z.object({
+  citation: z.string().min(1),               // Model section being overridden, e.g. "UCC 3-104"
+  status: z.enum(['modified', 'not_adopted']),
+  adopted_as: z.string().min(1),             // State citation, e.g. "N.Y. U.C.C. Law § 3-104"
+  effective_date: IsoDateZod,
+  text: z.string().min(1).optional(),        // The state-enacted text (required when modified)
+  differences: z.string().min(1),            // How it departs from the model text
+}).refine(overlay => overlay.status !== 'modified' || !!overlay.text, {
+  message: 'text is required when status is "modified"',
+  path: ['text'],
+});
+
+export const OverlayFileZod = z.object({
+  format_version: z.literal(CORPUS_FORMAT_VERSION),
+  jurisdiction: z.string().regex(/^[A-Z]{2}$/, 'must be a two-letter postal code'),
+  jurisdiction_name: z.string().min(1),
+  title: z.string().min(1),
+  overlays: z.array(JurisdictionOverlayZod).min(1),
+});
+
+export type StatuteSection = z.infer<typeof StatuteSectionZod>;
+export type StatuteVersion = z.infer<typeof StatuteVersionZod>;
+export type CorpusFile = z.infer<typeof CorpusFileZod>;
+export type JurisdictionOverlay = z.infer<typeof JurisdictionOverlayZod>;
+export type OverlayFile = z.infer<typeof OverlayFileZod>;
+
+export interface StatuteCorpus {
+  files: CorpusFile[];
+  sections: StatuteSection[];
+  byCitation: Map<string, StatuteSection>; // Normalized citation and aliases -> section
+  jurisdictions: Map<string, OverlayFile>; // Postal code -> overlay file
+  overlays: Map<string, Map<string, JurisdictionOverlay>>; // Postal code -> normalized citation -> overlay
+}
+
+export class CorpusValidationError extends Error {
+  constructor(public readonly file: string, public readonly issues: string[]) {
+    super(`[ArbiterOS]: Malformed statute corpus file '${file}':\n  - ${issues.join('\n  - ')}`);
+    this.name = 'CorpusValidationError';
+  }
+}
+
+/**
+ * Lookup key for a citation or alias. Parseable citations collapse to their canonical
+ * section key, so "UCC § 3-104" and "UCC 3-104" land on the same entry.
+ */
+export const normalizeCorpusKey = (reference: string): string => {
+  const parsed = parseCitation(reference);
+  return (parsed ? citationKey(parsed) : reference.trim()).toLowerCase();
+};
+
+const parseWithSchema = <T>(schema: z.ZodType<T>, file: string, raw: unknown): T => {
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new CorpusValidationError(
+      file,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+};
+
+/**
+ * Validates one corpus file against the schema.
+ * Issues are reported with their JSON path, e.g. "sections.2.effective_date: must be an ISO date".
+ */
+export const parseCorpusFile = (file: string, raw: unknown): CorpusFile => parseWithSchema(CorpusFileZod, file, raw);
+
+export const parseOverlayFile = (file: string, raw: unknown): OverlayFile => parseWithSchema(OverlayFileZod, file, raw);
+
+/**
+ * Builds the in-memory corpus from sets of raw files keyed by file name.
+ * Citations and aliases must be unique across the whole corpus, and every overlay
+ * must point at a section the model corpus actually contains.
+ */
+export const loadCorpus = (rawFiles: Record<string, unknown>, rawOverlayFiles: Record<string, unknown> = {}): StatuteCorpus => {
+  const names = Object.keys(rawFiles).sort();
+  const files = names.map(name => parseCorpusFile(name, rawFiles[name]));
+  const sections: StatuteSection[] = [];
+  const byCitation = new Map<string, StatuteSection>();
+  const owner = new Map<string, string>();
+
+  files.forEach((file, fileIndex) => {
+    file.sections.forEach((section, index) => {
+      for (const key of [section.citation, ...(section.aliases || [])]) {
+        const normalized = normalizeCorpusKey(key);
+        if (byCitation.has(normalized)) {
+          throw new CorpusValidationError(names[fileIndex], [
+            `sections.${index}.citation: '${key}' is already defined in '${owner.get(normalized)}'`
+          ]);
+        }
+        byCitation.set(normalized, section);
+        owner.set(normalized, names[fileIndex]);
+      }
+      sections.push(section);
+    });
+  });
+
+  const jurisdictions = new Map<string, OverlayFile>();
+  const overlays = new Map<string, Map<string, JurisdictionOverlay>>();
+  Object.keys(rawOverlayFiles).sort().forEach(name => {
+    const file = parseOverlayFile(name, rawOverlayFiles[name]);
+    if (jurisdictions.has(file.jurisdiction)) {
+      throw new CorpusValidationError(name, [`jurisdiction: '${file.jurisdiction}' already has an overlay file`]);
+    }
+    const byKey = new Map<string, JurisdictionOverlay>();
+    file.overlays.forEach((overlay, index) => {
+      const key = normalizeCorpusKey(overlay.citation);
+      if (!byCitation.has(key)) {
+        throw new CorpusValidationError(name, [`overlays.${index}.citation: '${overlay.citation}' is not in the model corpus`]);
+      }
+      if (byKey.has(key)) {
+        throw new CorpusValidationError(name, [`overlays.${index}.citation: '${overlay.citation}' is overridden twice`]);
+      }
+      byKey.set(key, overlay);
+    });
+    jurisdictions.set(file.jurisdiction, file);
+    overlays.set(file.jurisdiction, byKey);
+  });
+
+  return { files, sections, byCitation, jurisdictions, overlays };
+};
+
+// Bundled at build time so the library works offline; adding a file to corpus/ needs no code change.
+const corpusModules = import.meta.glob('../corpus/*.json', { eager: true, import: 'default' });
+const overlayModules = import.meta.glob('../corpus/overlays/*.json', { eager: true, import: 'default' });
+
+export const STATUTE_CORPUS: StatuteCorpus = loadCorpus(corpusModules, overlayModules);
+
+/**
+ * Exact lookup by citation (any spelling) or alias. Subsection paths are ignored.
+ */
+export const findSection = (reference: string, corpus: StatuteCorpus = STATUTE_CORPUS): StatuteSection | undefined =>
+  corpus.byCitation.get(normalizeCorpusKey(reference));
+
+/**
+ * Resolves "NY", "ny" or "New York" to the postal code of a jurisdiction that has overlays.
+ */
+export const resolveJurisdiction = (input: string, corpus: StatuteCorpus = STATUTE_CORPUS): string | undefined => {
+  const needle = input.trim().toLowerCase();
+  for (const [code, file] of corpus.jurisdictions) {
+    if (code.toLowerCase() === needle || file.jurisdiction_name.toLowerCase() === needle) return code;
+  }
+  return undefined;
+};
+
+/**
+ * The state-specific departure from the model section, if that jurisdiction has one.
+ */
+export const findOverlay = (reference: string, jurisdiction: string, corpus: StatuteCorpus = STATUTE_CORPUS): JurisdictionOverlay | undefined => {
+  const code = resolveJurisdiction(jurisdiction, corpus);
+  return code ? corpus.overlays.get(code)?.get(normalizeCorpusKey(reference)) : undefined;
+};
+
+const ADOPTED_SECTIONS = new WeakMap<JurisdictionOverlay, StatuteSection>();
+
+/**
+ * The model section as the state enacted it: same title and hierarchy, state citation and text.
+ */
+export const adoptedSection = (model: StatuteSection, overlay: JurisdictionOverlay): StatuteSection => {
+  let adopted = ADOPTED_SECTIONS.get(overlay);
+  if (!adopted) {
+    adopted = { ...model, source: overlay.adopted_as, effective_date: overlay.effective_date, text: overlay.text || model.text };
+    ADOPTED_SECTIONS.set(overlay, adopted);
+  }
+  return adopted;
+};
+
+export interface VersionInfo {
+  id: string;             // "<citation>@<effective_date>", stable across corpus releases
+  effective_date: string;
+  sunset_date?: string;
+  note?: string;
+}
+
+const DATED_SECTIONS = new WeakMap<StatuteVersion, StatuteSection>();
+
+export const versionId = (citation: string, effectiveDate: string): string => `${citation}@${effectiveDate}`;
+
+/**
+ * The section as it read on `asOf` (YYYY-MM-DD; defaults to the current text).
+ * Returns undefined when no version of the section was in force on that date.
+ */
+export const sectionAsOf = (section: StatuteSection, asOf?: string): { section: StatuteSection; version: VersionInfo } | undefined => {
+  const current = { id: versionId(section.citation, section.effective_date), effective_date: section.effective_date, ...(section.sunset_date ? { sunset_date: section.sunset_date } : {}) };
+  if (!asOf) return { section, version: current };
+
+  if (asOf >= section.effective_date) {
+    return !section.sunset_date || asOf < section.sunset_date ? { section, version: current } : undefined;
+  }
+
+  const prior = (section.prior_versions || []).find(v => asOf >= v.effective_date && asOf < v.sunset_date);
+  if (!prior) return undefined;
+
+  let dated = DATED_SECTIONS.get(prior);
+  if (!dated) {
+    dated = { ...section, effective_date: prior.effective_date, sunset_date: prior.sunset_date, text: prior.text };
+    DATED_SECTIONS.set(prior, dated);
+  }
+  return {
+    section: dated,
+    version: { id: versionId(section.citation, prior.effective_date), effective_date: prior.effective_date, sunset_date: prior.sunset_date, ...(prior.note ? { note: prior.note } : {}) }
+  };
+};
@@ -0,0 +1,131 @@
+// Definitions registry: statutory defined terms ("holder", "collateral", "consumer") indexed from
+// the Statute Corpus with the scope they apply in and the paragraph that defines them.
+
+import { STATUTE_CORPUS, StatuteCorpus, StatuteSection } from './statuteCorpus';
+import { StatuteSubsection, getSubsectionTree } from './statuteSubsections';
+
+export interface DefinedTerm {
+  term: string;            // As written in the statute, e.g. "Holder"
+  definition: string;      // The defining paragraph, including any sub-paragraphs
+  citation: string;        // Defining paragraph, e.g. "Uniform Commercial Code § 1-201(b)(20)"
+  section: string;         // Corpus key of the defining section, e.g. "UCC 1-201"
+  scope: string[];         // Hierarchy prefix the definition governs, e.g. ["Uniform Commercial Code", "Article 9 - Secured Transactions"]
+  scope_label: string;     // Innermost scope level, e.g. "Article 9 - Secured Transactions"
+}
+
+export interface DefinitionsRegistry {
+  terms: Map<string, DefinedTerm[]>; // Lowercased term -> definitions, narrowest scope first
+}
+
+// UCC/USC style: (20) "Holder" means ... / (37) "Signed" includes ...
+const QUOTED_DEFINITION = /^\(\w+\)\s*"([^"]{1,60})"(?:,[^"]*"[^"]*",)?\s+(?:means|includes)\b/;
+// CFR style, only inside a Definitions section: (d) Consumer. A natural person ...
+const HEADED_DEFINITION = /^\(\w+\)\s*([A-Z][a-z]+(?: [a-z]+){0,4})\.\s+[A-Z]/;
+
+// Scope phrases from broadest to narrowest, with the hierarchy level each one names.
+const SCOPE_PHRASES: { pattern: RegExp; level: (hierarchy: string[]) => number }[] = [
+  { pattern: /\[the Uniform Commercial Code\]|\bthis Act\b|\bthis title\b/i, level: () => 0 },
+  { pattern: /\bthis article\b/i, level: h => h.findIndex(l => /^Article\b/i.test(l)) },
+  { pattern: /\bthis chapter\b/i, level: h => h.findIndex(l => /^Chapter\b/i.test(l)) },
+  { pattern: /\bthis part\b/i, level: h => h.findIndex(l => /^Part\b/i.test(l)) },
+];
+
+/**
+ * How far a section's definitions reach, read from its introductory language
+ * ("In this article:"). Without such language they govern the section's innermost level.
+ */
+export const definitionScope = (section: StatuteSection): string[] => {
+  const intro = getSubsectionTree(section).children[0]?.text || section.text;
+  for (const { pattern, level } of SCOPE_PHRASES) {
+    const depth = pattern.test(intro) ? level(section.hierarchy) : -1;
+    if (depth >= 0) return section.hierarchy.slice(0, depth + 1);
+  }
+  return section.hierarchy;
+};
+
+const subtreeText = (node: StatuteSubsection): string =>
+  [node.text, ...node.children.map(subtreeText)].join(' ');
+
+const collectDefinitions = (section: StatuteSection): DefinedTerm[] => {
+  const scope = definitionScope(section);
+  const headed = /definitions/i.test(section.title);
+  const found: DefinedTerm[] = [];
+
+  const visit = (node: StatuteSubsection) => {
+    const match = node.text.match(QUOTED_DEFINITION) || (headed ? node.text.match(HEADED_DEFINITION) : null);
+    if (match) {
+      found.push({
+        term: match[1],
+        definition: subtreeText(node).replace(/\s*\.\.\.$/, '').trim(),
+        citation: `${section.source}${node.label}`,
+        section: section.citation,
+        scope,
+        scope_label: scope[scope.length - 1],
+      });
+      return;
+    }
+    node.children.forEach(visit);
+  };
+  visit(getSubsectionTree(section));
+  return found;
+};
+
+export const buildDefinitionsRegistry = (corpus: StatuteCorpus = STATUTE_CORPUS): DefinitionsRegistry => {
+  const terms = new Map<string, DefinedTerm[]>();
+  corpus.sections.flatMap(collectDefinitions).forEach(def => {
+    const key = def.term.toLowerCase();
+    terms.set(key, [...(terms.get(key) || []), def].sort((a, b) => b.scope.length - a.scope.length));
+  });
+  return { terms };
+};
+
+export const DEFINITIONS_REGISTRY: DefinitionsRegistry = buildDefinitionsRegistry();
+
+const appliesIn = (def: DefinedTerm, section: StatuteSection): boolean =>
+  def.scope.every((level, i) => section.hierarchy[i] === level);
+
+/**
+ * Definitions of a term (case-insensitive, singular or plural). When `context` is given,
+ * only definitions whose scope covers that section are returned, narrowest first,
+ * so Article 9's "debtor" wins inside Article 9.
+ */
+export const lookupTerm = (term: string, context?: StatuteSection, registry: DefinitionsRegistry = DEFINITIONS_REGISTRY): DefinedTerm[] => {
+  const key = term.trim().toLowerCase();
+  const defs = registry.terms.get(key) || registry.terms.get(key.replace(/s$/, '')) || [];
+  return context ? defs.filter(def => appliesIn(def, context)) : defs;
+};
+
+export interface TermSegment {
+  text: string;
+  definition?: DefinedTerm; // Set when the segment is a defined term in force for the section
+}
+
+/**
+ * Splits statute text into plain and defined-term segments for display.
+ * Only terms whose scope covers `section` are marked, and a paragraph never marks its own term.
+ */
+export const markDefinedTerms = (text: string, section: StatuteSection, registry: DefinitionsRegistry = DEFINITIONS_REGISTRY): TermSegment[] => {
+  const applicable = new Map<string, DefinedTerm>();
+  registry.terms.forEach((defs, key) => {
+    const def = defs.find(d => appliesIn(d, section));
+    if (def) applicable.set(key, def);
+  });
+  if (applicable.size === 0) return [{ text }];
+
+  // Longest terms first so "consumer goods" is marked whole rather than as "consumer"
+  const alternatives = Array.from(applicable.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(key => key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\w"])(${alternatives.join('|')})s?(?![\\w"])`, 'gi');
+
+  const segments: TermSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index || 0;
+    if (index > last) segments.push({ text: text.slice(last, index) });
+    segments.push({ text: match[0], definition: applicable.get(match[1].toLowerCase()) });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
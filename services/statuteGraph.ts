@@ -0,0 +1,95 @@
+// Cross-reference graph over the Statute Corpus: which sections cite which.
+// Lets a lookup of UCC 9-203 point at 9-108 instead of leaving the reader to guess keys.
+
+import { STATUTE_CORPUS, StatuteCorpus, StatuteSection, findSection, normalizeCorpusKey } from './statuteCorpus';
+import { ParsedCitation, citationKey, findCitations, formatCitation, parseCitation } from './citations';
+
+export interface CrossReference {
+  citation: string;            // Display form, with any pinpoint: "UCC § 9-313(a)"
+  key: string;                 // Section key: "UCC 9-313"
+  title?: string;              // Known only when the section is in the corpus
+  in_corpus: boolean;
+  kind: 'text' | 'editorial';  // Cited in the statute text, or a corpus "see_also" note
+}
+
+export interface StatuteGraph {
+  references: Map<string, CrossReference[]>;   // Normalized key -> sections it cites
+  referencedBy: Map<string, CrossReference[]>; // Normalized key -> sections citing it
+}
+
+// In-code references omit the code name: "Section 9-313", "§ 444.1", "section 163(h)".
+const BARE_REFERENCE = /\b(?:[Ss]ections?|§{1,2})\s*(\d{1,2}[A-Z]?-\d{3}[A-Za-z]?|\d+[A-Z]?(?:\.\d+)?)((?:\([A-Za-z0-9]{1,4}\))*)/g;
+
+/**
+ * Every section cited in the text: full citations ("16 CFR 444.2") as written, bare
+ * section numbers read as belonging to the citing section's own code. Self-references are dropped.
+ */
+export const extractReferences = (section: StatuteSection): ParsedCitation[] => {
+  const home = parseCitation(section.citation);
+  const explicit = findCitations(section.text);
+  const found = explicit.map(match => ({ index: match.index, citation: match.citation }));
+
+  if (home) {
+    for (const match of section.text.matchAll(BARE_REFERENCE)) {
+      const index = match.index || 0;
+      if (explicit.some(e => index >= e.index && index < e.index + e.text.length)) continue;
+      // Re-parse in the home code so a number that cannot be a section of that code is ignored
+      const citation = parseCitation(`${citationKey({ ...home, section: match[1], subsections: [] })}${match[2]}`);
+      if (citation) found.push({ index, citation });
+    }
+  }
+
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(f => f.citation)
+    .filter(citation => {
+      const display = formatCitation(citation);
+      if (seen.has(display) || (home && citationKey(citation) === citationKey(home))) return false;
+      seen.add(display);
+      return true;
+    });
+};
+
+const toReference = (citation: ParsedCitation, kind: CrossReference['kind'], corpus: StatuteCorpus): CrossReference => {
+  const key = citationKey(citation);
+  const target = findSection(key, corpus);
+  return { citation: formatCitation(citation), key, ...(target ? { title: target.title } : {}), in_corpus: !!target, kind };
+};
+
+export const buildStatuteGraph = (corpus: StatuteCorpus = STATUTE_CORPUS): StatuteGraph => {
+  const references = new Map<string, CrossReference[]>();
+  const referencedBy = new Map<string, CrossReference[]>();
+
+  corpus.sections.forEach(section => {
+    const self = parseCitation(section.citation);
+    if (!self) return;
+    const outgoing = [
+      ...extractReferences(section).map(c => toReference(c, 'text', corpus)),
+      ...(section.see_also || []).map(ref => toReference(parseCitation(ref)!, 'editorial', corpus)),
+    ];
+    references.set(normalizeCorpusKey(section.citation), outgoing);
+
+    outgoing.forEach(ref => {
+      const targetKey = normalizeCorpusKey(ref.key);
+      const incoming = referencedBy.get(targetKey) || [];
+      if (!incoming.some(r => r.key === citationKey(self))) {
+        incoming.push(toReference({ ...self, subsections: [] }, ref.kind, corpus));
+        referencedBy.set(targetKey, incoming);
+      }
+    });
+  });
+
+  return { references, referencedBy };
+};
+
+export const STATUTE_GRAPH: StatuteGraph = buildStatuteGraph();
+
+/**
+ * Both directions of the graph for one section (any citation spelling).
+ * Sections outside the corpus can still be cited; they only have "referenced_by" entries.
+ */
+export const getCrossReferences = (reference: string, graph: StatuteGraph = STATUTE_GRAPH): { references: CrossReference[]; referenced_by: CrossReference[] } => {
+  const key = normalizeCorpusKey(reference);
+  return { references: graph.references.get(key) || [], referenced_by: graph.referencedBy.get(key) || [] };
+};
@@ -0,0 +1,143 @@
+// Local full-text index over the Statute Corpus (BM25, no network).
+// Replaces "first key that happens to match" with a ranked, explainable list of hits.
+
+import { STATUTE_CORPUS, StatuteSection } from './statuteCorpus';
+
+export interface StatuteHit {
+  section: StatuteSection;
+  score: number;
+  snippet: string;
+}
+
+interface IndexedDocument {
+  section: StatuteSection;
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+export interface StatuteIndex {
+  docs: IndexedDocument[];
+  docFreqs: Map<string, number>;
+  avgLength: number;
+}
+
+// BM25 tuning (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Field weights: a term in the citation or title says more than one buried in the body.
+const FIELD_WEIGHTS = { citation: 3, title: 2, text: 1 };
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'if', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'to', 'was', 'with', 'which', 'who', 'this', 'any', 'other'
+]);
+
+// Minimal suffix stripping so "instruments"/"instrument" and "enforced"/"enforce" meet.
+const stem = (word: string): string => {
+  if (/^\d/.test(word) || word.length <= 4) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.endsWith('ing') && word.length > 6) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 5) return word.slice(0, -2);
+  if (word.endsWith('es') && /(ss|sh|ch|x)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Splits text into index terms. Section numbers are kept whole ("3-104", "444.2")
+ * and also contribute their article/part prefix ("3", "444") so "UCC 3" ranks Article 3 first.
+ * Paragraph markers like "(a)" or "(3)" are dropped so they never look like article numbers.
+ */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  const raw = text.toLowerCase().replace(/\((?:[a-z]{1,4}|\d{1,3})\)/g, ' ').match(/\d+(?:[-.]\d+)+|[a-z0-9]+/g) || [];
+  raw.forEach(token => {
+    if (/^\d+(?:[-.]\d+)+$/.test(token)) {
+      terms.push(token, token.split(/[-.]/)[0]);
+    } else if (!STOPWORDS.has(token)) {
+      terms.push(stem(token));
+    }
+  });
+  return terms;
+};
+
+const addTerms = (freqs: Map<string, number>, text: string, weight: number): number => {
+  const terms = tokenize(text);
+  terms.forEach(term => freqs.set(term, (freqs.get(term) || 0) + weight));
+  return terms.length * weight;
+};
+
+export const buildStatuteIndex = (sections: StatuteSection[]): StatuteIndex => {
+  const docFreqs = new Map<string, number>();
+  const docs = sections.map(section => {
+    const termFreqs = new Map<string, number>();
+    let length = 0;
+    length += addTerms(termFreqs, [section.citation, section.source, ...(section.aliases || [])].join(' '), FIELD_WEIGHTS.citation);
+    length += addTerms(termFreqs, section.title, FIELD_WEIGHTS.title);
+    length += addTerms(termFreqs, section.text, FIELD_WEIGHTS.text);
+    termFreqs.forEach((_, term) => docFreqs.set(term, (docFreqs.get(term) || 0) + 1));
+    return { section, termFreqs, length };
+  });
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1);
+  return { docs, docFreqs, avgLength };
+};
+
+/**
+ * Picks the window of the statute body that contains the most query terms.
+ */
+export const buildSnippet = (text: string, query: string, width: number = 160): string => {
+  const queryTerms = new Set(tokenize(query));
+  const words = text.split(/\s+/);
+  const matches = words.map(word => tokenize(word).some(t => queryTerms.has(t)));
+  let bestStart = 0;
+  let bestHits = -1;
+  for (let i = 0; i < words.length; i++) {
+    let hits = 0;
+    let chars = 0;
+    for (let j = i; j < words.length && chars < width; j++) {
+      chars += words[j].length + 1;
+      if (matches[j]) hits++;
+    }
+    if (hits > bestHits) {
+      bestHits = hits;
+      bestStart = i;
+    }
+  }
+  let end = bestStart;
+  let chars = 0;
+  while (end < words.length && chars < width) {
+    chars += words[end].length + 1;
+    end++;
+  }
+  const snippet = words.slice(bestStart, end).join(' ');
+  return `${bestStart > 0 ? '...' : ''}${snippet}${end < words.length ? '...' : ''}`;
+};
+
+export const searchIndex = (index: StatuteIndex, query: string, limit: number = 5): StatuteHit[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const n = index.docs.length;
+
+  return index.docs
+    .map(doc => {
+      let score = 0;
+      queryTerms.forEach(term => {
+        const tf = doc.termFreqs.get(term);
+        if (!tf) return;
+        const df = index.docFreqs.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / index.avgLength));
+      });
+      return { doc, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ doc, score }) => ({
+      section: doc.section,
+      score: Number(score.toFixed(4)),
+      snippet: buildSnippet(doc.section.text, query),
+    }));
+};
+
+export const STATUTE_INDEX: StatuteIndex = buildStatuteIndex(STATUTE_CORPUS.sections);
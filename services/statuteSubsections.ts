@@ -0,0 +1,135 @@
+// Splits statute text into addressable subsections so a citation like "UCC 3-104(a)(2)"
+// resolves to exactly that paragraph (plus the chain of paragraphs that contain it).
+
+import { StatuteSection } from './statuteCorpus';
+
+export interface StatuteSubsection {
+  path: string[];      // e.g. ['a', '2'] for (a)(2)
+  label: string;       // e.g. "(a)(2)"
+  text: string;        // The paragraph's own text, starting with its marker
+  children: StatuteSubsection[];
+}
+
+export interface ResolvedSubsection {
+  path: string[];
+  label: string;
+  text: string;
+  parents: { label: string; text: string }[]; // Outermost first
+}
+
+type MarkerKind = 'lower' | 'digit' | 'upper' | 'roman';
+
+interface OpenLevel {
+  kind: MarkerKind;
+  last: string;
+  node: StatuteSubsection;
+}
+
+// Candidate paragraph markers: "(a)", "(12)", "(B)", "(iv)" standing on their own, not glued to a
+// section number ("3-104(a)") and not named by a cross-reference ("subsection (b)").
+const MARKER_PATTERN = /(?<![\w)§-])(?<!(?:section|subsection|paragraph|subparagraph|clause|item)s?\s)\(([a-z]{1,4}|[A-Z]{1,2}|\d{1,3})\)(?=\s)/g;
+
+const ROMAN_PATTERN = /^(?:x{0,3})(?:ix|iv|v?i{0,3})$/;
+const ROMAN_NUMERALS = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii', 'ix', 'x', 'xi', 'xii', 'xiii', 'xiv', 'xv'];
+
+const FIRST_MARKER: Record<MarkerKind, string> = { lower: 'a', digit: '1', upper: 'A', roman: 'i' };
+
+const nextLetter = (letter: string): string => String.fromCharCode(letter.charCodeAt(0) + 1);
+
+const successor = (kind: MarkerKind, marker: string): string => {
+  switch (kind) {
+    case 'digit': return String(Number(marker) + 1);
+    case 'roman': return ROMAN_NUMERALS[ROMAN_NUMERALS.indexOf(marker) + 1] || '';
+    default: return nextLetter(marker);
+  }
+};
+
+const ordinal = (kind: MarkerKind, marker: string): number => {
+  switch (kind) {
+    case 'digit': return Number(marker);
+    case 'roman': return ROMAN_NUMERALS.indexOf(marker) + 1;
+    default: return marker.charCodeAt(0);
+  }
+};
+
+// Excerpted text marks omitted paragraphs with "...", so "... (12)" may follow "(3)".
+const ELISION = /\.\.\.\s*$/;
+
+const classify = (marker: string, stack: OpenLevel[]): MarkerKind => {
+  if (/^\d+$/.test(marker)) return 'digit';
+  if (/^[A-Z]+$/.test(marker)) return 'upper';
+  if (ROMAN_PATTERN.test(marker)) {
+    // "(i)" after "(h)" is the ninth letter, not roman one
+    const letterLevel = stack.find(level => level.kind === 'lower');
+    if (marker.length === 1 && letterLevel && nextLetter(letterLevel.last) === marker) return 'lower';
+    return 'roman';
+  }
+  return 'lower';
+};
+
+export const formatSubsectionLabel = (path: string[]): string => path.map(p => `(${p})`).join('');
+
+/**
+ * Parses a section body into a tree of subsections.
+ * Nesting is inferred from the marker style sequence, so both the UCC's (a)(1)(A)(i)
+ * and Article 2's (1)(a)(i) conventions parse without per-code configuration.
+ * A marker only counts if it opens a new list or continues an open one, which keeps
+ * stray parentheticals from splitting a paragraph. Right after an elision ("...") a list may
+ * skip ahead, since the omitted paragraphs are simply not in the excerpt.
+ */
+export const parseSubsections = (text: string): StatuteSubsection => {
+  const root: StatuteSubsection = { path: [], label: '', text: '', children: [] };
+  const stack: OpenLevel[] = [];
+  const starts: { index: number; node: StatuteSubsection }[] = [];
+
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    const marker = match[1];
+    const kind = classify(marker, stack);
+    const depth = stack.findIndex(level => level.kind === kind);
+    const elided = ELISION.test(text.slice(0, match.index));
+    const continuesList = depth >= 0 && (successor(kind, stack[depth].last) === marker
+      || (elided && ordinal(kind, marker) > ordinal(kind, stack[depth].last)));
+    const opensList = depth < 0 && (marker === FIRST_MARKER[kind] || stack.length === 0 || elided);
+    if (!continuesList && !opensList) continue;
+    if (depth >= 0) stack.length = depth;
+
+    const parent = stack.length > 0 ? stack[stack.length - 1].node : root;
+    const path = [...parent.path, marker];
+    const node: StatuteSubsection = { path, label: formatSubsectionLabel(path), text: '', children: [] };
+    parent.children.push(node);
+    stack.push({ kind, last: marker, node });
+    starts.push({ index: match.index || 0, node });
+  }
+
+  root.text = text.slice(0, starts[0]?.index ?? text.length).trim();
+  starts.forEach((start, i) => {
+    start.node.text = text.slice(start.index, starts[i + 1]?.index ?? text.length).trim();
+  });
+  return root;
+};
+
+const TREE_CACHE = new WeakMap<StatuteSection, StatuteSubsection>();
+
+export const getSubsectionTree = (section: StatuteSection): StatuteSubsection => {
+  let tree = TREE_CACHE.get(section);
+  if (!tree) {
+    tree = parseSubsections(section.text);
+    TREE_CACHE.set(section, tree);
+  }
+  return tree;
+};
+
+/**
+ * Finds the subsection at `path`, returning its own text and its parent chain.
+ */
+export const resolveSubsection = (section: StatuteSection, path: string[]): ResolvedSubsection | undefined => {
+  let node = getSubsectionTree(section);
+  const parents: { label: string; text: string }[] = [];
+  for (const part of path) {
+    const child = node.children.find(c => c.path[c.path.length - 1] === part);
+    if (!child) return undefined;
+    if (node.path.length > 0) parents.push({ label: node.label, text: node.text });
+    node = child;
+  }
+  return { path: node.path, label: node.label, text: node.text, parents };
+};
@@ -0,0 +1,157 @@
+// Taxpayer profiles: the business an expense audit is about, kept in browser storage so every
+// session audits the same entity. sendLegalMessage binds the active profile into the tool context;
+// the expense checks then take the NAICS code and gross revenue from it, never from the model.
+
+import { z } from 'zod';
+
+export const ENTITY_TYPES = ['sole_proprietor', 'single_member_llc', 'partnership', 's_corporation', 'c_corporation', 'nonprofit'] as const;
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  sole_proprietor: 'Sole proprietor (Schedule C)',
+  single_member_llc: 'Single-member LLC (disregarded)',
+  partnership: 'Partnership / multi-member LLC',
+  s_corporation: 'S corporation',
+  c_corporation: 'C corporation',
+  nonprofit: 'Tax-exempt organization',
+};
+
+export const TaxpayerProfileZod = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  entity_type: z.enum(ENTITY_TYPES),
+  naics: z.string().trim().regex(/^\d{2,6}$/, 'must be a 2- to 6-digit NAICS code'),
+  fiscal_year_end: z.string().regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, 'must be a month and day (MM-DD)').default('12-31'),
+  // Gross receipts by fiscal year, keyed by the calendar year the fiscal year ends in
+  gross_revenue: z.record(z.string().regex(/^\d{4}$/, 'must be a four-digit year'), z.number().finite().nonnegative()),
+  state: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, 'must be a two-letter postal code'),
+  updated_at: z.string().min(1),
+});
+
+const ProfileStoreZod = z.object({
+  format_version: z.literal(1),
+  active_id: z.string().optional(),
+  profiles: z.array(TaxpayerProfileZod),
+});
+
+export type EntityType = typeof ENTITY_TYPES[number];
+export type TaxpayerProfile = z.infer<typeof TaxpayerProfileZod>;
+export type ProfileStore = z.infer<typeof ProfileStoreZod>;
+
+export type ProfileStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export class TaxpayerProfileError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(`[ArbiterOS]: ${message}${issues.length > 0 ? `:\n  - ${issues.join('\n  - ')}` : ''}`);
+    this.name = 'TaxpayerProfileError';
+  }
+}
+
+const STORAGE_KEY = 'arbiteros.taxpayer-profiles';
+
+const emptyStore = (): ProfileStore => ({ format_version: 1, profiles: [] });
+
+// Outside a browser (build scripts, tests) there is no store, so nothing persists
+const browserStorage = (): ProfileStorage | undefined =>
+  typeof localStorage === 'undefined' ? undefined : localStorage;
+
+/**
+ * Reads the saved profiles. A store that no longer validates is set aside with a warning rather
+ * than blocking the app; it is only overwritten by the next save.
+ */
+export const loadProfileStore = (storage: ProfileStorage | undefined = browserStorage()): ProfileStore => {
+  const raw = storage?.getItem(STORAGE_KEY);
+  if (!raw) return emptyStore();
+  try {
+    const result = ProfileStoreZod.safeParse(JSON.parse(raw));
+    if (result.success) return result.data;
+    console.warn(`[ArbiterOS]: Saved taxpayer profiles failed validation and were ignored: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  } catch {
+    console.warn('[ArbiterOS]: Saved taxpayer profiles are not valid JSON and were ignored.');
+  }
+  return emptyStore();
+};
+
+const writeStore = (store: ProfileStore, storage: ProfileStorage | undefined): ProfileStore => {
+  storage?.setItem(STORAGE_KEY, JSON.stringify(store));
+  return store;
+};
+
+/**
+ * Validates and saves a profile (a new id adds it, an existing id replaces it) and makes it the
+ * active profile. Throws TaxpayerProfileError listing every invalid field.
+ */
+export const saveProfile = (input: Omit<TaxpayerProfile, 'id' | 'updated_at'> & { id?: string }, storage: ProfileStorage | undefined = browserStorage()): TaxpayerProfile => {
+  const result = TaxpayerProfileZod.safeParse({
+    ...input,
+    id: input.id || `tp-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    updated_at: new Date().toISOString(),
+  });
+  if (!result.success) {
+    throw new TaxpayerProfileError(
+      'Taxpayer profile is invalid',
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  const profile = result.data;
+  const store = loadProfileStore(storage);
+  writeStore({
+    ...store,
+    active_id: profile.id,
+    profiles: [...store.profiles.filter(p => p.id !== profile.id), profile],
+  }, storage);
+  return profile;
+};
+
+export const deleteProfile = (id: string, storage: ProfileStorage | undefined = browserStorage()): ProfileStore => {
+  const store = loadProfileStore(storage);
+  return writeStore({
+    ...store,
+    active_id: store.active_id === id ? undefined : store.active_id,
+    profiles: store.profiles.filter(p => p.id !== id),
+  }, storage);
+};
+
+export const setActiveProfile = (id: string | undefined, storage: ProfileStorage | undefined = browserStorage()): TaxpayerProfile | undefined => {
+  const store = loadProfileStore(storage);
+  const profile = store.profiles.find(p => p.id === id);
+  writeStore({ ...store, active_id: profile?.id }, storage);
+  return profile;
+};
+
+export const getActiveProfile = (storage: ProfileStorage | undefined = browserStorage()): TaxpayerProfile | undefined => {
+  const store = loadProfileStore(storage);
+  return store.profiles.find(p => p.id === store.active_id);
+};
+
+/**
+ * The fiscal year a date falls in, named for the calendar year it ends in: with a June 30 year
+ * end, 2024-08-15 is in fiscal 2025.
+ */
+export const fiscalYearOf = (profile: TaxpayerProfile, date: string): number => {
+  const year = Number(date.slice(0, 4));
+  return date.slice(5, 10) > profile.fiscal_year_end ? year + 1 : year;
+};
+
+/**
+ * Gross revenue for the necessity check as of a date: the fiscal year containing the date first,
+ * then each prior year on file, stopping at the first gap so years are never averaged out of order.
+ * Empty when the profile has no figure for the current fiscal year.
+ */
+export const profileRevenue = (profile: TaxpayerProfile, date: string): { fiscal_year: number; revenue: number[] } => {
+  const fiscal_year = fiscalYearOf(profile, date);
+  const revenue: number[] = [];
+  for (let year = fiscal_year; profile.gross_revenue[String(year)] !== undefined; year--) {
+    revenue.push(profile.gross_revenue[String(year)]);
+  }
+  return { fiscal_year, revenue };
+};
+
+// One line for the system instruction and the Governance Ledger
+export const describeProfile = (profile: TaxpayerProfile): string => {
+  const years = Object.keys(profile.gross_revenue).sort().reverse();
+  const revenue = years.length > 0
+    ? years.map(year => `FY${year} $${profile.gross_revenue[year].toLocaleString('en-US')}`).join(', ')
+    : 'no gross revenue on file';
+  return `${profile.name} (${ENTITY_TYPE_LABELS[profile.entity_type]}, ${profile.state}), NAICS ${profile.naics}, fiscal year ending ${profile.fiscal_year_end}; ${revenue}`;
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { WorkpaperZod } from '../LegalPackages/auditor_schema.ts';
+import { auditLedgerFile } from './ledgerAudit';
+import { buildWorkpaper, workpaperHtml, workpaperJson } from './workpaper';
+
+const ledger = 'Date,Item,Amount,Business Purpose\n2024-05-01,Office supplies,40.00,\n2024-05-02,Meals,100.00,Lunch with Acme re: bid\n2024-05-03,Laptop,4000.00,\n';
+
+const auditedLedger = async () => {
+  const report = await auditLedgerFile('expenses.csv', ledger, { business_revenue: 500000, naics: '541110' });
+  return {
+    title: 'Ledger Audit: expenses.csv',
+    source: { kind: 'ledger' as const, name: 'expenses.csv', id: report.batch_id },
+    lines: report.lines,
+    totals: report.totals,
+    skipped: report.skipped,
+  };
+};
+
+describe('buildWorkpaper', () => {
+  it('exports JSON that validates against WorkpaperZod', async () => {
+    const workpaper = await buildWorkpaper(await auditedLedger());
+    const parsed = WorkpaperZod.parse(JSON.parse(workpaperJson(workpaper)));
+    expect(parsed.expenses.map(expense => [expense.item, expense.outcome, expense.deductible_amount])).toEqual([
+      ['Office supplies', 'passed', 40],
+      ['Meals', 'passed', 50],
+      ['Laptop', 'failed', 0],
+    ]);
+    expect(parsed.corpus.key_id).toBe('corpus-publisher-2026');
+    // Every statute an expense cites is in the appendix
+    const keys = new Set(parsed.statutes.map(statute => statute.key));
+    expect(parsed.expenses.flatMap(expense => expense.statutes || []).every(key => keys.has(key))).toBe(true);
+  });
+
+  it('marks every statute as matching the evidence when the corpus is unchanged', async () => {
+    const workpaper = await buildWorkpaper(await auditedLedger());
+    expect(workpaper.statutes.length).toBeGreaterThan(0);
+    expect(workpaper.statutes.every(statute => statute.hash_matches_evidence)).toBe(true);
+    expect(workpaperHtml(workpaper)).not.toContain('DIFFERS FROM THE HASH');
+  });
+
+  it('flags a statute whose recorded hash is no longer in the corpus', async () => {
+    const input = await auditedLedger();
+    const [line] = input.lines;
+    const [first, ...rest] = line.steps;
+    const altered = { ...first, evidence_source: first.evidence_source.replace(/\[sha256:[0-9a-f]{64}\]/, `[sha256:${'0'.repeat(64)}]`) };
+    const workpaper = await buildWorkpaper({ ...input, lines: [{ ...line, steps: [altered, ...rest] }] });
+    const stale = workpaper.statutes.filter(statute => !statute.hash_matches_evidence);
+    expect(stale).toHaveLength(1);
+    expect(stale[0].text).toBe('Text not retrievable from the current corpus.');
+    expect(workpaperHtml(workpaper)).toContain('DIFFERS FROM THE HASH RECORDED WHEN THE CHECK RAN');
+  });
+});
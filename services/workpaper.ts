@@ -0,0 +1,276 @@
+// Section 162 audit workpapers: every expense with every ValidationStep, the statute text each
+// rule was evaluated under, and the corpus signature the text was verified against. Rendered as
+// JSON for machines and as printable HTML (print to PDF) for a client file or an examiner.
+
+import { StatuteLookupResult, ValidationOutcome, ValidationStep, consultStatute } from './legalEngine';
+import { LedgerLineResult, LedgerTotals } from './ledgerAudit';
+import { ImportIssue } from './ledgerImport';
+import { requireManifest } from './corpusIntegrity';
+import { CorpusManifest } from './corpusManifest';
+import { findSection } from './statuteCorpus';
+import { TaxpayerProfile, describeProfile } from './taxpayerProfile';
+import { sha256 } from './sha256';
+
+export const WORKPAPER_FORMAT_VERSION = 1;
+
+export interface WorkpaperStatute {
+  key: string;                    // "<pinpoint>@<effective_date>", referenced by each expense
+  citation: string;               // Pinpoint consulted, e.g. "IRC 162(a)"
+  source: string;                 // As cited in evidence: "Internal Revenue Code § 162(a)"
+  title?: string;
+  version?: string;               // Version id of the text, e.g. "IRC 162@1986-10-22"
+  effective_date?: string;
+  jurisdiction?: string;          // Postal code when a state overlay supplied the text
+  text: string;
+  sha256?: string;                // Manifest hash of the corpus entry the text came from
+  hash_matches_evidence: boolean; // False if the corpus has changed since the check ran
+}
+
+// One expense, in the AuditResult shape (LegalPackages/auditor_schema.ts.tsx) plus the full record
+export interface WorkpaperExpense {
+  line: number;
+  date: string;
+  item: string;
+  description?: string;
+  amount: number;
+  deductible_amount: number;      // Allowed after a special-rule limit; 0 unless the expense passed
+  naics?: string;
+  outcome: ValidationOutcome;
+  is_deductible: boolean;         // Passed every check (a capitalized item is recovered by depreciation instead)
+  capitalize: boolean;
+  failed_rules: string[];
+  indeterminate_rules: string[];
+  steps: ValidationStep[];
+  statutes: string[];             // Keys into Workpaper.statutes
+}
+
+export interface Workpaper {
+  format_version: typeof WORKPAPER_FORMAT_VERSION;
+  workpaper_id: string;           // First 12 hex digits of the SHA-256 of the expenses and steps
+  title: string;
+  generated_at: string;
+  source: { kind: 'ledger' | 'receipt'; name: string; id: string };
+  taxpayer?: TaxpayerProfile;
+  corpus: { hash_algorithm: string; signature_algorithm: string; key_id: string; signature: string };
+  totals: LedgerTotals;
+  expenses: WorkpaperExpense[];
+  statutes: WorkpaperStatute[];
+  skipped: ImportIssue[];
+}
+
+export interface WorkpaperInput {
+  title: string;
+  source: Workpaper['source'];
+  lines: LedgerLineResult[];
+  totals: LedgerTotals;
+  taxpayer?: TaxpayerProfile;
+  skipped?: ImportIssue[];
+}
+
+// Evidence cites law as "<source> [sha256:<hash>]" (withContentHash)
+const HASHED_CITATION = /([^;]+?) \[sha256:([0-9a-f]{64})\]/g;
+
+// Reverse of the manifest: content hash -> section citation or "<state>:<citation>" overlay key
+const manifestEntryFor = (manifest: CorpusManifest, hash: string): { citation: string; jurisdiction?: string } | undefined => {
+  const section = Object.entries(manifest.sections).find(([, value]) => value === hash);
+  if (section) return { citation: section[0] };
+  const overlay = Object.entries(manifest.overlays).find(([, value]) => value === hash);
+  if (!overlay) return undefined;
+  const [jurisdiction, citation] = overlay[0].split(':');
+  return { citation, jurisdiction };
+};
+
+/**
+ * Re-retrieves the statute text a step was evaluated under: each hashed citation in its evidence,
+ * at its pinpoint ("§ 162(a)" narrows IRC 162 to subsection (a)), as of the step's date.
+ */
+const statutesForStep = async (manifest: CorpusManifest, step: ValidationStep): Promise<WorkpaperStatute[]> => {
+  const statutes: WorkpaperStatute[] = [];
+  for (const [, cited, hash] of step.evidence_source.matchAll(HASHED_CITATION)) {
+    const source = cited.trim();
+    const entry = manifestEntryFor(manifest, hash);
+    const section = entry && findSection(entry.citation);
+    const pinpoint = section && source.startsWith(section.source) ? source.slice(section.source.length) : '';
+    const citation = entry ? `${entry.citation}${pinpoint}` : source;
+    const lookup: StatuteLookupResult = entry
+      ? await consultStatute(citation, { asOf: step.as_of, jurisdiction: entry.jurisdiction })
+      : { found: false };
+    statutes.push({
+      key: `${entry?.jurisdiction ? `${entry.jurisdiction}:` : ''}${citation}@${lookup.version?.effective_date || 'unversioned'}`,
+      citation,
+      source,
+      title: lookup.title,
+      version: lookup.version?.id,
+      effective_date: lookup.version?.effective_date,
+      jurisdiction: entry?.jurisdiction,
+      text: lookup.found && lookup.text ? lookup.text : 'Text not retrievable from the current corpus.',
+      sha256: lookup.sha256,
+      hash_matches_evidence: lookup.sha256 === hash,
+    });
+  }
+  return statutes;
+};
+
+/**
+ * Assembles a workpaper from audited lines (a ledger batch or a receipt). Each statute text appears
+ * once per pinpoint and version, shared by every expense evaluated under it.
+ */
+export const buildWorkpaper = async (input: WorkpaperInput): Promise<Workpaper> => {
+  const manifest = await requireManifest();
+  const statutes = new Map<string, WorkpaperStatute>();
+  const expenses: WorkpaperExpense[] = [];
+
+  for (const result of input.lines) {
+    const keys: string[] = [];
+    for (const step of result.steps) {
+      for (const statute of await statutesForStep(manifest, step)) {
+        if (!statutes.has(statute.key)) statutes.set(statute.key, statute);
+        if (!keys.includes(statute.key)) keys.push(statute.key);
+      }
+    }
+    const { transaction } = result;
+    expenses.push({
+      line: transaction.line,
+      date: transaction.date,
+      item: transaction.category,
+      ...(transaction.description ? { description: transaction.description } : {}),
+      amount: transaction.amount,
+      deductible_amount: result.outcome === 'passed' ? result.deductible_amount : 0,
+      ...(result.naics ? { naics: result.naics } : {}),
+      outcome: result.outcome,
+      is_deductible: result.outcome === 'passed',
+      capitalize: result.capitalize,
+      failed_rules: result.steps.filter(step => step.outcome === 'failed').map(step => step.rule_id),
+      indeterminate_rules: result.steps.filter(step => step.outcome === 'indeterminate').map(step => step.rule_id),
+      steps: result.steps,
+      statutes: keys,
+    });
+  }
+
+  return {
+    format_version: WORKPAPER_FORMAT_VERSION,
+    workpaper_id: sha256(JSON.stringify({ source: input.source, expenses })).slice(0, 12),
+    title: input.title,
+    generated_at: new Date().toISOString(),
+    source: input.source,
+    ...(input.taxpayer ? { taxpayer: input.taxpayer } : {}),
+    corpus: {
+      hash_algorithm: manifest.hash_algorithm,
+      signature_algorithm: manifest.signature.algorithm,
+      key_id: manifest.signature.key_id,
+      signature: manifest.signature.value,
+    },
+    totals: input.totals,
+    expenses,
+    statutes: [...statutes.values()],
+    skipped: input.skipped || [],
+  };
+};
+
+export const workpaperJson = (workpaper: Workpaper): string => JSON.stringify(workpaper, null, 2);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const money = (amount: number): string =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const OUTCOME_LABELS: Record<ValidationOutcome, string> = {
+  passed: 'Deductible',
+  failed: 'Flagged',
+  indeterminate: 'Human review',
+};
+
+const expenseLabel = (expense: WorkpaperExpense): string => (expense.capitalize ? 'Capitalize' : OUTCOME_LABELS[expense.outcome]);
+
+const PRINT_STYLES = `
+  body { font: 11px/1.45 Georgia, 'Times New Roman', serif; color: #111; margin: 32px; }
+  h1 { font-size: 18px; margin: 0 0 4px; } h2 { font-size: 14px; margin: 24px 0 8px; border-bottom: 1px solid #999; }
+  h3 { font-size: 12px; margin: 16px 0 6px; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 8px; }
+  th, td { border: 1px solid #bbb; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f0f0f0; font-size: 10px; text-transform: uppercase; letter-spacing: .04em; }
+  .num { text-align: right; white-space: nowrap; } .mono { font-family: 'Courier New', monospace; font-size: 9px; word-break: break-all; }
+  .passed { color: #1a6b2a; } .failed { color: #a01818; } .indeterminate { color: #8a5a00; } .capitalize { color: #1f5f8b; }
+  .statute { white-space: pre-wrap; border-left: 3px solid #999; padding-left: 8px; }
+  .expense { break-inside: avoid; } .meta td:first-child { width: 180px; font-weight: bold; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } }
+`;
+
+/**
+ * A self-contained HTML document, laid out for printing: summary, one section per expense with
+ * its steps, then an appendix with the full text of every statute relied on.
+ */
+export const workpaperHtml = (workpaper: Workpaper): string => {
+  const { totals } = workpaper;
+  const statuteIndex = new Map(workpaper.statutes.map((statute, index) => [statute.key, index + 1]));
+
+  const meta = [
+    ['Workpaper', workpaper.workpaper_id],
+    ['Generated', workpaper.generated_at],
+    ['Source', `${workpaper.source.kind === 'ledger' ? 'Ledger' : 'Receipt'}: ${workpaper.source.name} (${workpaper.source.id})`],
+    ...(workpaper.taxpayer ? [['Taxpayer', describeProfile(workpaper.taxpayer)]] : []),
+    ['Statute corpus', `${workpaper.corpus.hash_algorithm} manifest signed ${workpaper.corpus.signature_algorithm} by '${workpaper.corpus.key_id}'`],
+  ];
+
+  const summary = [
+    ['Expenses audited', String(totals.transactions)],
+    ['Total spend', money(totals.total_spend)],
+    ['Deductible', money(totals.deductible)],
+    ['Over special-rule limits', money(totals.disallowed)],
+    ['Capitalized', money(totals.capitalized)],
+    ['Flagged', money(totals.flagged)],
+    ['Needs review', money(totals.needs_review)],
+  ];
+
+  const expenseSections = workpaper.expenses.map(expense => {
+    const label = expenseLabel(expense);
+    const stepRows = expense.steps.map(step => `
+        <tr>
+          <td>${escapeHtml(step.rule_id)}</td>
+          <td class="${step.outcome}">${escapeHtml(step.outcome)}</td>
+          <td>${escapeHtml(step.details)}${step.deductible_amount !== undefined ? `<br><b>Deductible amount:</b> ${money(step.deductible_amount)}` : ''}${
+            step.depreciation ? `<br><b>Year 1:</b> ${step.depreciation.plans.map(plan => `${escapeHtml(plan.label)} ${money(plan.first_year_deduction)}`).join('; ')}` : ''}</td>
+          <td class="mono">${escapeHtml(step.evidence_source)}</td>
+          <td class="mono">${escapeHtml(step.statute_version || '')}${step.as_of ? `<br>as of ${escapeHtml(step.as_of)}` : ''}</td>
+          <td class="mono">${escapeHtml(step.timestamp)}</td>
+        </tr>`).join('');
+    const cited = expense.statutes.map(key => `[${statuteIndex.get(key)}]`).join(' ');
+    return `
+    <div class="expense">
+      <h3>Line ${expense.line}: ${escapeHtml(expense.item)}, ${money(expense.amount)}${expense.deductible_amount > 0 && expense.deductible_amount !== expense.amount ? ` (${money(expense.deductible_amount)} deductible)` : ''}, ${escapeHtml(expense.date)} (<span class="${expense.capitalize ? 'capitalize' : expense.outcome}">${label}</span>)</h3>
+      <div>${expense.description ? `${escapeHtml(expense.description)}. ` : ''}${expense.naics ? `NAICS ${escapeHtml(expense.naics)}. ` : ''}${cited ? `Statutes: ${cited}` : ''}</div>
+      <table>
+        <tr><th>Rule</th><th>Outcome</th><th>Details</th><th>Evidence</th><th>Statute version</th><th>Checked</th></tr>${stepRows}
+      </table>
+    </div>`;
+  }).join('');
+
+  const appendix = workpaper.statutes.map((statute, index) => `
+    <h3>[${index + 1}] ${escapeHtml(statute.source)}${statute.title ? `: ${escapeHtml(statute.title)}` : ''}</h3>
+    <div class="mono">Version ${escapeHtml(statute.version || 'unknown')}${statute.effective_date ? `, in force from ${escapeHtml(statute.effective_date)}` : ''}${statute.jurisdiction ? `, ${escapeHtml(statute.jurisdiction)} overlay` : ''}; sha256 ${escapeHtml(statute.sha256 || 'none')}${statute.hash_matches_evidence ? '' : ' (DIFFERS FROM THE HASH RECORDED WHEN THE CHECK RAN)'}</div>
+    <div class="statute">${escapeHtml(statute.text)}</div>`).join('');
+
+  const skipped = workpaper.skipped.length > 0 ? `
+  <h2>Skipped Rows</h2>
+  <table><tr><th>Line</th><th>Reason</th></tr>${workpaper.skipped.map(issue => `<tr><td>${issue.line}</td><td>${escapeHtml(issue.reason)}</td></tr>`).join('')}</table>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(workpaper.title)} (${workpaper.workpaper_id})</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(workpaper.title)}</h1>
+  <div>IRC § 162(a) expense audit workpaper. Every outcome below was produced by deterministic rule checks against the signed statute corpus.</div>
+  <table class="meta">${meta.map(([label, value]) => `<tr><td>${label}</td><td>${escapeHtml(value)}</td></tr>`).join('')}</table>
+  <h2>Summary</h2>
+  <table class="meta">${summary.map(([label, value]) => `<tr><td>${label}</td><td class="num">${value}</td></tr>`).join('')}</table>
+  <h2>Expenses</h2>${expenseSections}${skipped}
+  <h2>Appendix: Statute Text Relied On</h2>${appendix}
+</body>
+</html>
+`;
+};
@@ -1,3 +1,6 @@
+import type { InstrumentClassification } from './services/instrumentClassifier';
+import type { IndorsementChain } from './services/indorsementChain';
+
 
 export enum Role {
   USER = 'user',
@@ -21,6 +24,8 @@ export interface ArbiterMetadata {
   criticScore?: number; // 0.0 to 1.0
   complianceCheck?: boolean;
   latencyMs?: number;
+  instrument?: InstrumentClassification; // Type and parties of a classified instrument (UCC 3-104)
+  indorsement_chain?: IndorsementChain; // Indorsements and the person entitled to enforce (UCC 3-301)
 }
 
 export interface AuditEntry {
@@ -29,7 +34,7 @@ export interface AuditEntry {
   action: string;      // e.g., "Legal Inquiry", "Contract Analysis"
   details: string;     // Brief description
   source: 'Advisor' | 'Studio' | 'System' | 'Arbiter';
-  status: 'Verified' | 'Pending' | 'Error' | 'Refining';
+  status: 'Verified' | 'Pending' | 'Error' | 'Refining' | 'Review'; // Review: indeterminate, routed to a human
   hash: string;        // Simulated transaction hash
   metadata?: ArbiterMetadata;
 }